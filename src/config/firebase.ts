@@ -36,7 +36,7 @@ export const initializeFirebase = (): void => {
     }
     // Option 2: Use service account file (local development)
     else if (process.env.FIREBASE_SERVICE_ACCOUNT_PATH && fs.existsSync(process.env.FIREBASE_SERVICE_ACCOUNT_PATH)) {
-      const serviceAccount = require(path.resolve(process.env.FIREBASE_SERVICE_ACCOUNT_PATH));
+      const serviceAccount = JSON.parse(fs.readFileSync(path.resolve(process.env.FIREBASE_SERVICE_ACCOUNT_PATH), 'utf8'));
       const storageBucket = process.env.FIREBASE_STORAGE_BUCKET 
         || `${serviceAccount.project_id}.firebasestorage.app`
         || `${serviceAccount.project_id}.appspot.com`;
@@ -0,0 +1,92 @@
+import { DOCUMENT_MIME_TYPES } from '../models';
+import { numberFromEnv } from '../utils/env';
+
+const MB = 1024 * 1024;
+
+/**
+ * Storage limits a user gets. Every user is on one plan (User.plan, DEFAULT_STORAGE_PLAN when unset).
+ */
+export interface StoragePlan {
+  id: string;
+  name: string;
+  // Total quota in bytes - documents (every retained version) and the profile picture
+  maxStorageSize: number;
+  // Largest single document file in bytes
+  maxFileSize: number;
+  // Documents the user may have, trashed ones included
+  maxDocuments: number;
+  // Document file types, a subset of DOCUMENT_MIME_TYPES
+  allowedMimeTypes: string[];
+}
+
+const DEFAULT_PLANS: StoragePlan[] = [
+  {
+    id: 'free',
+    name: 'Free',
+    maxStorageSize: 50 * MB,
+    maxFileSize: 10 * MB,
+    maxDocuments: 100,
+    allowedMimeTypes: DOCUMENT_MIME_TYPES
+  },
+  {
+    id: 'plus',
+    name: 'Plus',
+    maxStorageSize: 2048 * MB,
+    maxFileSize: 100 * MB,
+    maxDocuments: 1000,
+    allowedMimeTypes: DOCUMENT_MIME_TYPES
+  },
+  {
+    id: 'family',
+    name: 'Family',
+    maxStorageSize: 10240 * MB,
+    maxFileSize: 100 * MB,
+    maxDocuments: 5000,
+    allowedMimeTypes: DOCUMENT_MIME_TYPES
+  }
+];
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+// STORAGE_PLANS replaces the default plans with a JSON array of StoragePlan objects.
+// A malformed value stops the process at startup rather than silently changing anyone's limits.
+const loadPlans = (): StoragePlan[] => {
+  const raw = process.env.STORAGE_PLANS;
+  if (!raw) {
+    return DEFAULT_PLANS;
+  }
+
+  const plans: StoragePlan[] = JSON.parse(raw);
+  if (!Array.isArray(plans) || plans.length === 0) {
+    throw new Error('STORAGE_PLANS must be a non-empty JSON array');
+  }
+  for (const plan of plans) {
+    const valid = typeof plan?.id === 'string' && plan.id.length > 0
+      && typeof plan.name === 'string'
+      && isPositiveInteger(plan.maxStorageSize)
+      && isPositiveInteger(plan.maxFileSize)
+      && isPositiveInteger(plan.maxDocuments)
+      && Array.isArray(plan.allowedMimeTypes)
+      && plan.allowedMimeTypes.every(type => DOCUMENT_MIME_TYPES.includes(type));
+    if (!valid) {
+      throw new Error(`STORAGE_PLANS has an invalid plan: ${JSON.stringify(plan)}`);
+    }
+  }
+  return plans;
+};
+
+export const STORAGE_PLANS: StoragePlan[] = loadPlans();
+
+// Plan of users without one
+export const DEFAULT_PLAN_ID = process.env.DEFAULT_STORAGE_PLAN || STORAGE_PLANS[0].id;
+
+if (!STORAGE_PLANS.some(plan => plan.id === DEFAULT_PLAN_ID)) {
+  throw new Error(`DEFAULT_STORAGE_PLAN ${DEFAULT_PLAN_ID} is not one of the storage plans`);
+}
+
+// Direct (non-resumable) uploads are held in memory, so multer stops reading beyond the largest plan limit
+export const MAX_PLAN_FILE_SIZE = Math.max(...STORAGE_PLANS.map(plan => plan.maxFileSize));
+
+// Profile pictures are the same on every plan, and count towards its quota
+export const PROFILE_PICTURE_MAX_SIZE = numberFromEnv('PROFILE_PICTURE_MAX_SIZE', 5 * MB);
+export const PROFILE_PICTURE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
@@ -0,0 +1,156 @@
+/**
+ * Base class for errors rendered by the error handler in index.ts as
+ * { success: false, message, error: { code, message, details? } }.
+ * `code` is stable and machine-readable; `message` is for humans.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export interface ValidationIssue {
+  // Location of the offending value, e.g. 'body.email' or 'query.limit'
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  constructor(readonly issues: ValidationIssue[], message?: string) {
+    super(message || issues.map(issue => issue.message).join('; ') || 'Invalid request', 400, 'VALIDATION_ERROR', issues);
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code = 'BAD_REQUEST', details?: unknown) {
+    super(message, 400, code, details);
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message = 'Authentication required', code = 'UNAUTHENTICATED', details?: unknown) {
+    super(message, 401, code, details);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'You do not have permission to access this resource', code = 'FORBIDDEN', details?: unknown) {
+    super(message, 403, code, details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Not found', code = 'NOT_FOUND', details?: unknown) {
+    super(message, 404, code, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code = 'CONFLICT', details?: unknown) {
+    super(message, 409, code, details);
+  }
+}
+
+export class GoneError extends AppError {
+  constructor(message: string, code = 'GONE', details?: unknown) {
+    super(message, 410, code, details);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string, code = 'FILE_TOO_LARGE', details?: unknown) {
+    super(message, 413, code, details);
+  }
+}
+
+export class QuotaExceededError extends AppError {
+  constructor(message: string, code: 'STORAGE_QUOTA_EXCEEDED' | 'DOCUMENT_LIMIT_REACHED' = 'STORAGE_QUOTA_EXCEEDED', details?: unknown) {
+    super(message, 413, code, details);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string, code = 'UNSUPPORTED_FILE_TYPE', details?: unknown) {
+    super(message, 415, code, details);
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, code = 'UNPROCESSABLE_ENTITY', details?: unknown) {
+    super(message, 422, code, details);
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(message: string, readonly retryAfterSeconds: number, code = 'RATE_LIMITED', details?: unknown) {
+    super(message, 429, code, details);
+  }
+}
+
+export class RangeNotSatisfiableError extends AppError {
+  // Size of the requested file, reported in the Content-Range header
+  constructor(readonly size: number, message = 'The requested range is not satisfiable', code = 'RANGE_NOT_SATISFIABLE') {
+    super(message, 416, code, { size });
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, code = 'SERVICE_UNAVAILABLE', details?: unknown) {
+    super(message, 503, code, details);
+  }
+}
+
+export class InternalError extends AppError {
+  constructor(message = 'Something went wrong', code = 'INTERNAL_ERROR', details?: unknown) {
+    super(message, 500, code, details);
+  }
+}
+
+// Firebase Admin error codes that map to client errors
+const firebaseErrors: Record<string, () => AppError> = {
+  'auth/id-token-expired': () => new AuthenticationError('Token has expired. Please login again.', 'TOKEN_EXPIRED'),
+  'auth/id-token-revoked': () => new AuthenticationError('Token has been revoked. Please login again.', 'TOKEN_REVOKED'),
+  'auth/argument-error': () => new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN'),
+  'auth/user-not-found': () => new NotFoundError('User not found', 'USER_NOT_FOUND'),
+  'auth/email-already-exists': () => new ConflictError('User with this email already exists', 'EMAIL_ALREADY_EXISTS'),
+  'auth/invalid-email': () => new BadRequestError('Invalid email address', 'INVALID_EMAIL'),
+  'auth/user-disabled': () => new ForbiddenError('This account has been suspended', 'ACCOUNT_SUSPENDED')
+};
+
+/**
+ * Normalize anything thrown inside a route into an AppError
+ */
+export const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (typeof error?.code === 'string' && firebaseErrors[error.code]) {
+    return firebaseErrors[error.code]();
+  }
+
+  // multer
+  if (error?.name === 'MulterError') {
+    return error.code === 'LIMIT_FILE_SIZE'
+      ? new PayloadTooLargeError('File is too large')
+      : new BadRequestError(error.message, 'INVALID_UPLOAD');
+  }
+
+  // body-parser
+  if (error?.type === 'entity.parse.failed') {
+    return new BadRequestError('Request body is not valid JSON', 'INVALID_JSON');
+  }
+  if (error?.type === 'entity.too.large') {
+    return new PayloadTooLargeError('Request body is too large', 'BODY_TOO_LARGE');
+  }
+
+  return new InternalError(
+    process.env.NODE_ENV === 'development' && error?.message ? error.message : 'Something went wrong'
+  );
+};
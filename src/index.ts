@@ -1,10 +1,13 @@
-import express, { Application, Request, Response } from 'express';
+import express, { Application, NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { initializeFirebase } from './config/firebase';
-import apiRoutes from './routes/api';
-import authRoutes from './routes/auth';
-import documentRoutes from './routes/documents';
+import { NotFoundError, RangeNotSatisfiableError, RateLimitError, toAppError } from './errors';
+import { routeMounts } from './routes';
+import { scheduleMalwareRescan } from './services/malwareScan';
+import { scheduleTrashPurge } from './services/trash';
+import { scheduleUploadExpiry } from './services/uploads';
+import { scheduleUsageReconciliation } from './services/usage';
 
 // Load environment variables
 dotenv.config();
@@ -15,13 +18,16 @@ const PORT = Number(process.env.PORT) || 3000;
 // Initialize Firebase
 initializeFirebase();
 
+// Trust the platform proxy (Railway) so req.ip is the real client address
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
 // Middleware
 // Allow all origins for development (restrict in production)
 app.use(cors({
   origin: true, // Allow all origins
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Share-Passcode']
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -35,29 +41,40 @@ app.get('/health', (_req: Request, res: Response) => {
   });
 });
 
-// API routes
-app.use('/api', apiRoutes);
-
-// Authentication routes
-app.use('/api/auth', authRoutes);
-
-// Document routes
-app.use('/api/documents', documentRoutes);
+// API routes (see routes/index.ts)
+for (const { path, router } of routeMounts) {
+  app.use(path, router);
+}
 
 // 404 handler
-app.use((req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Route not found',
-    path: req.path
-  });
+app.use((req: Request, _res: Response, next: NextFunction) => {
+  next(new NotFoundError('Route not found', 'ROUTE_NOT_FOUND', { path: req.path }));
 });
 
-// Error handler
-app.use((err: Error, _req: Request, res: Response, _next: Function) => {
-  console.error('Error:', err);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
+// Error handler - every error response uses { success: false, message, error: { code, message, details? } }
+app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  const error = toAppError(err);
+
+  if (error.status >= 500) {
+    console.error('Error:', err);
+  }
+
+  if (error instanceof RateLimitError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  if (error instanceof RangeNotSatisfiableError) {
+    res.setHeader('Content-Range', `bytes */${error.size}`);
+  }
+
+  res.status(error.status).json({
+    success: false,
+    message: error.message,
+    error: {
+      code: error.code,
+      message: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {})
+    }
   });
 });
 
@@ -79,6 +96,18 @@ const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`📝 Environment: ${env}`);
 });
 
+// Permanently delete documents whose trash retention period has passed
+scheduleTrashPurge();
+
+// Clean up resumable uploads that were abandoned, releasing their reserved space
+scheduleUploadExpiry();
+
+// Correct totalSize counters that drifted from what users actually store
+scheduleUsageReconciliation();
+
+// Scan documents the malware scanner has not passed yet
+scheduleMalwareRescan();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
@@ -0,0 +1,107 @@
+import { AppError, AuthenticationError, ForbiddenError } from '../errors';
+import { AccessChannel, DocumentShare } from '../models';
+import { AuthRequest, hasRole } from './auth';
+
+/**
+ * Who may call a route:
+ * - public: anyone, no credentials (e.g. the QR profile picture)
+ * - owner: the authenticated user who owns the resource
+ * - pin: a caller who presented the owner's master PIN in this request
+ * - share: a caller holding a valid share token covering the document
+ * - admin: an authenticated user with the admin role claim
+ */
+export type AccessRole = 'public' | 'owner' | 'pin' | 'share' | 'admin';
+
+export interface AccessPolicy {
+  allow: AccessRole[];
+  // Route was unauthenticated before the policy layer - stays open while LEGACY_OPEN_DOCUMENT_ROUTES=true
+  legacyOpen?: boolean;
+}
+
+export interface AccessCredentials {
+  uid?: string;
+  isAdmin?: boolean;
+  // Owner whose master PIN was verified in this request
+  pinVerifiedFor?: string;
+  // Share resolved from the token presented in this request
+  share?: DocumentShare;
+}
+
+export interface AccessTarget {
+  ownerId: string;
+  documentId?: string;
+  // Owner's show/hide setting - PIN holders only see visible documents
+  visibleToPin?: boolean;
+}
+
+export type AccessDecision =
+  | { allowed: true; role: AccessRole; channel: AccessChannel }
+  | { allowed: false; status: 401 | 403; message: string };
+
+const channelForRole: Record<AccessRole, AccessChannel> = {
+  public: 'PUBLIC',
+  owner: 'OWNER',
+  pin: 'PIN',
+  share: 'SHARE',
+  admin: 'ADMIN'
+};
+
+export const isLegacyOpenAccessEnabled = (): boolean =>
+  process.env.LEGACY_OPEN_DOCUMENT_ROUTES === 'true';
+
+export const credentialsFromRequest = (req: AuthRequest): AccessCredentials => ({
+  uid: req.user?.uid,
+  isAdmin: hasRole(req.user, 'admin')
+});
+
+const satisfies = (role: AccessRole, credentials: AccessCredentials, target: AccessTarget): boolean => {
+  switch (role) {
+    case 'public':
+      return true;
+    case 'owner':
+      return Boolean(credentials.uid) && credentials.uid === target.ownerId;
+    case 'admin':
+      return credentials.isAdmin === true;
+    case 'pin':
+      return credentials.pinVerifiedFor === target.ownerId && target.visibleToPin !== false;
+    case 'share':
+      return Boolean(credentials.share)
+        && credentials.share!.userId === target.ownerId
+        && (!target.documentId || credentials.share!.documentIds.includes(target.documentId));
+  }
+};
+
+/**
+ * The single access check used by every route. Roles are tried in the order the policy lists them.
+ */
+export const authorize = (
+  credentials: AccessCredentials,
+  target: AccessTarget,
+  policy: AccessPolicy
+): AccessDecision => {
+  const allow: AccessRole[] = policy.legacyOpen && isLegacyOpenAccessEnabled()
+    ? [...policy.allow, 'public']
+    : policy.allow;
+
+  const role = allow.find(candidate => satisfies(candidate, credentials, target));
+  if (role) {
+    return { allowed: true, role, channel: channelForRole[role] };
+  }
+
+  if (!credentials.uid && !credentials.pinVerifiedFor && !credentials.share) {
+    return { allowed: false, status: 401, message: 'Authentication required' };
+  }
+
+  return { allowed: false, status: 403, message: 'You do not have permission to access this resource' };
+};
+
+/**
+ * Error to throw for a denied decision
+ */
+export const accessDeniedError = (
+  decision: Extract<AccessDecision, { allowed: false }>,
+  message?: string
+): AppError =>
+  decision.status === 401
+    ? new AuthenticationError(message || decision.message)
+    : new ForbiddenError(message || decision.message);
@@ -0,0 +1,11 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Wrap an async route handler so rejections reach the error handler in index.ts
+ * (Express 4 does not forward promise rejections by itself)
+ */
+export const asyncHandler = <T extends Request = Request>(
+  handler: (req: T, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next) => {
+  handler(req as T, res, next).catch(next);
+};
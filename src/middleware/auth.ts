@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { admin } from '../config/firebase';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { AuthenticationError, ForbiddenError } from '../errors';
 
 // Extend Express Request to include user info
 export interface AuthRequest extends Request {
@@ -10,69 +12,59 @@ export interface AuthRequest extends Request {
   };
 }
 
+/**
+ * Verify a Firebase ID token and reject it when it was revoked (logout, force-logout, suspension)
+ * after the user signed in, i.e. when the user's tokensValidAfterTime is after the token's auth_time
+ */
+export const verifyActiveIdToken = async (idToken: string): Promise<DecodedIdToken> => {
+  const decodedToken = await admin.auth().verifyIdToken(idToken);
+
+  const userRecord = await admin.auth().getUser(decodedToken.uid);
+  if (userRecord.tokensValidAfterTime) {
+    const tokenAuthTime = decodedToken.auth_time * 1000; // Convert to milliseconds
+    const revokedTimeValue = userRecord.tokensValidAfterTime as any;
+    const revokedTime = revokedTimeValue instanceof Date
+      ? revokedTimeValue.getTime()
+      : new Date(revokedTimeValue).getTime();
+
+    if (tokenAuthTime < revokedTime) {
+      throw new AuthenticationError('Token has been revoked. Please login again.', 'TOKEN_REVOKED');
+    }
+  }
+
+  return decodedToken;
+};
+
 /**
  * Middleware to verify Firebase ID token
  * Use this to protect routes that require authentication
  */
 export const authenticateToken = async (
   req: AuthRequest,
-  res: Response,
+  _res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
 
     if (!authHeader) {
-      res.status(401).json({
-        success: false,
-        error: 'Authorization token required. Please provide a Bearer token.'
-      });
-      return;
+      throw new AuthenticationError('Authorization token required. Please provide a Bearer token.', 'TOKEN_MISSING');
     }
 
     // Handle different Bearer token formats (Bearer token, Bearer  token, etc.)
     const bearerMatch = authHeader.match(/^Bearer\s+(.+)$/i);
     if (!bearerMatch) {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid authorization format. Expected: Bearer <token>'
-      });
-      return;
+      throw new AuthenticationError('Invalid authorization format. Expected: Bearer <token>', 'INVALID_TOKEN_FORMAT');
     }
 
     const idToken = bearerMatch[1].trim();
 
     // Validate token format (JWT should have 3 parts separated by dots)
     if (!idToken || idToken.split('.').length !== 3) {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid token format. Token must be a valid JWT.'
-      });
-      return;
+      throw new AuthenticationError('Invalid token format. Token must be a valid JWT.', 'INVALID_TOKEN_FORMAT');
     }
 
-    // Verify the ID token
-    const decodedToken = await admin.auth().verifyIdToken(idToken);
-
-    // Check if token was revoked by checking user's tokensValidAfterTime
-    const userRecord = await admin.auth().getUser(decodedToken.uid);
-    
-    // If tokensValidAfterTime exists and is after the token's auth_time, token is revoked
-    if (userRecord.tokensValidAfterTime) {
-      const tokenAuthTime = decodedToken.auth_time * 1000; // Convert to milliseconds
-      const revokedTimeValue = userRecord.tokensValidAfterTime as any;
-      const revokedTime = revokedTimeValue instanceof Date 
-        ? revokedTimeValue.getTime() 
-        : new Date(revokedTimeValue).getTime();
-      
-      if (tokenAuthTime < revokedTime) {
-        res.status(401).json({
-          success: false,
-          error: 'Token has been revoked. Please login again.'
-        });
-        return;
-      }
-    }
+    const decodedToken = await verifyActiveIdToken(idToken);
 
     // Attach user info to request object
     req.user = {
@@ -83,28 +75,24 @@ export const authenticateToken = async (
 
     next();
   } catch (error: any) {
+    if (error instanceof AuthenticationError) {
+      next(error);
+      return;
+    }
+
     console.error('Error verifying token:', error);
 
     if (error.code === 'auth/id-token-expired') {
-      res.status(401).json({
-        success: false,
-        error: 'Token has expired. Please login again.'
-      });
+      next(new AuthenticationError('Token has expired. Please login again.', 'TOKEN_EXPIRED'));
       return;
     }
 
     if (error.code === 'auth/id-token-revoked') {
-      res.status(401).json({
-        success: false,
-        error: 'Token has been revoked. Please login again.'
-      });
+      next(new AuthenticationError('Token has been revoked. Please login again.', 'TOKEN_REVOKED'));
       return;
     }
 
-    res.status(401).json({
-      success: false,
-      error: 'Invalid or expired token'
-    });
+    next(new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN'));
   }
 };
 
@@ -126,7 +114,8 @@ export const optionalAuth = async (
         const idToken = bearerMatch[1].trim();
         // Only verify if token looks valid (JWT has 3 parts)
         if (idToken && idToken.split('.').length === 3) {
-          const decodedToken = await admin.auth().verifyIdToken(idToken);
+          // A revoked token counts as no token at all
+          const decodedToken = await verifyActiveIdToken(idToken);
           req.user = {
             ...decodedToken,
             uid: decodedToken.uid,
@@ -143,3 +132,31 @@ export const optionalAuth = async (
   next();
 };
 
+/**
+ * True when the authenticated user carries the role custom claim
+ * (set with admin.auth().setCustomUserClaims(uid, { role }))
+ */
+export const hasRole = (user: AuthRequest['user'], role: string): boolean =>
+  Boolean(user) && user!.role === role;
+
+/**
+ * Middleware to restrict a route to users with the given role.
+ * Must run after authenticateToken.
+ */
+export const requireRole = (role: string) => (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    next(new AuthenticationError('Authorization token required. Please provide a Bearer token.', 'TOKEN_MISSING'));
+    return;
+  }
+
+  if (!hasRole(req.user, role)) {
+    next(new ForbiddenError(`This action requires the ${role} role`, 'ROLE_REQUIRED'));
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,40 @@
+/**
+ * How a document was reached: by its owner, through the master PIN, through a share link,
+ * by an admin, or through one of the unauthenticated open endpoints
+ */
+export type AccessChannel = 'OWNER' | 'PIN' | 'SHARE' | 'ADMIN' | 'PUBLIC';
+
+export type AccessOutcome = 'GRANTED' | 'DENIED';
+
+/**
+ * Append-only record of a read (or attempted read) of a user's documents.
+ * documentId is null for attempts rejected before any document was resolved (e.g. a wrong PIN).
+ */
+export interface AccessEvent {
+  id: string;
+  ownerId: string;
+  documentId: string | null;
+  channel: AccessChannel;
+  outcome: AccessOutcome;
+  // Route that served the read, e.g. 'my-documents' or 'download-url'
+  action: string;
+  reason?: string;
+  shareId?: string;
+  ipAddress: string;
+  userAgent?: string;
+  occurredAt: number;
+}
+
+export type NewAccessEvent = Omit<AccessEvent, 'id'>;
+
+export interface AccessEventQuery {
+  documentId?: string;
+  channel?: AccessChannel;
+  outcome?: AccessOutcome;
+  // Epoch ms, inclusive
+  from?: number;
+  to?: number;
+  limit: number;
+  // ID of the last event on the previous page
+  cursor?: string;
+}
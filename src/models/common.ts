@@ -0,0 +1,17 @@
+import { admin } from '../config/firebase';
+
+/**
+ * Timestamps come back from Firestore as Timestamp objects and from the
+ * in-memory repositories as plain Dates
+ */
+export type Timestamp = Date | admin.firestore.Timestamp;
+
+/**
+ * Milliseconds since epoch for either timestamp representation (0 when missing)
+ */
+export const toMillis = (value?: Timestamp | null): number => {
+  if (!value) {
+    return 0;
+  }
+  return value instanceof Date ? value.getTime() : value.toMillis();
+};
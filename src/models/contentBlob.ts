@@ -0,0 +1,29 @@
+/**
+ * File contents stored once per user under their SHA-256. Every document version with these bytes
+ * holds a reference; the object is deleted together with the last one. Times are epoch milliseconds.
+ */
+export interface ContentBlob {
+  // `<userId>_<sha256>`
+  id: string;
+  userId: string;
+  sha256: string;
+  // `<userId>/content/<sha256>_<suffix>` - the suffix is new each time the contents are stored
+  // afresh, so deleting the previous object can never remove a newer one
+  storagePath: string;
+  size: number;
+  refCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const contentBlobId = (userId: string, sha256: string): string => `${userId}_${sha256}`;
+
+const CONTENT_PATH = /^([^/]+)\/content\/([0-9a-f]{64})_[0-9a-f]+$/;
+
+/**
+ * The blob a storage path belongs to, or null for files stored before content addressing
+ */
+export const contentBlobIdFromPath = (storagePath: string): string | null => {
+  const match = storagePath.match(CONTENT_PATH);
+  return match ? contentBlobId(match[1], match[2]) : null;
+};
@@ -0,0 +1,169 @@
+import { Timestamp, toMillis } from './common';
+
+/**
+ * Fixed categories a document can be filed under
+ */
+export const DOCUMENT_CATEGORIES = ['identity', 'vehicle', 'medical', 'financial', 'education', 'property', 'other'] as const;
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+/**
+ * Outcome of the malware scan of a document's file (see services/malwareScan): CLEAN once it passed,
+ * INFECTED when a scan of a file stored before scanning found malware (infected uploads are quarantined
+ * and never become documents)
+ */
+export type ScanStatus = 'CLEAN' | 'INFECTED';
+
+/**
+ * File types accepted for documents: PDF, images, Word and Excel
+ */
+export const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+/**
+ * Document metadata stored in the `documents` collection
+ */
+export interface WalletDocument {
+  id: string;
+  userId: string;
+  fileName: string;
+  storagePath: string;
+  downloadURL?: string;
+  fileSize: number;
+  mimeType: string;
+  documentType: string;
+  // SHA-256 (hex) of the current file; unset/null for files stored before content addressing
+  sha256?: string | null;
+  // Type of the current file as detected from its signature (mimeType is what the client declared);
+  // unset/null for files uploaded before detection
+  detectedType?: string | null;
+  // Scan of the current file; unset/null on files stored before scanning, which are withheld from
+  // everyone but their owner (and admins) until the rescan job passes them
+  scanStatus?: ScanStatus | null;
+  // Epoch milliseconds of the scan; unset/null until scanned
+  scannedAt?: number | null;
+  // Name of the malware found (INFECTED only)
+  scanThreat?: string | null;
+  description: string;
+  // Unset on documents uploaded before categories, which count as 'other'
+  category?: DocumentCategory;
+  // Free-form user tags, stored trimmed and lower-cased (see normalizeTags)
+  tags?: string[];
+  // Version whose file the fields above describe (see DocumentVersion). Unset on documents
+  // uploaded before versioning, which are treated as version 1 without a history record.
+  currentVersion?: number;
+  // Highest version number handed out (see addVersion) - never reused, even once pruned.
+  // Unset on documents that have not been given a new version since this was recorded.
+  lastVersion?: number;
+  // Folder holding the document (see Folder); unset/null at the top level
+  folderId?: string | null;
+  // Epoch milliseconds when the document was moved to the trash; unset/null while it is live
+  trashedAt?: number | null;
+  uploadedAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type NewWalletDocument = Omit<WalletDocument, 'id' | 'uploadedAt' | 'updatedAt'>;
+
+/**
+ * Document data safe to return to clients - the storage path and any long-lived downloadURL stored
+ * before download tokens are never exposed (files are served through short-lived download tokens)
+ */
+export type PublicDocument = Omit<WalletDocument, 'storagePath' | 'downloadURL'>;
+
+export const toPublicDocument = (document: WalletDocument): PublicDocument => {
+  const { storagePath: _storagePath, downloadURL: _storedUrl, ...rest } = document;
+  return rest;
+};
+
+export type DocumentSortField = 'uploadedAt' | 'fileName' | 'fileSize';
+
+export const DOCUMENT_SORT_FIELDS: DocumentSortField[] = ['uploadedAt', 'fileName', 'fileSize'];
+
+export interface DocumentSort {
+  field: DocumentSortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Where a document sits in a sorted listing: its sort value (uploadedAt as epoch ms),
+ * with the document ID breaking ties
+ */
+export interface DocumentPosition {
+  value: number | string;
+  id: string;
+}
+
+export const documentPosition = (document: WalletDocument, field: DocumentSortField): DocumentPosition => ({
+  value: field === 'uploadedAt' ? toMillis(document.uploadedAt) : document[field],
+  id: document.id
+});
+
+// Plain (code unit) comparison, matching Firestore's ordering of strings
+export const comparePositions = (a: DocumentPosition, b: DocumentPosition, direction: DocumentSort['direction']): number => {
+  const order = a.value < b.value ? -1
+    : a.value > b.value ? 1
+      : a.id < b.id ? -1
+        : a.id > b.id ? 1 : 0;
+  return direction === 'asc' ? order : -order;
+};
+
+/**
+ * Sort documents and take up to `limit` of them after the given position -
+ * for backends that can't page natively
+ */
+export const sortedBatch = (
+  documents: WalletDocument[],
+  sort: DocumentSort,
+  options: { after?: DocumentPosition; limit: number }
+): WalletDocument[] => {
+  const { after, limit } = options;
+  return documents
+    .filter(document => !after || comparePositions(documentPosition(document, sort.field), after, sort.direction) > 0)
+    .sort((a, b) => comparePositions(documentPosition(a, sort.field), documentPosition(b, sort.field), sort.direction))
+    .slice(0, limit);
+};
+
+/**
+ * Entry kept in the user's `documents` array.
+ * Note: timestamps here are display strings - Firestore can't store serverTimestamp() inside arrays.
+ */
+export interface DocumentSummary {
+  docId: string;
+  docName?: string;
+  docType?: string;
+  docSize?: number;
+  uploadedTime?: string;
+  isDocShow: boolean;
+  downloadURL?: string;
+  // Mirrors WalletDocument.trashedAt so PIN access can skip trashed documents
+  trashedAt?: number | null;
+}
+
+/**
+ * Older accounts store bare document ID strings instead of summaries
+ */
+export type UserDocumentEntry = DocumentSummary | string;
+
+export const summaryDocId = (entry: UserDocumentEntry): string =>
+  typeof entry === 'string' ? entry : entry.docId;
+
+/**
+ * Whether a document (or its summary entry) is in the trash
+ */
+export const isTrashed = (document: { trashedAt?: number | null }): boolean =>
+  typeof document.trashedAt === 'number';
+
+/**
+ * Trim, lower-case and de-duplicate user tags so filtering is case-insensitive
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
@@ -0,0 +1,29 @@
+import { AccessChannel } from './accessEvent';
+
+/**
+ * What a download token grants. Signed into the token itself, so nothing is stored per token.
+ * Times are epoch milliseconds.
+ */
+export interface DownloadTokenClaims {
+  documentId: string;
+  // The document's owner
+  userId: string;
+  // How the document was reached when the token was issued - decides its lifetime
+  channel: AccessChannel;
+  // Set for a token to one specific version instead of the current file
+  version?: number;
+  // Set for tokens handed out through a share - the share must still be valid on download
+  shareId?: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * HMAC key download tokens are signed with. Replacing it invalidates every outstanding token.
+ */
+export interface DownloadSigningKey {
+  // Carried in each token, so a token signed with an older key is recognised as such
+  id: string;
+  secret: string;
+  createdAt: number;
+}
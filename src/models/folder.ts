@@ -0,0 +1,21 @@
+/**
+ * User-defined folder for organizing documents. Folders nest through parentId;
+ * documents point at their folder with WalletDocument.folderId.
+ * Times are epoch milliseconds.
+ */
+export interface Folder {
+  id: string;
+  userId: string;
+  name: string;
+  // null for top-level folders
+  parentId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewFolder = Omit<Folder, 'id'>;
+
+export type FolderUpdate = Partial<Pick<Folder, 'name' | 'parentId' | 'updatedAt'>>;
+
+export const byFolderName = (a: Folder, b: Folder): number =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
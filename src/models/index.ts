@@ -0,0 +1,12 @@
+export * from './common';
+export * from './document';
+export * from './user';
+export * from './security';
+export * from './share';
+export * from './accessEvent';
+export * from './version';
+export * from './folder';
+export * from './searchIndex';
+export * from './uploadSession';
+export * from './downloadToken';
+export * from './contentBlob';
@@ -0,0 +1,12 @@
+/**
+ * A document's entry in its owner's search index - the terms of its name, description and tags.
+ * One record per document keeps every update a single write, and no record grows with the number
+ * of documents a user has. Times are epoch milliseconds.
+ */
+export interface SearchEntry {
+  documentId: string;
+  userId: string;
+  // term -> weight of the term in the document
+  terms: Record<string, number>;
+  updatedAt: number;
+}
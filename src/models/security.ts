@@ -0,0 +1,38 @@
+import { Timestamp } from './common';
+
+/**
+ * Failed PIN attempt counter, keyed per user (`user:<uid>`), per share for share passcodes (`share:<shareId>`)
+ * or per client IP (`ip:<address>`).
+ * Times are epoch milliseconds.
+ */
+export interface PinAttemptState {
+  key: string;
+  failures: number;
+  lastFailureAt: number;
+  // Exponential backoff - no attempt is accepted before this time
+  nextAttemptAt: number;
+  lockedUntil: number | null;
+  // An attempt is being checked until then - concurrent attempts are refused (see claimPinAttempt).
+  // Unset/null when none is in flight.
+  claimedUntil?: number | null;
+}
+
+export type SecurityAlertType = 'PIN_LOCKOUT' | 'SHARE_PASSCODE_LOCKOUT';
+
+/**
+ * Alert shown to a document owner, e.g. when their PIN endpoint or a share's passcode gets locked out
+ */
+export interface SecurityAlert {
+  id: string;
+  userId: string;
+  type: SecurityAlertType;
+  message: string;
+  ipAddress: string;
+  userAgent?: string;
+  failures: number;
+  lockedUntil?: number | null;
+  read: boolean;
+  createdAt?: Timestamp;
+}
+
+export type NewSecurityAlert = Omit<SecurityAlert, 'id' | 'read' | 'createdAt'>;
@@ -0,0 +1,35 @@
+import { Timestamp } from './common';
+
+/**
+ * Time-limited share of selected documents.
+ * The ID is the SHA-256 of the share token - the token itself is only returned once, at creation.
+ * Times are epoch milliseconds.
+ */
+export interface DocumentShare {
+  id: string;
+  userId: string;
+  documentIds: string[];
+  label?: string;
+  expiresAt: number;
+  maxViews: number | null;
+  viewCount: number;
+  passcodeHash?: string;
+  lastViewedAt: number | null;
+  revokedAt: number | null;
+  createdAt?: Timestamp;
+}
+
+export type NewDocumentShare = Omit<DocumentShare, 'viewCount' | 'lastViewedAt' | 'revokedAt' | 'createdAt'>;
+
+/**
+ * Share details safe to return to the owner
+ */
+export type PublicDocumentShare = Omit<DocumentShare, 'passcodeHash'> & { hasPasscode: boolean };
+
+export const toPublicShare = (share: DocumentShare): PublicDocumentShare => {
+  const { passcodeHash, ...rest } = share;
+  return {
+    ...rest,
+    hasPasscode: Boolean(passcodeHash)
+  };
+};
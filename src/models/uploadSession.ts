@@ -0,0 +1,42 @@
+import { DocumentCategory } from './document';
+
+/**
+ * One received chunk, stored as its own object until the upload completes
+ */
+export interface UploadPart {
+  offset: number;
+  size: number;
+  storagePath: string;
+}
+
+/**
+ * Resumable upload in progress. The declared fileSize is reserved against the owner's quota
+ * from creation until the upload completes, is cancelled or expires.
+ * Times are epoch milliseconds.
+ */
+export interface UploadSession {
+  id: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  // Applied to the document created on completion
+  description: string;
+  category: DocumentCategory;
+  tags: string[];
+  folderId: string | null;
+  // Bytes received so far - the next chunk must start here
+  offset: number;
+  parts: UploadPart[];
+  // Set while the parts are being assembled, so an upload cannot complete twice
+  completingAt: number | null;
+  // Whether fileSize and one document are still held on the owner's quota counters (see services/quota
+  // reserveUpload). Cleared when the hold is settled or released; unset on sessions started before holds were recorded.
+  reserved?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  // Pushed back by every chunk - idle sessions expire
+  expiresAt: number;
+}
+
+export type NewUploadSession = Omit<UploadSession, 'id'>;
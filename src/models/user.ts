@@ -0,0 +1,79 @@
+import { Timestamp } from './common';
+import { UserDocumentEntry } from './document';
+
+/**
+ * User profile stored in the `users` collection (keyed by Firebase Auth UID)
+ */
+export interface User {
+  uid: string;
+  email?: string;
+  displayName?: string;
+  emailVerified?: boolean;
+  mobileNumber?: string;
+  // scrypt hash from services/pin (legacy accounts hold plaintext until their first successful verification)
+  masterPin?: string;
+  QR?: string;
+  name?: string;
+  documents: UserDocumentEntry[];
+  // Bytes counted towards the quota - only changed through services/quota
+  totalSize: number;
+  // When totalSize (or a reservation below) last changed (epoch ms); reconciliation leaves recently changed counters alone
+  totalSizeUpdatedAt?: number;
+  // Bytes and documents held for resumable uploads in progress (see services/uploads) - only changed
+  // through services/quota. Unset means nothing is reserved.
+  reservedSize?: number;
+  reservedUploads?: number;
+  profilePicture?: string;
+  profilePicturePath?: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+  lastLoginAt?: Timestamp;
+  lastLogoutAt?: Timestamp;
+  // Set by the admin API - the Firebase Auth user is disabled while suspended
+  suspended?: boolean;
+  suspendedAt?: Timestamp | null;
+  // Storage plan ID (see config/storage); unset means the default plan
+  plan?: string;
+  // Versions kept per document (see services/versions for the default and maximum)
+  maxDocumentVersions?: number;
+  // Older accounts may hold extra profile fields registration used to store as-is
+  [key: string]: any;
+}
+
+/**
+ * The quota counters kept on the user record, changed together in one transaction
+ */
+export interface QuotaUsage {
+  totalSize: number;
+  reservedSize: number;
+  reservedUploads: number;
+}
+
+export const quotaUsageOf = (user: User): QuotaUsage => ({
+  totalSize: user.totalSize,
+  reservedSize: user.reservedSize ?? 0,
+  reservedUploads: user.reservedUploads ?? 0
+});
+
+export type NewUser = Omit<User, 'uid' | 'createdAt' | 'updatedAt'> & { uid?: string };
+
+export type UserUpdate = Partial<Omit<User, 'uid' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * User data safe to return to clients - the master PIN (or its hash) is never exposed, nor where the
+ * profile picture is stored or the long-lived URL kept with pictures uploaded before download tokens
+ * (the picture is streamed from GET /api/auth/profile-picture)
+ */
+export type PublicUser = Omit<User, 'masterPin' | 'profilePicture' | 'profilePicturePath'> & {
+  hasMasterPin: boolean;
+  hasProfilePicture: boolean;
+};
+
+export const toPublicUser = (user: User): PublicUser => {
+  const { masterPin, profilePicture: _storedUrl, profilePicturePath, ...rest } = user;
+  return {
+    ...rest,
+    hasMasterPin: Boolean(masterPin),
+    hasProfilePicture: Boolean(profilePicturePath)
+  };
+};
@@ -0,0 +1,33 @@
+import { ScanStatus } from './document';
+
+/**
+ * One stored file of a document. Every retained version counts towards the owner's totalSize,
+ * even when its contents are shared with other versions (see ContentBlob);
+ * the document mirrors its current version.
+ * Times are epoch milliseconds.
+ */
+export interface DocumentVersion {
+  // `<documentId>_<version>`
+  id: string;
+  documentId: string;
+  userId: string;
+  // 1 for the original upload, increasing with every new version
+  version: number;
+  fileName: string;
+  storagePath: string;
+  fileSize: number;
+  mimeType: string;
+  // SHA-256 (hex) of the file; unset for files stored before content addressing
+  sha256?: string;
+  // Type detected from the file's signature; unset for files uploaded before detection
+  detectedType?: string;
+  // Malware scan of the file (see WalletDocument) - unset on versions uploaded before scanning
+  scanStatus?: ScanStatus | null;
+  scannedAt?: number | null;
+  scanThreat?: string | null;
+  createdAt: number;
+}
+
+export type NewDocumentVersion = Omit<DocumentVersion, 'id'>;
+
+export const versionId = (documentId: string, version: number): string => `${documentId}_${version}`;
@@ -0,0 +1,313 @@
+import { DOCUMENT_CATEGORIES } from '../models';
+import { array, boolean, integer, number, object, ObjectSchema, Schema, string } from '../validation';
+import { ResponseDoc } from './types';
+
+/**
+ * Response shapes shared by the route docs. Each schema registered in `componentSchemas`
+ * is published under components/schemas and referenced by name wherever it is used.
+ */
+
+export const timestampSchema = object({
+  _seconds: integer(),
+  _nanoseconds: integer()
+}, [], { description: 'Firestore timestamp (the in-memory repositories return an ISO date string instead)' });
+
+export const validationIssueSchema = object({
+  path: string({ description: 'Location of the offending value, e.g. body.email' }),
+  message: string()
+}, ['path', 'message']);
+
+export const errorResponseSchema = object({
+  success: boolean(),
+  message: string(),
+  error: object({
+    code: string({ description: 'Stable machine-readable code, e.g. VALIDATION_ERROR or DOCUMENT_NOT_FOUND' }),
+    message: string(),
+    details: object({}, [], { description: 'Code-specific details, e.g. the list of validation issues' })
+  }, ['code', 'message'])
+}, ['success', 'message', 'error']);
+
+export const quotaExceededDetailsSchema = object({
+  plan: string({ description: 'ID of the storage plan whose limit was hit' }),
+  currentSize: integer({ description: 'Bytes used' }),
+  maxSize: integer({ description: 'Quota in bytes' }),
+  fileSize: integer({ description: 'Size of the rejected upload in bytes' }),
+  availableSpace: integer(),
+  usedMB: number(),
+  maxMB: number(),
+  fileMB: number(),
+  availableMB: number(),
+  message: string(),
+  documentCount: integer({ description: 'DOCUMENT_LIMIT_REACHED only' }),
+  maxDocuments: integer({ description: 'DOCUMENT_LIMIT_REACHED only' })
+}, ['plan'], { description: 'STORAGE_QUOTA_EXCEEDED sets the size fields, DOCUMENT_LIMIT_REACHED the document counts' });
+
+export const fileTypeDetailsSchema = object({
+  claimedType: string({ description: 'The type the client declared' }),
+  detectedType: string({ nullable: true, description: 'The type the file\'s signature shows; null when unrecognized' }),
+  extension: string({ nullable: true, description: 'FILE_TYPE_MISMATCH only - the file name\'s extension' })
+}, ['claimedType', 'detectedType']);
+
+export const malwareDetectedDetailsSchema = object({
+  threat: string({ description: 'The scanner\'s name for the malware found' })
+}, ['threat']);
+
+export const storagePlanSchema = object({
+  id: string(),
+  name: string(),
+  maxStorageSize: integer({ description: 'Quota in bytes - documents (every retained version) and the profile picture' }),
+  maxFileSize: integer({ description: 'Largest document file in bytes' }),
+  maxDocuments: integer({ description: 'Documents allowed, trashed ones included' }),
+  allowedMimeTypes: array(string())
+}, ['id', 'name', 'maxStorageSize', 'maxFileSize', 'maxDocuments', 'allowedMimeTypes']);
+
+export const pinLockoutDetailsSchema = object({
+  locked: boolean(),
+  failedAttempts: integer(),
+  remainingAttempts: integer(),
+  retryAfterSeconds: integer(),
+  lockedUntil: string({ format: 'date-time', nullable: true })
+}, ['locked', 'failedAttempts', 'remainingAttempts', 'retryAfterSeconds', 'lockedUntil']);
+
+const scanFields = {
+  scanStatus: string({
+    enum: ['CLEAN', 'INFECTED'],
+    nullable: true,
+    description: 'Malware scan of the file. Until it is CLEAN the file is withheld from PIN holders and share links '
+      + '(INFECTED: from everyone but admins). Unset (or null) on files stored before scanning until a rescan sets it'
+  }),
+  scannedAt: integer({ nullable: true, description: 'Epoch ms of the scan; null until the file is scanned' }),
+  scanThreat: string({ nullable: true, description: 'The malware found (INFECTED only)' })
+};
+
+export const walletDocumentSchema = object({
+  id: string(),
+  userId: string(),
+  fileName: string(),
+  downloadURL: string({ description: 'Short-lived download URL (see GET /api/downloads/:token)' }),
+  fileSize: integer(),
+  mimeType: string(),
+  documentType: string(),
+  detectedType: string({ nullable: true, description: 'Type detected from the file\'s signature; unset on older documents' }),
+  ...scanFields,
+  description: string(),
+  currentVersion: integer({ description: 'Unset on documents uploaded before versioning (treated as version 1)' }),
+  lastVersion: integer({ description: 'Highest version number handed out - numbers are never reused' }),
+  category: string({ enum: [...DOCUMENT_CATEGORIES], description: 'Unset on older documents, which count as `other`' }),
+  tags: array(string()),
+  folderId: string({ nullable: true, description: 'Folder holding the document; unset/null at the top level' }),
+  trashedAt: integer({ nullable: true, description: 'Epoch ms when moved to the trash' }),
+  uploadedAt: timestampSchema,
+  updatedAt: timestampSchema
+}, ['id', 'userId', 'fileName', 'fileSize', 'mimeType', 'documentType', 'description']);
+
+export const trashedDocumentSchema = object({
+  documentId: string(),
+  fileName: string(),
+  fileSize: integer(),
+  mimeType: string(),
+  description: string(),
+  trashedAt: string({ format: 'date-time' }),
+  purgeAt: string({ format: 'date-time', description: 'When the purge job deletes it for good' })
+}, ['documentId', 'fileName', 'fileSize', 'mimeType', 'trashedAt', 'purgeAt']);
+
+export const uploadedDocumentSchema = object({
+  documentId: string(),
+  fileName: string(),
+  fileSize: integer(),
+  downloadURL: string(),
+  documentType: string(),
+  detectedType: string({ description: 'Type detected from the file\'s signature' }),
+  scanStatus: scanFields.scanStatus,
+  category: string(),
+  tags: array(string()),
+  folderId: string({ nullable: true }),
+  duplicateOf: object({
+    documentId: string(),
+    fileName: string()
+  }, ['documentId', 'fileName'], { nullable: true, description: 'Another of the caller\'s documents with the same contents' }),
+  uploadedAt: string({ format: 'date-time' })
+}, ['documentId', 'fileName', 'fileSize', 'downloadURL', 'documentType', 'duplicateOf', 'uploadedAt']);
+
+export const uploadSessionSchema = object({
+  uploadId: string(),
+  fileName: string(),
+  mimeType: string(),
+  fileSize: integer({ description: 'Declared size in bytes - reserved against the quota until the upload ends' }),
+  offset: integer({ description: 'Bytes received so far - the next chunk starts here' }),
+  chunkSize: integer({ description: 'Largest chunk accepted' }),
+  createdAt: string({ format: 'date-time' }),
+  expiresAt: string({ format: 'date-time', description: 'Pushed back by every chunk' })
+}, ['uploadId', 'fileName', 'mimeType', 'fileSize', 'offset', 'chunkSize', 'createdAt', 'expiresAt']);
+
+export const folderSchema = object({
+  id: string(),
+  name: string(),
+  parentId: string({ nullable: true, description: 'null for top-level folders' }),
+  createdAt: string({ format: 'date-time' }),
+  updatedAt: string({ format: 'date-time' })
+}, ['id', 'name', 'parentId', 'createdAt', 'updatedAt']);
+
+export const documentVersionSchema = object({
+  version: integer(),
+  fileName: string(),
+  fileSize: integer(),
+  mimeType: string(),
+  detectedType: string({ nullable: true, description: 'Type detected from the file\'s signature; null on older versions' }),
+  scanStatus: scanFields.scanStatus,
+  createdAt: string({ format: 'date-time' }),
+  isCurrent: boolean()
+}, ['version', 'fileName', 'fileSize', 'mimeType', 'createdAt', 'isCurrent']);
+
+export const documentSummarySchema = object({
+  docId: string(),
+  docName: string(),
+  docType: string(),
+  docSize: integer(),
+  uploadedTime: string({ description: 'Display date, e.g. "Jan 5, 2025"' }),
+  isDocShow: boolean({ description: 'Visible to PIN holders' }),
+  downloadURL: string({ description: 'Left out while the file is withheld from PIN holders (see scanStatus)' }),
+  trashedAt: integer({ nullable: true, description: 'Epoch ms when moved to the trash' })
+}, ['docId', 'isDocShow']);
+
+export const publicUserSchema = object({
+  uid: string(),
+  email: string(),
+  displayName: string(),
+  emailVerified: boolean(),
+  mobileNumber: string(),
+  hasMasterPin: boolean(),
+  QR: string(),
+  name: string(),
+  documents: array(documentSummarySchema, { description: 'Older accounts may hold bare document ID strings' }),
+  totalSize: integer({ description: 'Bytes used, including every retained document version' }),
+  maxDocumentVersions: integer({ description: 'Versions kept per document' }),
+  plan: string({ description: 'Storage plan ID - unset means the default plan' }),
+  hasProfilePicture: boolean({ description: 'Whether a profile picture is set (see GET /api/auth/profile-picture)' }),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  lastLoginAt: timestampSchema,
+  lastLogoutAt: timestampSchema,
+  suspended: boolean()
+}, ['uid', 'hasMasterPin', 'hasProfilePicture', 'documents', 'totalSize']);
+
+export const shareSchema = object({
+  id: string(),
+  userId: string(),
+  documentIds: array(string()),
+  label: string(),
+  expiresAt: integer({ description: 'Epoch milliseconds' }),
+  maxViews: integer({ nullable: true }),
+  viewCount: integer(),
+  hasPasscode: boolean(),
+  lastViewedAt: integer({ nullable: true }),
+  revokedAt: integer({ nullable: true }),
+  createdAt: timestampSchema
+}, ['id', 'userId', 'documentIds', 'expiresAt', 'maxViews', 'viewCount', 'hasPasscode', 'lastViewedAt', 'revokedAt']);
+
+export const securityAlertSchema = object({
+  id: string(),
+  userId: string(),
+  type: string({ enum: ['PIN_LOCKOUT', 'SHARE_PASSCODE_LOCKOUT'] }),
+  message: string(),
+  ipAddress: string(),
+  userAgent: string(),
+  failures: integer(),
+  lockedUntil: integer({ nullable: true }),
+  read: boolean(),
+  createdAt: timestampSchema
+}, ['id', 'userId', 'type', 'message', 'ipAddress', 'failures', 'read']);
+
+export const accessEventSchema = object({
+  id: string(),
+  ownerId: string(),
+  documentId: string({ nullable: true }),
+  channel: string({ enum: ['OWNER', 'PIN', 'SHARE', 'ADMIN', 'PUBLIC'] }),
+  outcome: string({ enum: ['GRANTED', 'DENIED'] }),
+  action: string(),
+  reason: string(),
+  shareId: string(),
+  ipAddress: string(),
+  userAgent: string(),
+  occurredAt: string({ format: 'date-time' })
+}, ['id', 'ownerId', 'documentId', 'channel', 'outcome', 'action', 'ipAddress', 'occurredAt']);
+
+export const componentSchemas: Record<string, Schema> = {
+  Timestamp: timestampSchema,
+  ValidationIssue: validationIssueSchema,
+  ErrorResponse: errorResponseSchema,
+  QuotaExceededDetails: quotaExceededDetailsSchema,
+  StoragePlan: storagePlanSchema,
+  PinLockoutDetails: pinLockoutDetailsSchema,
+  WalletDocument: walletDocumentSchema,
+  UploadedDocument: uploadedDocumentSchema,
+  UploadSession: uploadSessionSchema,
+  DocumentVersion: documentVersionSchema,
+  Folder: folderSchema,
+  TrashedDocument: trashedDocumentSchema,
+  DocumentSummary: documentSummarySchema,
+  PublicUser: publicUserSchema,
+  Share: shareSchema,
+  SecurityAlert: securityAlertSchema,
+  AccessEvent: accessEventSchema
+};
+
+/**
+ * { success: true, message?, data?, ...extra } - the envelope every JSON route returns
+ */
+export const successResponse = (data?: Schema, extra: Record<string, Schema> = {}): ObjectSchema => object({
+  success: boolean(),
+  message: string(),
+  ...(data ? { data } : {}),
+  ...extra
+}, data ? ['success', 'data'] : ['success']);
+
+// Response to the routes that create a document from an upload
+export const uploadedDocumentResponse = successResponse(uploadedDocumentSchema, {
+  warning: string({ description: '"You already have this document" - only when duplicateOf is set' })
+});
+
+export const listResponse = (items: Schema, extra: Record<string, Schema> = {}): ObjectSchema =>
+  successResponse(array(items), { count: integer(), ...extra });
+
+/**
+ * Error envelope whose `details` has a known shape
+ */
+export const errorResponse = (details: Schema): ObjectSchema => object({
+  ...errorResponseSchema.properties,
+  error: object({
+    ...(errorResponseSchema.properties.error as ObjectSchema).properties,
+    details
+  }, ['code', 'message', 'details'])
+}, ['success', 'message', 'error']);
+
+/**
+ * Request headers understood by the routes that stream a stored file (see utils/storedFile)
+ */
+export const storedFileRequestHeaders = {
+  Range: string({ description: 'A single byte range, e.g. bytes=0-1023 or bytes=-500' }),
+  'If-None-Match': string({ description: 'ETag of a cached copy - 304 while it is current' }),
+  'If-Modified-Since': string({ description: 'Checked when If-None-Match is absent' }),
+  'If-Range': string({ description: 'ETag or date - the Range only applies while the file is unchanged' })
+};
+
+const storedFileHeaders = {
+  ETag: 'Validator for If-None-Match and If-Range',
+  'Last-Modified': 'When the stored file last changed',
+  'Cache-Control': 'private, no-cache - cached copies are revalidated (and access re-checked) on every use',
+  'Accept-Ranges': 'bytes'
+};
+
+/**
+ * Responses of the routes that stream a stored file
+ */
+export const storedFileResponses = (description: string, contentType: string): Record<number, ResponseDoc> => ({
+  200: { description, contentType, headers: storedFileHeaders },
+  206: {
+    description: 'The requested byte range',
+    contentType,
+    headers: { ...storedFileHeaders, 'Content-Range': 'bytes <start>-<end>/<size>' }
+  },
+  304: { description: 'The cached copy is current', headers: storedFileHeaders },
+  416: { description: 'RANGE_NOT_SATISFIABLE', headers: { 'Content-Range': 'bytes */<size>' } }
+});
@@ -0,0 +1,58 @@
+import { RouteMount } from '../routes';
+import { routeDocs } from './spec';
+
+export interface SpecCoverage {
+  // Mounted routes without a route doc, e.g. 'GET /api/documents/:documentId'
+  undocumented: string[];
+  // Route docs that match no mounted route
+  unknown: string[];
+  // Routes documented more than once
+  duplicates: string[];
+}
+
+// The parts of Express router internals the check reads
+interface RouterLayer {
+  // Set for route layers only - middleware added with router.use has none
+  route?: {
+    path: unknown;
+    // Handled methods, e.g. { get: true }
+    methods: Record<string, boolean>;
+  };
+}
+
+const routeKey = (method: string, path: string): string => `${method.toUpperCase()} ${path}`;
+
+const joinPath = (mountPath: string, routePath: string): string =>
+  routePath === '/' ? mountPath : `${mountPath.replace(/\/$/, '')}${routePath}`;
+
+/**
+ * Routes registered on the mounted routers, as 'METHOD /full/path'
+ */
+export const listMountedRoutes = (mounts: RouteMount[]): string[] => {
+  const routes: string[] = [];
+  for (const { path, router } of mounts) {
+    for (const layer of router.stack as RouterLayer[]) {
+      if (!layer.route || typeof layer.route.path !== 'string') {
+        continue;
+      }
+      for (const method of Object.keys(layer.route.methods)) {
+        routes.push(routeKey(method, joinPath(path, layer.route.path)));
+      }
+    }
+  }
+  return routes;
+};
+
+/**
+ * Compare the mounted routes with the OpenAPI route docs
+ */
+export const checkSpecCoverage = (mounts: RouteMount[]): SpecCoverage => {
+  const mounted = new Set(listMountedRoutes(mounts));
+  const documented = routeDocs.map(route => routeKey(route.method, route.path));
+
+  return {
+    undocumented: [...mounted].filter(route => !documented.includes(route)),
+    unknown: documented.filter(route => !mounted.has(route)),
+    duplicates: documented.filter((route, index) => documented.indexOf(route) !== index)
+  };
+};
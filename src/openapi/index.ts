@@ -0,0 +1,3 @@
+export * from './types';
+export { buildOpenApiSpec, getOpenApiSpec, routeDocs, toOpenApiPath } from './spec';
+export { checkSpecCoverage, listMountedRoutes, SpecCoverage } from './coverage';
@@ -0,0 +1,283 @@
+import {
+  consistencyCheckSchema,
+  quarantinedFileSchema,
+  searchUsersSchema,
+  updatePlanSchema,
+  updateRoleSchema,
+  userIdSchema
+} from '../../schemas/admin';
+import { array, boolean, integer, object, string } from '../../validation';
+import { listResponse, publicUserSchema, successResponse, timestampSchema } from '../components';
+import { RouteDoc } from '../types';
+
+const ADMIN_ONLY = 'Requires the `admin` role claim.';
+
+export const adminRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/admin/users',
+    tag: 'Admin',
+    summary: 'Search users by email prefix',
+    description: ADMIN_ONLY,
+    auth: 'required',
+    request: searchUsersSchema,
+    responses: {
+      200: {
+        description: 'Matching users',
+        schema: listResponse(object({
+          uid: string(),
+          email: string(),
+          displayName: string(),
+          totalSize: integer(),
+          plan: string({ description: 'Storage plan ID' }),
+          documentCount: integer(),
+          suspended: boolean(),
+          createdAt: timestampSchema
+        }, ['uid', 'totalSize', 'plan', 'documentCount', 'suspended']), {
+          nextCursor: string({ nullable: true })
+        })
+      },
+      403: { description: 'ROLE_REQUIRED' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid',
+    tag: 'Admin',
+    summary: 'Get a user with auth status and storage usage',
+    description: ADMIN_ONLY,
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: {
+        description: 'User detail',
+        schema: successResponse(object({
+          ...publicUserSchema.properties,
+          auth: object({
+            disabled: boolean(),
+            emailVerified: boolean(),
+            customClaims: object({}),
+            lastSignInTime: string(),
+            creationTime: string(),
+            tokensValidAfterTime: string()
+          }, [], { nullable: true }),
+          storage: object({
+            recordedTotalSize: integer(),
+            documentsSize: integer(),
+            profilePictureSize: integer(),
+            quarantinedSize: integer({ description: 'Infected uploads kept in quarantine' }),
+            actualTotalSize: integer(),
+            documentCount: integer()
+          })
+        }, ['uid', 'auth', 'storage']))
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/suspend',
+    tag: 'Admin',
+    summary: 'Suspend a user and revoke their sessions',
+    description: ADMIN_ONLY,
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: { description: 'User suspended', schema: successResponse(object({ uid: string(), suspended: boolean() })) },
+      400: { description: 'CANNOT_SUSPEND_SELF' },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/reactivate',
+    tag: 'Admin',
+    summary: 'Reactivate a suspended user',
+    description: ADMIN_ONLY,
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: { description: 'User reactivated', schema: successResponse(object({ uid: string(), suspended: boolean() })) },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/force-logout',
+    tag: 'Admin',
+    summary: 'Revoke all sessions of a user',
+    description: ADMIN_ONLY,
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: { description: 'Sessions revoked', schema: successResponse() },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/reconcile-usage',
+    tag: 'Admin',
+    summary: "Recompute a user's totalSize and correct any drift",
+    description: `${ADMIN_ONLY} Measures every retained document version, the profile picture and quarantined uploads. `
+      + 'A counter that changed within USAGE_RECONCILE_GRACE_MINUTES (or while it was measured) is left alone '
+      + 'with outcome SKIPPED, since an upload may still be in progress. '
+      + 'The scheduled job and `npm run usage:reconcile` do the same for every user.',
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: {
+        description: 'Usage checked',
+        schema: successResponse(object({
+          uid: string(),
+          recordedSize: integer(),
+          actualSize: integer(),
+          drift: integer({ description: 'actualSize - recordedSize' }),
+          outcome: string({ enum: ['IN_SYNC', 'CORRECTED', 'SKIPPED'] })
+        }, ['uid', 'recordedSize', 'actualSize', 'drift', 'outcome']))
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:uid/quarantine',
+    tag: 'Admin',
+    summary: 'List a user\'s quarantined uploads',
+    description: `${ADMIN_ONLY} Infected uploads are kept in quarantine and stay counted towards the user's quota `
+      + 'until deleted here.',
+    auth: 'required',
+    request: userIdSchema,
+    responses: {
+      200: {
+        description: 'Quarantined uploads, newest first',
+        schema: listResponse(object({
+          id: string(),
+          fileName: string({ nullable: true }),
+          mimeType: string({ nullable: true, description: 'Type the client declared' }),
+          threat: string({ nullable: true, description: 'The scanner\'s name for the malware found' }),
+          size: integer(),
+          quarantinedAt: string({ format: 'date-time', nullable: true })
+        }, ['id', 'fileName', 'mimeType', 'threat', 'size', 'quarantinedAt']))
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/users/:uid/quarantine/:fileId',
+    tag: 'Admin',
+    summary: 'Delete a quarantined upload',
+    description: `${ADMIN_ONLY} E.g. once inspected, or for a false positive. Its bytes are given back to the user's quota.`,
+    auth: 'required',
+    request: quarantinedFileSchema,
+    responses: {
+      200: {
+        description: 'Quarantined upload deleted',
+        schema: successResponse(object({
+          uid: string(),
+          fileId: string(),
+          freedSize: integer({ description: 'Bytes released from the quota' })
+        }, ['uid', 'fileId', 'freedSize']))
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'QUARANTINED_FILE_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/users/:uid/consistency-check',
+    tag: 'Admin',
+    summary: "Compare a user's stored objects with the database",
+    description: `${ADMIN_ONLY} Lists objects under \`<uid>/\` and \`profile-pictures/<uid>/\` nothing refers to `
+      + '(written more than CONSISTENCY_GRACE_MINUTES ago), documents and versions whose file is missing, '
+      + 'a missing profile picture and documents array entries without a document. '
+      + 'With repair, orphaned objects are deleted, a document missing its current file is deleted for good, '
+      + 'a missing older version is dropped, a missing profile picture is unset and dangling entries are removed. '
+      + '`npm run storage:check -- [--repair]` does the same for every user.',
+    auth: 'required',
+    request: consistencyCheckSchema,
+    responses: {
+      200: {
+        description: 'Inconsistencies found (and, with repair, whether each was fixed)',
+        schema: successResponse(object({
+          uid: string(),
+          repair: boolean(),
+          inconsistencies: array(object({
+            kind: string({ enum: ['ORPHANED_OBJECT', 'MISSING_OBJECT', 'MISSING_PROFILE_PICTURE', 'DANGLING_DOCUMENT_ENTRY'] }),
+            userId: string(),
+            storagePath: string(),
+            documentId: string(),
+            version: integer(),
+            size: integer(),
+            repaired: boolean(),
+            error: string({ description: 'Why the repair failed' })
+          }, ['kind', 'userId']))
+        }, ['uid', 'repair', 'inconsistencies']), { count: integer() })
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:uid/plan',
+    tag: 'Admin',
+    summary: 'Move a user to another storage plan',
+    description: `${ADMIN_ONLY} Plans are configured with STORAGE_PLANS. Nothing is deleted when the new plan `
+      + 'is smaller; uploads are refused until the user is back within its limits.',
+    auth: 'required',
+    request: updatePlanSchema,
+    responses: {
+      200: {
+        description: 'Plan updated',
+        schema: successResponse(object({ uid: string(), plan: string() }, ['uid', 'plan']))
+      },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/admin/users/:uid/role',
+    tag: 'Admin',
+    summary: 'Grant or remove the admin role',
+    description: `${ADMIN_ONLY} The user must sign in again to pick up the change.`,
+    auth: 'required',
+    request: updateRoleSchema,
+    responses: {
+      200: {
+        description: 'Role updated',
+        schema: successResponse(object({ uid: string(), role: string({ nullable: true }) }))
+      },
+      400: { description: 'CANNOT_REMOVE_OWN_ROLE' },
+      403: { description: 'ROLE_REQUIRED' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/admin/download-tokens/rotate-key',
+    tag: 'Admin',
+    summary: 'Rotate the download token signing key',
+    description: `${ADMIN_ONLY} Every download URL handed out so far stops working; `
+      + 'other API instances pick up the new key within a minute.',
+    auth: 'required',
+    responses: {
+      200: {
+        description: 'Key rotated',
+        schema: successResponse(object({
+          keyId: string(),
+          rotatedAt: string({ format: 'date-time' })
+        }, ['keyId', 'rotatedAt']))
+      },
+      403: { description: 'ROLE_REQUIRED' }
+    }
+  }
+];
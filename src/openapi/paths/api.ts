@@ -0,0 +1,16 @@
+import { publicUserSchema, successResponse } from '../components';
+import { RouteDoc } from '../types';
+
+export const apiRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/profile',
+    tag: 'Profile',
+    summary: 'Get the signed-in user\'s profile',
+    auth: 'required',
+    responses: {
+      200: { description: 'Profile', schema: successResponse(publicUserSchema) },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  }
+];
@@ -0,0 +1,195 @@
+import { PROFILE_PICTURE_MAX_SIZE } from '../../config/storage';
+import {
+  loginSchema,
+  logoutSchema,
+  profilePictureByUserSchema,
+  registerSchema,
+  updateProfileSchema,
+  verifyTokenSchema
+} from '../../schemas/auth';
+import { boolean, integer, object, string } from '../../validation';
+import {
+  errorResponse,
+  fileTypeDetailsSchema,
+  publicUserSchema,
+  quotaExceededDetailsSchema,
+  storedFileRequestHeaders,
+  storedFileResponses,
+  successResponse,
+  timestampSchema
+} from '../components';
+import { RouteDoc } from '../types';
+
+const profilePictureData = object({
+  base64: string({ description: 'data: URL' }),
+  contentType: string(),
+  size: integer()
+}, ['base64', 'contentType', 'size']);
+
+export const authRouteDocs: RouteDoc[] = [
+  {
+    method: 'post',
+    path: '/api/auth/register',
+    tag: 'Auth',
+    summary: 'Register a new user',
+    description: 'Only the listed profile fields are accepted - any other body field is refused with VALIDATION_ERROR.',
+    auth: 'none',
+    request: registerSchema,
+    responses: {
+      201: {
+        description: 'User created; `token` is a Firebase custom token',
+        schema: successResponse(object({
+          uid: string(),
+          email: string(),
+          displayName: string(),
+          token: string()
+        }, ['uid', 'token']))
+      },
+      400: { description: 'VALIDATION_ERROR (e.g. a field that is not a profile field)' },
+      409: { description: 'EMAIL_ALREADY_EXISTS' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/login',
+    tag: 'Auth',
+    summary: 'Sign in with email and password',
+    auth: 'none',
+    request: loginSchema,
+    responses: {
+      200: {
+        description: 'Signed in; `token` is a Firebase ID token to send as `Authorization: Bearer <token>`',
+        schema: successResponse(object({ ...publicUserSchema.properties, token: string() }, ['uid', 'token']))
+      },
+      401: { description: 'INVALID_CREDENTIALS' },
+      403: { description: 'ACCOUNT_SUSPENDED' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/verify-token',
+    tag: 'Auth',
+    summary: 'Verify a Firebase ID token and return the user',
+    auth: 'none',
+    request: verifyTokenSchema,
+    responses: {
+      200: { description: 'Token is valid', schema: successResponse(publicUserSchema) },
+      401: { description: 'TOKEN_EXPIRED, TOKEN_REVOKED or INVALID_TOKEN' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/logout',
+    tag: 'Auth',
+    summary: 'Revoke all refresh tokens of a user',
+    description: 'Send either `uid` or `idToken`.',
+    auth: 'none',
+    request: logoutSchema,
+    responses: {
+      200: { description: 'Tokens revoked', schema: successResponse() },
+      401: { description: 'INVALID_TOKEN' },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/me',
+    tag: 'Auth',
+    summary: 'Get the signed-in user',
+    auth: 'required',
+    responses: {
+      200: { description: 'Current user', schema: successResponse(publicUserSchema) }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/auth/update-profile',
+    tag: 'Auth',
+    summary: 'Update profile fields',
+    description: 'Only the given fields change. The master PIN is stored hashed.',
+    auth: 'required',
+    request: updateProfileSchema,
+    responses: {
+      200: {
+        description: 'Updated profile',
+        schema: successResponse(object({
+          uid: string(),
+          email: string(),
+          emailVerified: boolean(),
+          hasMasterPin: boolean(),
+          QR: string(),
+          name: string(),
+          totalSize: integer(),
+          displayName: string(),
+          mobileNumber: string(),
+          maxDocumentVersions: integer(),
+          updatedAt: timestampSchema,
+          createdAt: timestampSchema
+        }, ['uid']))
+      }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/auth/update-profile-picture',
+    tag: 'Auth',
+    summary: 'Upload a new profile picture',
+    description: `JPEG, PNG or WebP up to ${PROFILE_PICTURE_MAX_SIZE / (1024 * 1024)}MB on every plan. `
+      + 'The picture counts towards the storage quota.',
+    auth: 'required',
+    upload: { field: 'profilePicture', description: 'Image file' },
+    responses: {
+      200: {
+        description: 'Picture stored',
+        schema: successResponse(object({
+          uid: string(),
+          profilePicture: string({ description: 'URL of GET /api/auth/profile-picture, which streams the picture to its owner' })
+        }, ['uid', 'profilePicture']))
+      },
+      400: { description: 'FILE_REQUIRED' },
+      413: { description: 'STORAGE_QUOTA_EXCEEDED or FILE_TOO_LARGE', schema: errorResponse(quotaExceededDetailsSchema) },
+      415: {
+        description: 'UNSUPPORTED_FILE_TYPE, UNRECOGNIZED_FILE_TYPE or FILE_TYPE_MISMATCH (the image is not what it claims to be)',
+        schema: errorResponse(fileTypeDetailsSchema)
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/profile-picture',
+    tag: 'Auth',
+    summary: 'Download the signed-in user\'s profile picture',
+    auth: 'required',
+    headers: storedFileRequestHeaders,
+    responses: {
+      ...storedFileResponses('Profile picture', 'image/*'),
+      404: { description: 'USER_NOT_FOUND, PROFILE_PICTURE_NOT_FOUND or FILE_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/profile-picture-base64',
+    tag: 'Auth',
+    summary: 'Get the signed-in user\'s profile picture as a data URL',
+    description: 'Use GET /api/auth/profile-picture, which streams the image and supports caching.',
+    deprecated: true,
+    auth: 'required',
+    responses: {
+      200: { description: 'Profile picture', schema: successResponse(profilePictureData) },
+      404: { description: 'USER_NOT_FOUND or PROFILE_PICTURE_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/auth/profile-picture-base64/:userId',
+    tag: 'Auth',
+    summary: 'Get a user\'s profile picture as a data URL',
+    description: 'Public - shown to whoever scans the owner\'s QR code.',
+    auth: 'none',
+    request: profilePictureByUserSchema,
+    responses: {
+      200: { description: 'Profile picture', schema: successResponse(profilePictureData) },
+      404: { description: 'USER_NOT_FOUND or PROFILE_PICTURE_NOT_FOUND' }
+    }
+  }
+];
@@ -0,0 +1,25 @@
+import { object } from '../../validation';
+import { RouteDoc } from '../types';
+
+export const docsRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    tag: 'Docs',
+    summary: 'This OpenAPI document',
+    auth: 'none',
+    responses: {
+      200: { description: 'OpenAPI 3 document', schema: object({}) }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/docs',
+    tag: 'Docs',
+    summary: 'Interactive API documentation',
+    auth: 'none',
+    responses: {
+      200: { description: 'Swagger UI page', contentType: 'text/html' }
+    }
+  }
+];
@@ -0,0 +1,593 @@
+import { DOCUMENT_CATEGORIES } from '../../models';
+import {
+  accessLogSchema,
+  createShareSchema,
+  DEFAULT_PAGE_SIZE,
+  documentContentSchema,
+  documentIdSchema,
+  documentsByPinSchema,
+  documentVersionSchema as documentVersionRequestSchema,
+  legacyMyDocumentsSchema,
+  moveDocumentSchema,
+  myDocumentsSchema,
+  searchDocumentsSchema,
+  securityAlertIdSchema,
+  securityAlertsSchema,
+  shareIdSchema,
+  toggleVisibilitySchema,
+  updateDocumentMetadataSchema,
+  uploadDocumentSchema
+} from '../../schemas/documents';
+import { DOWNLOAD_TOKEN_TTL_MINUTES } from '../../services/downloadTokens';
+import { array, boolean, integer, number, object, string } from '../../validation';
+import {
+  accessEventSchema,
+  documentSummarySchema,
+  documentVersionSchema,
+  errorResponse,
+  fileTypeDetailsSchema,
+  listResponse,
+  malwareDetectedDetailsSchema,
+  pinLockoutDetailsSchema,
+  quotaExceededDetailsSchema,
+  securityAlertSchema,
+  shareSchema,
+  storagePlanSchema,
+  storedFileRequestHeaders,
+  storedFileResponses,
+  successResponse,
+  uploadedDocumentResponse,
+  trashedDocumentSchema,
+  walletDocumentSchema
+} from '../components';
+import { RouteDoc } from '../types';
+
+const nextCursor = string({ nullable: true, description: 'Pass as `cursor` for the next page' });
+
+export const documentRouteDocs: RouteDoc[] = [
+  {
+    method: 'post',
+    path: '/api/documents/upload',
+    tag: 'Documents',
+    summary: 'Upload a document',
+    description: 'PDF, JPEG, PNG, Word or Excel files, within the limits of the user\'s storage plan '
+      + '(allowed types, per-file size, document count and quota - see GET /api/documents/usage). '
+      + 'Larger files (and unreliable connections) can use the resumable /api/uploads routes. '
+      + 'Identical files are stored once per user; uploading one again still creates a document, '
+      + 'with a warning and duplicateOf pointing at the existing one. '
+      + 'Files are scanned for malware: infected ones are quarantined and refused (still counted towards the quota '
+      + 'as quarantinedSize), and while the scanner cannot be reached uploads are refused.',
+    auth: 'required',
+    request: uploadDocumentSchema,
+    upload: { field: 'document', description: 'Document file' },
+    responses: {
+      201: {
+        description: 'Document stored',
+        schema: uploadedDocumentResponse
+      },
+      400: { description: 'FILE_REQUIRED or VALIDATION_ERROR' },
+      404: { description: 'FOLDER_NOT_FOUND' },
+      413: {
+        description: 'STORAGE_QUOTA_EXCEEDED, DOCUMENT_LIMIT_REACHED or FILE_TOO_LARGE',
+        schema: errorResponse(quotaExceededDetailsSchema)
+      },
+      415: {
+        description: 'UNSUPPORTED_FILE_TYPE (not allowed on the user\'s plan), UNRECOGNIZED_FILE_TYPE or FILE_TYPE_MISMATCH '
+          + '(the contents do not match the declared type or the file name\'s extension)',
+        schema: errorResponse(fileTypeDetailsSchema)
+      },
+      422: {
+        description: 'MALWARE_DETECTED - the file was quarantined instead of stored (and is still charged)',
+        schema: errorResponse(malwareDetectedDetailsSchema)
+      },
+      503: { description: 'MALWARE_SCANNER_UNAVAILABLE - nothing was stored or charged; try again later' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/my-documents',
+    tag: 'Documents',
+    summary: 'List a page of a user\'s documents (newest first by default)',
+    description: 'Owners and admins only. `userId` defaults to the caller. Every given filter must match; '
+      + 'documents uploaded before categories count as `other`. '
+      + `Pages hold ${DEFAULT_PAGE_SIZE} documents unless \`limit\` is given; pass \`nextCursor\` as \`cursor\` `
+      + 'with the same sort and order for the next page. '
+      + 'Unauthenticated access is allowed only while LEGACY_OPEN_DOCUMENT_ROUTES=true.',
+    auth: 'optional',
+    request: myDocumentsSchema,
+    responses: {
+      200: { description: 'One page of documents', schema: listResponse(walletDocumentSchema, { nextCursor }) },
+      400: { description: 'INVALID_CURSOR or VALIDATION_ERROR' },
+      401: { description: 'UNAUTHENTICATED' },
+      403: { description: 'FORBIDDEN' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/my-documents',
+    tag: 'Documents',
+    summary: 'List a user\'s documents (legacy body form of GET /my-documents)',
+    description: 'Same as GET /api/documents/my-documents with the fields in the JSON body, '
+      + 'except that without a `limit` every document is returned, with fresh download URLs by default.',
+    deprecated: true,
+    auth: 'optional',
+    request: legacyMyDocumentsSchema,
+    responses: {
+      200: { description: 'Documents', schema: listResponse(walletDocumentSchema, { nextCursor }) },
+      400: { description: 'INVALID_CURSOR or VALIDATION_ERROR' },
+      401: { description: 'UNAUTHENTICATED' },
+      403: { description: 'FORBIDDEN' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/security-alerts',
+    tag: 'Security',
+    summary: 'List security alerts (e.g. PIN lockouts)',
+    auth: 'required',
+    request: securityAlertsSchema,
+    responses: {
+      200: { description: 'Alerts, newest first', schema: listResponse(securityAlertSchema) }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/documents/security-alerts/:alertId/read',
+    tag: 'Security',
+    summary: 'Mark a security alert as read',
+    auth: 'required',
+    request: securityAlertIdSchema,
+    responses: {
+      200: {
+        description: 'Alert marked as read',
+        schema: successResponse(object({ alertId: string(), read: boolean() }, ['alertId', 'read']))
+      },
+      404: { description: 'ALERT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/shares',
+    tag: 'Shares',
+    summary: 'Create a time-limited share link',
+    description: 'The token is returned only once; open it with GET /api/shares/{token}.',
+    auth: 'required',
+    request: createShareSchema,
+    responses: {
+      201: {
+        description: 'Share created',
+        schema: successResponse(object({
+          ...shareSchema.properties,
+          token: string(),
+          sharePath: string(),
+          expiresAt: string({ format: 'date-time' })
+        }, ['id', 'token', 'sharePath', 'expiresAt']))
+      },
+      404: { description: 'DOCUMENT_NOT_FOUND - a document does not exist or is not the caller\'s' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/shares',
+    tag: 'Shares',
+    summary: 'List the caller\'s shares',
+    auth: 'required',
+    responses: {
+      200: {
+        description: 'Shares, newest first',
+        schema: listResponse(object({ ...shareSchema.properties, isActive: boolean() }, ['id', 'isActive']))
+      }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/documents/shares/:shareId',
+    tag: 'Shares',
+    summary: 'Revoke a share',
+    auth: 'required',
+    request: shareIdSchema,
+    responses: {
+      200: { description: 'Share revoked', schema: successResponse() },
+      404: { description: 'SHARE_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/access-log',
+    tag: 'Security',
+    summary: 'Page through the caller\'s document access history',
+    auth: 'required',
+    request: accessLogSchema,
+    responses: {
+      200: {
+        description: 'Events, newest first',
+        schema: listResponse(accessEventSchema, { nextCursor })
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/usage',
+    tag: 'Documents',
+    summary: 'Storage meter: used and available bytes, breakdown and plan limits',
+    description: 'usedSize is what uploads are checked against; the breakdowns are measured from the documents '
+      + '(every retained version, trash included) and listed largest first.',
+    auth: 'required',
+    responses: {
+      200: {
+        description: 'Storage usage',
+        schema: successResponse(object({
+          plan: storagePlanSchema,
+          usedSize: integer({ description: 'Bytes counted towards the quota' }),
+          reservedSize: integer({ description: 'Bytes held back for resumable uploads in progress' }),
+          availableSize: integer(),
+          documentCount: integer(),
+          profilePictureSize: integer(),
+          quarantinedSize: integer({ description: 'Infected uploads kept in quarantine - counted towards the quota until an admin deletes them' }),
+          byCategory: array(object({ category: string(), size: integer(), count: integer() }, ['category', 'size', 'count'])),
+          byMimeType: array(object({ mimeType: string(), size: integer(), count: integer() }, ['mimeType', 'size', 'count']))
+        }, [
+          'plan',
+          'usedSize',
+          'reservedSize',
+          'availableSize',
+          'documentCount',
+          'profilePictureSize',
+          'quarantinedSize',
+          'byCategory',
+          'byMimeType'
+        ]))
+      },
+      404: { description: 'USER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/storage-report',
+    tag: 'Documents',
+    summary: 'Storage saved by deduplication',
+    description: 'Identical files are stored once per user, but the quota counts every document and version in full. '
+      + 'Covers every document including the trash.',
+    auth: 'required',
+    responses: {
+      200: {
+        description: 'Storage report',
+        schema: successResponse(object({
+          logicalSize: integer({ description: 'Bytes the documents add up to - what the quota counts' }),
+          storedSize: integer({ description: 'Bytes they actually take up in storage' }),
+          savedSize: integer(),
+          sharedContents: integer({ description: 'Stored files used by more than one document or version' })
+        }, ['logicalSize', 'storedSize', 'savedSize', 'sharedContents']))
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/trash',
+    tag: 'Trash',
+    summary: 'List the caller\'s trashed documents (most recently trashed first)',
+    auth: 'required',
+    responses: {
+      200: { description: 'Trashed documents', schema: listResponse(trashedDocumentSchema) }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/trash/:documentId/restore',
+    tag: 'Trash',
+    summary: 'Restore a trashed document',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: {
+        description: 'Document restored',
+        schema: successResponse(object({ documentId: string(), fileName: string() }, ['documentId', 'fileName']))
+      },
+      404: { description: 'DOCUMENT_NOT_FOUND - not in the caller\'s trash' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/documents/trash/:documentId',
+    tag: 'Trash',
+    summary: 'Permanently delete a trashed document now',
+    description: 'Deletes every stored version and frees the space in the quota. '
+      + 'When storage deletion fails the document stays in the trash (500) and can be retried.',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: {
+        description: 'Document deleted',
+        schema: successResponse(object({
+          documentId: string(),
+          freedSize: integer({ description: 'Bytes released from the quota' })
+        }, ['documentId', 'freedSize']))
+      },
+      404: { description: 'DOCUMENT_NOT_FOUND - not in the caller\'s trash' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/search',
+    tag: 'Documents',
+    summary: 'Search the caller\'s documents',
+    description: 'Matches file names, descriptions and tags. Every word of `q` must match a whole word '
+      + 'or the start of one (e.g. `insur 2024`). Results are ranked by relevance - name and tag matches weigh most - '
+      + 'then newest first. Trashed documents are excluded.',
+    auth: 'required',
+    request: searchDocumentsSchema,
+    responses: {
+      200: {
+        description: 'Matching documents, best first',
+        schema: listResponse(object({
+          ...walletDocumentSchema.properties,
+          score: number({ description: 'Relevance - higher is better' })
+        }, [...(walletDocumentSchema.required ?? []), 'score']))
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/:documentId',
+    tag: 'Documents',
+    summary: 'Get a document',
+    description: 'Owners and admins only. Unauthenticated access is allowed only while LEGACY_OPEN_DOCUMENT_ROUTES=true.',
+    auth: 'optional',
+    request: documentIdSchema,
+    responses: {
+      200: { description: 'Document with a fresh download URL', schema: successResponse(walletDocumentSchema) },
+      401: { description: 'UNAUTHENTICATED' },
+      403: { description: 'FORBIDDEN' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/documents/:documentId',
+    tag: 'Trash',
+    summary: 'Move a document to the trash',
+    description: 'The document disappears from listings, PIN access and shares but keeps counting towards the quota. '
+      + 'It can be restored until the purge job deletes it, TRASH_RETENTION_DAYS (default 30) after trashing.',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: { description: 'Document moved to trash', schema: successResponse(trashedDocumentSchema) },
+      403: { description: 'FORBIDDEN - only the owner may delete' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/:documentId/download-url',
+    tag: 'Documents',
+    summary: 'Get a short-lived download URL',
+    description: `The URL carries a download token valid for ${DOWNLOAD_TOKEN_TTL_MINUTES.OWNER} minutes, `
+      + 'until the document\'s tokens are revoked, or until the signing key is rotated.',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: {
+        description: 'Download URL',
+        schema: successResponse(object({
+          downloadURL: string(),
+          expiresAt: string({ format: 'date-time' })
+        }, ['downloadURL', 'expiresAt']))
+      },
+      403: { description: 'FORBIDDEN or FILE_WITHHELD (the file has not passed the malware scan)' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/:documentId/content',
+    tag: 'Documents',
+    summary: 'Download the document\'s file through the API',
+    description: 'Streams the current version with its stored content type. Access is checked on every request, '
+      + 'including revalidations of a cached copy, so nothing outlives a revoked permission.',
+    auth: 'required',
+    request: documentContentSchema,
+    headers: storedFileRequestHeaders,
+    responses: {
+      ...storedFileResponses('File contents', 'application/octet-stream'),
+      400: { description: 'STORAGE_PATH_MISSING' },
+      403: { description: 'FORBIDDEN or FILE_WITHHELD (the file has not passed the malware scan)' },
+      404: { description: 'DOCUMENT_NOT_FOUND or FILE_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/documents/:documentId/download-tokens',
+    tag: 'Documents',
+    summary: 'Revoke the document\'s download URLs',
+    description: 'Every download URL issued for the document so far, through any channel, stops working. '
+      + 'URLs issued afterwards are not affected.',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: {
+        description: 'Download URLs revoked',
+        schema: successResponse(object({
+          documentId: string(),
+          revokedAt: string({ format: 'date-time' })
+        }, ['documentId', 'revokedAt']))
+      },
+      403: { description: 'FORBIDDEN - only the owner may revoke download URLs' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/:documentId/versions',
+    tag: 'Versions',
+    summary: 'Upload a new version of a document',
+    description: 'The file becomes the current version; the ID, description and visibility are kept. '
+      + 'Earlier versions stay in storage and count towards the quota, up to the owner\'s version limit '
+      + '(maxDocumentVersions) - the oldest ones beyond it are deleted.',
+    auth: 'required',
+    request: documentIdSchema,
+    upload: { field: 'document', description: 'Document file' },
+    responses: {
+      201: {
+        description: 'Version stored',
+        schema: successResponse(object({
+          documentId: string(),
+          ...documentVersionSchema.properties,
+          downloadURL: string(),
+          prunedVersions: array(integer(), { description: 'Versions deleted to stay within the limit' })
+        }, ['documentId', 'version', 'prunedVersions']))
+      },
+      400: { description: 'FILE_REQUIRED' },
+      403: { description: 'FORBIDDEN - only the owner may add versions' },
+      404: { description: 'DOCUMENT_NOT_FOUND' },
+      413: { description: 'STORAGE_QUOTA_EXCEEDED or FILE_TOO_LARGE', schema: errorResponse(quotaExceededDetailsSchema) },
+      415: {
+        description: 'UNSUPPORTED_FILE_TYPE (not allowed on the user\'s plan), UNRECOGNIZED_FILE_TYPE or FILE_TYPE_MISMATCH '
+          + '(the contents do not match the declared type or the file name\'s extension)',
+        schema: errorResponse(fileTypeDetailsSchema)
+      },
+      422: {
+        description: 'MALWARE_DETECTED - the file was quarantined instead of stored (and is still charged)',
+        schema: errorResponse(malwareDetectedDetailsSchema)
+      },
+      503: { description: 'MALWARE_SCANNER_UNAVAILABLE - nothing was stored or charged; try again later' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/:documentId/versions',
+    tag: 'Versions',
+    summary: 'List a document\'s versions (newest first)',
+    auth: 'required',
+    request: documentIdSchema,
+    responses: {
+      200: { description: 'Versions', schema: listResponse(documentVersionSchema) },
+      403: { description: 'FORBIDDEN' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/documents/:documentId/versions/:version/download-url',
+    tag: 'Versions',
+    summary: 'Get a short-lived download URL for a specific version',
+    auth: 'required',
+    request: documentVersionRequestSchema,
+    responses: {
+      200: {
+        description: 'Download URL',
+        schema: successResponse(object({
+          ...documentVersionSchema.properties,
+          downloadURL: string(),
+          expiresAt: string({ format: 'date-time' })
+        }, ['version', 'downloadURL', 'expiresAt']))
+      },
+      403: { description: 'FORBIDDEN or FILE_WITHHELD (the file has not passed the malware scan)' },
+      404: { description: 'DOCUMENT_NOT_FOUND or VERSION_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/:documentId/versions/:version/restore',
+    tag: 'Versions',
+    summary: 'Make an earlier version current again',
+    auth: 'required',
+    request: documentVersionRequestSchema,
+    responses: {
+      200: {
+        description: 'Version restored',
+        schema: successResponse(object({
+          documentId: string(),
+          currentVersion: integer(),
+          fileName: string(),
+          fileSize: integer(),
+          mimeType: string(),
+          downloadURL: string()
+        }, ['documentId', 'currentVersion']))
+      },
+      403: { description: 'FORBIDDEN - only the owner may restore versions' },
+      404: { description: 'DOCUMENT_NOT_FOUND or VERSION_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/documents/get-documents-by-pin',
+    tag: 'Documents',
+    summary: 'List a user\'s visible documents using their master PIN',
+    description: 'Failed attempts are counted per user and per client IP with exponential backoff and lockout; '
+      + 'attempts arriving while another one for the same user or IP is being checked are refused with PIN_RATE_LIMITED. '
+      + 'Takes the same limit, cursor, sort, order and fields as GET /api/documents/my-documents; '
+      + 'without a `limit` every visible document is returned.',
+    auth: 'none',
+    request: documentsByPinSchema,
+    responses: {
+      200: { description: 'Documents marked visible', schema: listResponse(documentSummarySchema, { nextCursor }) },
+      400: { description: 'INVALID_CURSOR or VALIDATION_ERROR' },
+      401: { description: 'INVALID_PIN, PIN_LOCKED or PIN_NOT_SET', schema: errorResponse(pinLockoutDetailsSchema) },
+      404: { description: 'USER_NOT_FOUND' },
+      429: {
+        description: 'PIN_RATE_LIMITED or PIN_LOCKED',
+        schema: errorResponse(pinLockoutDetailsSchema),
+        headers: { 'Retry-After': 'Seconds until the next attempt is accepted' }
+      }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/documents/:documentId/metadata',
+    tag: 'Documents',
+    summary: 'Rename a document and/or update its description, category and tags',
+    description: 'Given tags replace the existing ones; send an empty array to clear them. '
+      + 'Renaming changes the displayed name only - the stored file keeps its path.',
+    auth: 'required',
+    request: updateDocumentMetadataSchema,
+    responses: {
+      200: {
+        description: 'Document updated',
+        schema: successResponse(object({
+          documentId: string(),
+          fileName: string(),
+          description: string(),
+          category: string({ enum: [...DOCUMENT_CATEGORIES] }),
+          tags: array(string())
+        }, ['documentId', 'fileName', 'description', 'category', 'tags']))
+      },
+      400: { description: 'NO_CHANGES or VALIDATION_ERROR' },
+      403: { description: 'FORBIDDEN - only the owner may update documents' },
+      404: { description: 'DOCUMENT_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/documents/:documentId/folder',
+    tag: 'Folders',
+    summary: 'Move a document into a folder (or to the top level)',
+    auth: 'required',
+    request: moveDocumentSchema,
+    responses: {
+      200: {
+        description: 'Document moved',
+        schema: successResponse(object({
+          documentId: string(),
+          folderId: string({ nullable: true })
+        }, ['documentId', 'folderId']))
+      },
+      403: { description: 'FORBIDDEN - only the owner may move documents' },
+      404: { description: 'DOCUMENT_NOT_FOUND or FOLDER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/documents/:documentId/toggle-visibility',
+    tag: 'Documents',
+    summary: 'Show or hide a document for PIN holders',
+    auth: 'required',
+    request: toggleVisibilitySchema,
+    responses: {
+      200: {
+        description: 'Visibility updated',
+        schema: successResponse(object({ documentId: string(), isDocShow: boolean() }, ['documentId', 'isDocShow']))
+      },
+      404: { description: 'USER_NOT_FOUND or DOCUMENT_NOT_FOUND' }
+    }
+  }
+];
@@ -0,0 +1,30 @@
+import { downloadTokenSchema } from '../../schemas/downloads';
+import { DOWNLOAD_TOKEN_TTL_MINUTES } from '../../services/downloadTokens';
+import { storedFileRequestHeaders, storedFileResponses } from '../components';
+import { RouteDoc } from '../types';
+
+export const downloadRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/downloads/:token',
+    tag: 'Downloads',
+    summary: 'Download a file with a download token',
+    description: 'Target of every downloadURL the API hands out. The token is bound to one document and its owner, '
+      + `and expires after ${DOWNLOAD_TOKEN_TTL_MINUTES.OWNER} minutes for owners and admins, `
+      + `${DOWNLOAD_TOKEN_TTL_MINUTES.PIN} for PIN holders and ${DOWNLOAD_TOKEN_TTL_MINUTES.SHARE} for share links. `
+      + 'PIN and share tokens also stop working once the document is hidden from PIN holders or the share ends. '
+      + 'Files that have not passed the malware scan are only served to their owner and admins (infected ones to admins).',
+    auth: 'none',
+    request: downloadTokenSchema,
+    headers: storedFileRequestHeaders,
+    responses: {
+      ...storedFileResponses('File contents', 'application/octet-stream'),
+      403: {
+        description: 'INVALID_TOKEN (malformed, tampered with or signed with a rotated key), ACCESS_REVOKED '
+          + 'or FILE_WITHHELD (not yet passed by the malware scan)'
+      },
+      404: { description: 'DOCUMENT_NOT_FOUND or FILE_NOT_FOUND' },
+      410: { description: 'TOKEN_EXPIRED or TOKEN_REVOKED' }
+    }
+  }
+];
@@ -0,0 +1,93 @@
+import { createFolderSchema, deleteFolderSchema, folderIdSchema, updateFolderSchema } from '../../schemas/folders';
+import { array, integer, object, string } from '../../validation';
+import { folderSchema, successResponse, walletDocumentSchema } from '../components';
+import { RouteDoc } from '../types';
+
+const folderContentsSchema = object({
+  folder: { ...folderSchema, nullable: true, description: 'null for the top level' },
+  path: array(object({ id: string(), name: string() }, ['id', 'name']), {
+    description: 'Ancestors from the top level down to the listed folder'
+  }),
+  folders: array(object({
+    ...folderSchema.properties,
+    folderCount: integer({ description: 'Sub-folders directly inside' }),
+    documentCount: integer({ description: 'Documents directly inside (trash excluded)' })
+  }, [...(folderSchema.required ?? []), 'folderCount', 'documentCount'])),
+  documents: array(walletDocumentSchema)
+}, ['folder', 'path', 'folders', 'documents']);
+
+export const folderRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/folders',
+    tag: 'Folders',
+    summary: 'List the top-level folders and the documents outside any folder',
+    auth: 'required',
+    responses: {
+      200: { description: 'Top-level contents', schema: successResponse(folderContentsSchema) }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/folders',
+    tag: 'Folders',
+    summary: 'Create a folder',
+    auth: 'required',
+    request: createFolderSchema,
+    responses: {
+      201: { description: 'Folder created', schema: successResponse(folderSchema) },
+      400: { description: 'FOLDER_TOO_DEEP or VALIDATION_ERROR' },
+      404: { description: 'FOLDER_NOT_FOUND - the parent folder' }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/folders/:folderId',
+    tag: 'Folders',
+    summary: 'List a folder\'s sub-folders (with counts) and documents',
+    auth: 'required',
+    request: folderIdSchema,
+    responses: {
+      200: { description: 'Folder contents', schema: successResponse(folderContentsSchema) },
+      404: { description: 'FOLDER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/folders/:folderId',
+    tag: 'Folders',
+    summary: 'Rename and/or move a folder',
+    description: 'Set parentId to another folder to move it there, or to null to move it to the top level.',
+    auth: 'required',
+    request: updateFolderSchema,
+    responses: {
+      200: { description: 'Folder updated', schema: successResponse(folderSchema) },
+      400: { description: 'NO_CHANGES, INVALID_FOLDER_MOVE (into itself or a sub-folder) or FOLDER_TOO_DEEP' },
+      404: { description: 'FOLDER_NOT_FOUND' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/folders/:folderId',
+    tag: 'Folders',
+    summary: 'Delete a folder',
+    description: 'With contents=move-up (default) the folder\'s documents and sub-folders move to its parent. '
+      + 'With contents=trash the folder and every folder below it are deleted and their documents moved to the trash.',
+    auth: 'required',
+    request: deleteFolderSchema,
+    responses: {
+      200: {
+        description: 'Folder deleted',
+        schema: successResponse(object({
+          folderId: string(),
+          contents: string({ enum: ['move-up', 'trash'] }),
+          deletedFolders: integer(),
+          movedFolders: integer(),
+          movedDocuments: integer(),
+          trashedDocuments: integer()
+        }, ['folderId', 'contents', 'deletedFolders', 'movedFolders', 'movedDocuments', 'trashedDocuments']))
+      },
+      404: { description: 'FOLDER_NOT_FOUND' }
+    }
+  }
+];
@@ -0,0 +1,53 @@
+import { openShareSchema } from '../../schemas/shares';
+import { DOWNLOAD_TOKEN_TTL_MINUTES } from '../../services/downloadTokens';
+import { array, integer, object, string } from '../../validation';
+import { errorResponse, pinLockoutDetailsSchema, successResponse } from '../components';
+import { RouteDoc } from '../types';
+
+export const shareRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/shares/:token',
+    tag: 'Shares',
+    summary: 'Open a share link',
+    description: 'Counts as one view. Returns download URLs for the shared documents, valid for '
+      + `${DOWNLOAD_TOKEN_TTL_MINUTES.SHARE} minutes and only while the share itself is. `
+      + 'Wrong passcodes are counted per share and per client IP with the same backoff and lockout as PIN attempts; '
+      + 'attempts arriving while another one for the same share or IP is being checked are refused with PASSCODE_RATE_LIMITED.',
+    auth: 'none',
+    request: openShareSchema,
+    headers: {
+      'X-Share-Passcode': string({ description: 'Required when the share was created with a passcode' })
+    },
+    responses: {
+      200: {
+        description: 'Shared documents',
+        schema: successResponse(object({
+          documents: array(object({
+            id: string(),
+            fileName: string(),
+            fileSize: integer(),
+            mimeType: string(),
+            description: string(),
+            downloadURL: string({ nullable: true, description: 'null while the file has not passed the malware scan' })
+          }, ['id', 'fileName', 'downloadURL'])),
+          label: string(),
+          expiresAt: string({ format: 'date-time' }),
+          urlsExpireAt: string({ format: 'date-time' }),
+          remainingViews: integer({ nullable: true })
+        }, ['documents', 'expiresAt', 'urlsExpireAt', 'remainingViews']), { count: integer() })
+      },
+      401: {
+        description: 'PASSCODE_REQUIRED, INVALID_PASSCODE or PASSCODE_LOCKED (lockout details only for a wrong passcode)',
+        schema: errorResponse(pinLockoutDetailsSchema)
+      },
+      404: { description: 'NOT_FOUND' },
+      410: { description: 'REVOKED, EXPIRED or VIEW_LIMIT_REACHED' },
+      429: {
+        description: 'PASSCODE_RATE_LIMITED or PASSCODE_LOCKED',
+        schema: errorResponse(pinLockoutDetailsSchema),
+        headers: { 'Retry-After': 'Seconds until the next attempt is accepted' }
+      }
+    }
+  }
+];
@@ -0,0 +1,21 @@
+import { localObjectSchema } from '../../schemas/storage';
+import { storedFileRequestHeaders, storedFileResponses } from '../components';
+import { RouteDoc } from '../types';
+
+export const storageRouteDocs: RouteDoc[] = [
+  {
+    method: 'get',
+    path: '/api/storage/local',
+    tag: 'Storage',
+    summary: 'Download an object from the local storage driver',
+    description: 'Target of the signed URLs handed out when STORAGE_DRIVER=local.',
+    auth: 'none',
+    request: localObjectSchema,
+    headers: storedFileRequestHeaders,
+    responses: {
+      ...storedFileResponses('File contents', 'application/octet-stream'),
+      403: { description: 'INVALID_SIGNATURE' },
+      404: { description: 'STORAGE_DRIVER_DISABLED or FILE_NOT_FOUND' }
+    }
+  }
+];
@@ -0,0 +1,138 @@
+import { completeUploadSchema, createUploadSchema, uploadChunkSchema, uploadIdSchema } from '../../schemas/uploads';
+import { MAX_RESUMABLE_UPLOAD_SIZE, MAX_UPLOAD_CHUNK_SIZE, UPLOAD_SESSION_TTL_HOURS } from '../../services/uploads';
+import { integer, object, string } from '../../validation';
+import {
+  errorResponse,
+  fileTypeDetailsSchema,
+  malwareDetectedDetailsSchema,
+  quotaExceededDetailsSchema,
+  successResponse,
+  uploadedDocumentResponse,
+  uploadSessionSchema
+} from '../components';
+import { RouteDoc } from '../types';
+
+const toMB = (bytes: number): number => Math.round(bytes / (1024 * 1024));
+
+const offsetDetailsSchema = object({
+  offset: integer({ description: 'Where the next chunk must start' })
+}, ['offset']);
+
+export const uploadRouteDocs: RouteDoc[] = [
+  {
+    method: 'post',
+    path: '/api/uploads',
+    tag: 'Uploads',
+    summary: 'Start a resumable upload',
+    description: `For files up to ${toMB(MAX_RESUMABLE_UPLOAD_SIZE)}MB of the types accepted by POST /api/documents/upload. `
+      + 'The file is checked against the user\'s storage plan up front, and the declared fileSize is reserved '
+      + 'against the quota until the upload completes, is cancelled or expires. '
+      + `Send the bytes in chunks of up to ${toMB(MAX_UPLOAD_CHUNK_SIZE)}MB with PUT /api/uploads/:uploadId, `
+      + 'then complete the upload with the SHA-256 of the file. '
+      + `Uploads that receive no chunk for ${UPLOAD_SESSION_TTL_HOURS} hours expire.`,
+    auth: 'required',
+    request: createUploadSchema,
+    responses: {
+      201: { description: 'Upload started', schema: successResponse(uploadSessionSchema) },
+      400: { description: 'VALIDATION_ERROR' },
+      404: { description: 'FOLDER_NOT_FOUND' },
+      413: {
+        description: 'STORAGE_QUOTA_EXCEEDED, DOCUMENT_LIMIT_REACHED or FILE_TOO_LARGE',
+        schema: errorResponse(quotaExceededDetailsSchema)
+      },
+      415: {
+        description: 'UNSUPPORTED_FILE_TYPE (not allowed on the user\'s plan), UNRECOGNIZED_FILE_TYPE or FILE_TYPE_MISMATCH '
+          + '(the contents do not match the declared type or the file name\'s extension)',
+        schema: errorResponse(fileTypeDetailsSchema)
+      }
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/uploads/:uploadId',
+    tag: 'Uploads',
+    summary: 'Get an upload\'s progress',
+    description: 'After a dropped connection, resume by sending the chunk that starts at `offset`.',
+    auth: 'required',
+    request: uploadIdSchema,
+    responses: {
+      200: { description: 'Upload progress', schema: successResponse(uploadSessionSchema) },
+      404: { description: 'UPLOAD_NOT_FOUND' },
+      410: { description: 'UPLOAD_EXPIRED' }
+    }
+  },
+  {
+    method: 'put',
+    path: '/api/uploads/:uploadId',
+    tag: 'Uploads',
+    summary: 'Append a chunk',
+    description: 'The chunk must start at the upload\'s current offset. A chunk that does not arrive whole is '
+      + 'discarded, so it can simply be sent again.',
+    auth: 'required',
+    request: uploadChunkSchema,
+    rawBody: { contentType: 'application/octet-stream', description: 'The chunk\'s bytes' },
+    responses: {
+      200: { description: 'Chunk stored', schema: successResponse(uploadSessionSchema) },
+      400: { description: 'EMPTY_CHUNK or VALIDATION_ERROR' },
+      404: { description: 'UPLOAD_NOT_FOUND' },
+      409: {
+        description: 'UPLOAD_OFFSET_MISMATCH (details give the offset to continue from) or UPLOAD_COMPLETING',
+        schema: errorResponse(offsetDetailsSchema)
+      },
+      410: { description: 'UPLOAD_EXPIRED' },
+      413: { description: 'CHUNK_TOO_LARGE - larger than chunkSize or past the declared fileSize' },
+      415: { description: 'UNSUPPORTED_CONTENT_TYPE' }
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/uploads/:uploadId/complete',
+    tag: 'Uploads',
+    summary: 'Complete an upload and create the document',
+    description: 'Every byte must have been received, and the file\'s contents must match its declared type. '
+      + 'On CHECKSUM_MISMATCH, UNRECOGNIZED_FILE_TYPE, FILE_TYPE_MISMATCH or MALWARE_DETECTED '
+      + 'the upload is discarded and has to be started again.',
+    auth: 'required',
+    request: completeUploadSchema,
+    responses: {
+      201: { description: 'Document stored', schema: uploadedDocumentResponse },
+      400: { description: 'CHECKSUM_MISMATCH or VALIDATION_ERROR' },
+      404: { description: 'UPLOAD_NOT_FOUND' },
+      409: {
+        description: 'UPLOAD_INCOMPLETE or UPLOAD_COMPLETING - a completion that has not finished within '
+          + 'UPLOAD_COMPLETION_TIMEOUT_MINUTES no longer holds the upload'
+      },
+      410: { description: 'UPLOAD_EXPIRED' },
+      415: {
+        description: 'UNRECOGNIZED_FILE_TYPE or FILE_TYPE_MISMATCH - the contents do not match the declared type',
+        schema: errorResponse(fileTypeDetailsSchema)
+      },
+      422: {
+        description: 'MALWARE_DETECTED - the file was quarantined (and is still charged) and the upload discarded',
+        schema: errorResponse(malwareDetectedDetailsSchema)
+      },
+      503: { description: 'MALWARE_SCANNER_UNAVAILABLE - the upload is kept; retry the completion later' }
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/uploads/:uploadId',
+    tag: 'Uploads',
+    summary: 'Cancel an upload',
+    description: 'Deletes the received chunks and releases the reserved space.',
+    auth: 'required',
+    request: uploadIdSchema,
+    responses: {
+      200: {
+        description: 'Upload cancelled',
+        schema: successResponse(object({
+          uploadId: string(),
+          releasedSize: integer({ description: 'Bytes no longer reserved' })
+        }, ['uploadId', 'releasedSize']))
+      },
+      404: { description: 'UPLOAD_NOT_FOUND' },
+      409: { description: 'UPLOAD_COMPLETING' },
+      410: { description: 'UPLOAD_EXPIRED' }
+    }
+  }
+];
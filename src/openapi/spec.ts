@@ -0,0 +1,220 @@
+import { ObjectSchema, Schema } from '../validation';
+import { componentSchemas } from './components';
+import { adminRouteDocs } from './paths/admin';
+import { apiRouteDocs } from './paths/api';
+import { authRouteDocs } from './paths/auth';
+import { docsRouteDocs } from './paths/docs';
+import { documentRouteDocs } from './paths/documents';
+import { downloadRouteDocs } from './paths/downloads';
+import { folderRouteDocs } from './paths/folders';
+import { shareRouteDocs } from './paths/shares';
+import { storageRouteDocs } from './paths/storage';
+import { uploadRouteDocs } from './paths/uploads';
+import { ResponseDoc, RouteDoc } from './types';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Every documented route. A route missing here fails `npm run check:openapi`.
+ */
+export const routeDocs: RouteDoc[] = [
+  ...apiRouteDocs,
+  ...docsRouteDocs,
+  ...adminRouteDocs,
+  ...authRouteDocs,
+  ...documentRouteDocs,
+  ...folderRouteDocs,
+  ...uploadRouteDocs,
+  ...downloadRouteDocs,
+  ...shareRouteDocs,
+  ...storageRouteDocs
+];
+
+const componentNames = new Map<Schema, string>(
+  Object.entries(componentSchemas).map(([name, schema]) => [schema, name])
+);
+
+const mapValues = <T, R>(record: Record<string, T>, fn: (value: T) => R): Record<string, R> =>
+  Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+
+// Request schemas are already JSON Schema - only nested components need replacing with $refs
+const toOpenApiSchema = (schema: Schema, allowRef = true): JsonObject => {
+  const name = allowRef ? componentNames.get(schema) : undefined;
+  if (name) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  switch (schema.type) {
+    case 'array':
+      return { ...schema, items: toOpenApiSchema(schema.items) };
+    case 'object':
+      return { ...schema, properties: mapValues(schema.properties, property => toOpenApiSchema(property)) };
+    default:
+      return { ...schema };
+  }
+};
+
+// Express `/documents/:documentId` -> OpenAPI `/documents/{documentId}`
+export const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+const parameters = (location: 'path' | 'query' | 'header', schema?: ObjectSchema): JsonObject[] =>
+  Object.entries(schema?.properties || {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || (schema?.required || []).includes(name),
+    ...(property.description ? { description: property.description } : {}),
+    schema: toOpenApiSchema(property)
+  }));
+
+const requestBody = (route: RouteDoc): JsonObject | undefined => {
+  const body = route.request?.body;
+
+  if (route.upload) {
+    const { field, description } = route.upload;
+    return {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: toOpenApiSchema({
+            type: 'object',
+            properties: { [field]: { type: 'string', format: 'binary', description }, ...body?.properties },
+            required: [field, ...(body?.required || [])]
+          })
+        }
+      }
+    };
+  }
+
+  if (route.rawBody) {
+    const { contentType, description } = route.rawBody;
+    return {
+      required: true,
+      content: {
+        [contentType]: { schema: { type: 'string', format: 'binary', description } }
+      }
+    };
+  }
+
+  if (!body) {
+    return undefined;
+  }
+
+  return {
+    required: (body.required || []).length > 0,
+    content: {
+      'application/json': { schema: toOpenApiSchema(body) }
+    }
+  };
+};
+
+const response = (status: number, doc: ResponseDoc): JsonObject => {
+  let content: JsonObject | undefined;
+  if (doc.contentType) {
+    content = { [doc.contentType]: { schema: { type: 'string', format: 'binary' } } };
+  } else if (doc.schema) {
+    content = { 'application/json': { schema: toOpenApiSchema(doc.schema) } };
+  } else if (status >= 400) {
+    content = { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } };
+  }
+
+  return {
+    description: doc.description,
+    ...(doc.headers
+      ? { headers: mapValues(doc.headers, description => ({ description, schema: { type: 'string' } })) }
+      : {}),
+    ...(content ? { content } : {})
+  };
+};
+
+// Errors every route of a kind can return, unless the route documents them itself
+const standardResponses = (route: RouteDoc): Record<number, ResponseDoc> => {
+  const responses: Record<number, ResponseDoc> = {};
+  if (route.request) {
+    responses[400] = { description: 'VALIDATION_ERROR - details lists each ValidationIssue' };
+  }
+  if (route.auth === 'required') {
+    responses[401] = { description: 'UNAUTHENTICATED, TOKEN_MISSING, TOKEN_EXPIRED, TOKEN_REVOKED or INVALID_TOKEN' };
+  }
+  return responses;
+};
+
+const security = (auth: RouteDoc['auth']): JsonObject[] => {
+  switch (auth) {
+    case 'required':
+      return [{ bearerAuth: [] }];
+    case 'optional':
+      return [{ bearerAuth: [] }, {}];
+    case 'none':
+      return [];
+  }
+};
+
+const operation = (route: RouteDoc): JsonObject => {
+  const responses = { ...standardResponses(route), ...route.responses };
+  const operationParameters = [
+    ...parameters('path', route.request?.params),
+    ...parameters('query', route.request?.query),
+    ...(route.headers
+      ? parameters('header', { type: 'object', properties: route.headers })
+      : [])
+  ];
+  const body = requestBody(route);
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    ...(route.deprecated ? { deprecated: true } : {}),
+    operationId: `${route.method}${toOpenApiPath(route.path).replace(/[^A-Za-z0-9]+(.)?/g, (_match, next?: string) => next ? next.toUpperCase() : '')}`,
+    security: security(route.auth),
+    ...(operationParameters.length > 0 ? { parameters: operationParameters } : {}),
+    ...(body ? { requestBody: body } : {}),
+    responses: {
+      ...Object.fromEntries(Object.entries(responses).map(([status, doc]) => [status, response(Number(status), doc)])),
+      default: response(500, { description: 'Unexpected error' })
+    }
+  };
+};
+
+/**
+ * Build the OpenAPI 3 document from the route docs and the shared request/response schemas
+ */
+export const buildOpenApiSpec = (): JsonObject => {
+  const paths: Record<string, Record<string, JsonObject>> = {};
+  for (const route of routeDocs) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Wallet Doc API',
+      version: '1.0.0',
+      description: 'Errors use the envelope `{ success: false, message, error: { code, message, details? } }` '
+        + '(see ErrorResponse); `error.code` is stable and machine-readable.'
+    },
+    tags: [...new Set(routeDocs.map(route => route.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Firebase ID token from POST /api/auth/login'
+        }
+      },
+      schemas: mapValues(componentSchemas, schema => toOpenApiSchema(schema, false))
+    }
+  };
+};
+
+let cachedSpec: JsonObject | null = null;
+
+export const getOpenApiSpec = (): JsonObject => {
+  if (!cachedSpec) {
+    cachedSpec = buildOpenApiSpec();
+  }
+  return cachedSpec;
+};
@@ -0,0 +1,42 @@
+import { RequestSchema, Schema, StringSchema } from '../validation';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface ResponseDoc {
+  description: string;
+  // JSON body. Error responses (4xx/5xx) without a schema use the ErrorResponse envelope.
+  schema?: Schema;
+  // Non-JSON body, e.g. a file stream served with its stored content type
+  contentType?: string;
+  // Response headers, name -> description
+  headers?: Record<string, string>;
+}
+
+/**
+ * Documentation for one route. Paths use Express syntax (`/api/documents/:documentId`).
+ */
+export interface RouteDoc {
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // Kept for existing clients; a replacement route is named in the description
+  deprecated?: boolean;
+  // 'optional' routes behave differently for signed-in callers (see middleware/auth optionalAuth)
+  auth: 'required' | 'optional' | 'none';
+  // The same schema passed to validate() on the route
+  request?: RequestSchema;
+  // multipart/form-data upload - the file field is added to the body schema
+  upload?: {
+    field: string;
+    description: string;
+  };
+  // Raw request body, e.g. a chunk of bytes sent as application/octet-stream
+  rawBody?: {
+    contentType: string;
+    description: string;
+  };
+  headers?: Record<string, StringSchema>;
+  responses: Record<number, ResponseDoc>;
+}
@@ -0,0 +1,681 @@
+import { admin } from '../config/firebase';
+import {
+  AccessEvent,
+  AccessEventQuery,
+  byFolderName,
+  ContentBlob,
+  DocumentPosition,
+  DocumentShare,
+  DocumentSort,
+  DocumentSummary,
+  DocumentVersion,
+  DownloadSigningKey,
+  Folder,
+  FolderUpdate,
+  NewAccessEvent,
+  NewDocumentShare,
+  NewDocumentVersion,
+  NewFolder,
+  NewSecurityAlert,
+  NewUploadSession,
+  NewUser,
+  NewWalletDocument,
+  PinAttemptState,
+  QuotaUsage,
+  quotaUsageOf,
+  SearchEntry,
+  SecurityAlert,
+  summaryDocId,
+  toMillis,
+  UploadSession,
+  User,
+  UserDocumentEntry,
+  UserUpdate,
+  versionId,
+  WalletDocument
+} from '../models';
+import {
+  AccessEventRepository,
+  ContentBlobRepository,
+  DocumentRepository,
+  DocumentVersionRepository,
+  DownloadTokenRepository,
+  FolderRepository,
+  PinAttemptRepository,
+  SearchIndexRepository,
+  SecurityAlertRepository,
+  ShareRepository,
+  UploadSessionRepository,
+  UserRepository
+} from './types';
+
+const db = () => admin.firestore();
+const serverTimestamp = () => admin.firestore.FieldValue.serverTimestamp();
+
+const toUser = (snapshot: admin.firestore.DocumentSnapshot): User => {
+  const data = snapshot.data() || {};
+  return {
+    ...data,
+    uid: data.uid || snapshot.id,
+    documents: data.documents || [],
+    totalSize: data.totalSize || 0
+  } as User;
+};
+
+const toWalletDocument = (snapshot: admin.firestore.DocumentSnapshot): WalletDocument => ({
+  id: snapshot.id,
+  ...snapshot.data()
+} as WalletDocument);
+
+export class FirestoreUserRepository implements UserRepository {
+  private collection() {
+    return db().collection('users');
+  }
+
+  async findById(uid: string): Promise<User | null> {
+    const snapshot = await this.collection().doc(uid).get();
+    return snapshot.exists ? toUser(snapshot) : null;
+  }
+
+  async search(options: { emailPrefix?: string; limit: number; cursor?: string }): Promise<{ users: User[]; nextCursor: string | null }> {
+    const emailPrefix = options.emailPrefix?.toLowerCase();
+    let query: admin.firestore.Query = emailPrefix
+      ? this.collection().orderBy('email').startAt(emailPrefix).endAt(`${emailPrefix}\uf8ff`)
+      : this.collection().orderBy(admin.firestore.FieldPath.documentId());
+
+    if (options.cursor) {
+      const cursorSnapshot = await this.collection().doc(options.cursor).get();
+      if (cursorSnapshot.exists) {
+        query = query.startAfter(cursorSnapshot);
+      }
+    }
+
+    // Fetch one extra to know whether another page exists
+    const snapshot = await query.limit(options.limit + 1).get();
+    const users = snapshot.docs.map(toUser);
+    const page = users.slice(0, options.limit);
+
+    return {
+      users: page,
+      nextCursor: users.length > options.limit ? page[page.length - 1].uid : null
+    };
+  }
+
+  async create(user: NewUser): Promise<User> {
+    const ref = user.uid ? this.collection().doc(user.uid) : this.collection().doc();
+    await ref.set({
+      ...user,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return toUser(await ref.get());
+  }
+
+  async update(uid: string, fields: UserUpdate): Promise<void> {
+    await this.collection().doc(uid).update({
+      ...fields,
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async delete(uid: string): Promise<void> {
+    await this.collection().doc(uid).delete();
+  }
+
+  async modifyQuotaUsage(uid: string, mutate: (current: User) => QuotaUsage): Promise<QuotaUsage> {
+    const ref = this.collection().doc(uid);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        // Rejects like update() does for a missing user
+        const error: any = new Error(`User not found: ${uid}`);
+        error.code = 'not-found';
+        throw error;
+      }
+
+      const current = toUser(snapshot);
+      const usage = mutate(current);
+      const { totalSize, reservedSize, reservedUploads } = quotaUsageOf(current);
+      if (usage.totalSize !== totalSize || usage.reservedSize !== reservedSize || usage.reservedUploads !== reservedUploads) {
+        transaction.update(ref, {
+          ...usage,
+          totalSizeUpdatedAt: Date.now(),
+          updatedAt: serverTimestamp()
+        });
+      }
+      return usage;
+    });
+  }
+
+  async addDocumentSummary(uid: string, summary: DocumentSummary): Promise<void> {
+    await this.collection().doc(uid).update({
+      documents: admin.firestore.FieldValue.arrayUnion(summary),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async removeDocumentSummary(uid: string, documentId: string): Promise<void> {
+    const ref = this.collection().doc(uid);
+    await db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const documents: UserDocumentEntry[] = snapshot.exists ? toUser(snapshot).documents : [];
+
+      transaction.update(ref, {
+        documents: documents.filter(entry => summaryDocId(entry) !== documentId),
+        updatedAt: serverTimestamp()
+      });
+    });
+  }
+
+  async setDocumentVisibility(uid: string, documentId: string, isDocShow: boolean): Promise<boolean> {
+    const ref = this.collection().doc(uid);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return false;
+      }
+
+      const documents = toUser(snapshot).documents;
+      const index = documents.findIndex(entry => summaryDocId(entry) === documentId);
+      if (index === -1) {
+        return false;
+      }
+
+      const updatedDocuments = [...documents];
+      const entry = updatedDocuments[index];
+      updatedDocuments[index] = typeof entry === 'string'
+        ? { docId: documentId, isDocShow } // Old format - convert to new format
+        : { ...entry, isDocShow };
+
+      transaction.update(ref, {
+        documents: updatedDocuments,
+        updatedAt: serverTimestamp()
+      });
+      return true;
+    });
+  }
+
+  async updateDocumentSummary(uid: string, documentId: string, fields: Partial<Omit<DocumentSummary, 'docId'>>): Promise<boolean> {
+    const ref = this.collection().doc(uid);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return false;
+      }
+
+      const documents = toUser(snapshot).documents;
+      const index = documents.findIndex(entry => summaryDocId(entry) === documentId);
+      if (index === -1) {
+        return false;
+      }
+
+      const updatedDocuments = [...documents];
+      const entry = updatedDocuments[index];
+      updatedDocuments[index] = typeof entry === 'string'
+        ? { docId: documentId, isDocShow: false, ...fields }
+        : { ...entry, ...fields };
+
+      transaction.update(ref, {
+        documents: updatedDocuments,
+        updatedAt: serverTimestamp()
+      });
+      return true;
+    });
+  }
+}
+
+export class FirestoreDocumentRepository implements DocumentRepository {
+  private collection() {
+    return db().collection('documents');
+  }
+
+  async findById(id: string): Promise<WalletDocument | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? toWalletDocument(snapshot) : null;
+  }
+
+  async listByUser(userId: string): Promise<WalletDocument[]> {
+    // Note: Requires Firestore composite index on (userId, uploadedAt)
+    try {
+      const snapshot = await this.collection()
+        .where('userId', '==', userId)
+        .orderBy('uploadedAt', 'desc')
+        .get();
+      return snapshot.docs.map(toWalletDocument);
+    } catch (error: any) {
+      // If index doesn't exist, get without orderBy and sort in memory
+      if (!error.message?.includes('index')) {
+        throw error;
+      }
+      const snapshot = await this.collection().where('userId', '==', userId).get();
+      return snapshot.docs
+        .map(toWalletDocument)
+        .sort((a, b) => toMillis(b.uploadedAt) - toMillis(a.uploadedAt));
+    }
+  }
+
+  async listByUserSorted(
+    userId: string,
+    sort: DocumentSort,
+    options: { after?: DocumentPosition; limit: number }
+  ): Promise<WalletDocument[]> {
+    // Requires a Firestore composite index on (userId, <sort field>, __name__) per sort field and direction -
+    // see firestore.indexes.json. Without it the query fails (FAILED_PRECONDITION) rather than loading every document.
+    let query = this.collection()
+      .where('userId', '==', userId)
+      .orderBy(sort.field, sort.direction)
+      .orderBy(admin.firestore.FieldPath.documentId(), sort.direction);
+
+    if (options.after) {
+      const { value, id } = options.after;
+      query = query.startAfter(sort.field === 'uploadedAt' ? admin.firestore.Timestamp.fromMillis(Number(value)) : value, id);
+    }
+
+    const snapshot = await query.limit(options.limit).get();
+    return snapshot.docs.map(toWalletDocument);
+  }
+
+  async listTrashedBefore(cutoff: number): Promise<WalletDocument[]> {
+    // Range filters skip documents without a numeric trashedAt (live ones)
+    const snapshot = await this.collection().where('trashedAt', '<=', cutoff).get();
+    return snapshot.docs.map(toWalletDocument);
+  }
+
+  async create(document: NewWalletDocument): Promise<WalletDocument> {
+    const ref = await this.collection().add({
+      ...document,
+      uploadedAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return { ...document, id: ref.id };
+  }
+
+  async update(id: string, fields: Partial<NewWalletDocument>): Promise<void> {
+    await this.collection().doc(id).update({
+      ...fields,
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async modify(id: string, mutate: (current: WalletDocument) => WalletDocument): Promise<WalletDocument | null> {
+    const ref = this.collection().doc(id);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      const { id: _id, uploadedAt, updatedAt: _updatedAt, ...next } = mutate(toWalletDocument(snapshot));
+      transaction.update(ref, { ...next, updatedAt: serverTimestamp() });
+      return { ...next, id, uploadedAt };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.collection().doc(id).delete();
+  }
+}
+
+export class FirestoreDocumentVersionRepository implements DocumentVersionRepository {
+  private collection() {
+    return db().collection('documentVersions');
+  }
+
+  async create(version: NewDocumentVersion): Promise<DocumentVersion> {
+    const record = { ...version, id: versionId(version.documentId, version.version) };
+    await this.collection().doc(record.id).set(record);
+    return record;
+  }
+
+  async find(documentId: string, version: number): Promise<DocumentVersion | null> {
+    const snapshot = await this.collection().doc(versionId(documentId, version)).get();
+    return snapshot.exists ? (snapshot.data() as DocumentVersion) : null;
+  }
+
+  async listByDocument(documentId: string): Promise<DocumentVersion[]> {
+    // Sorted in memory to avoid requiring a composite index
+    const snapshot = await this.collection().where('documentId', '==', documentId).get();
+    return snapshot.docs
+      .map(doc => doc.data() as DocumentVersion)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async update(documentId: string, version: number, fields: Partial<NewDocumentVersion>): Promise<void> {
+    await this.collection().doc(versionId(documentId, version)).update(fields);
+  }
+
+  async delete(documentId: string, version: number): Promise<void> {
+    await this.collection().doc(versionId(documentId, version)).delete();
+  }
+
+  async take(documentId: string, version: number): Promise<DocumentVersion | null> {
+    const ref = this.collection().doc(versionId(documentId, version));
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      transaction.delete(ref);
+      return snapshot.data() as DocumentVersion;
+    });
+  }
+}
+
+export class FirestoreFolderRepository implements FolderRepository {
+  private collection() {
+    return db().collection('folders');
+  }
+
+  async findById(id: string): Promise<Folder | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as Folder) : null;
+  }
+
+  async listByUser(userId: string): Promise<Folder[]> {
+    // Sorted in memory to avoid requiring a composite index
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as Folder))
+      .sort(byFolderName);
+  }
+
+  async create(folder: NewFolder): Promise<Folder> {
+    const ref = await this.collection().add(folder);
+    return { ...folder, id: ref.id };
+  }
+
+  async update(id: string, fields: FolderUpdate): Promise<void> {
+    await this.collection().doc(id).update(fields);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.collection().doc(id).delete();
+  }
+}
+
+export class FirestorePinAttemptRepository implements PinAttemptRepository {
+  private collection() {
+    return db().collection('pinAttempts');
+  }
+
+  async get(key: string): Promise<PinAttemptState | null> {
+    const snapshot = await this.collection().doc(key).get();
+    return snapshot.exists ? (snapshot.data() as PinAttemptState) : null;
+  }
+
+  async modify(key: string, mutate: (current: PinAttemptState | null) => PinAttemptState): Promise<PinAttemptState> {
+    const ref = this.collection().doc(key);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const next = mutate(snapshot.exists ? (snapshot.data() as PinAttemptState) : null);
+      transaction.set(ref, next);
+      return next;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.collection().doc(key).delete();
+  }
+}
+
+export class FirestoreSearchIndexRepository implements SearchIndexRepository {
+  private collection() {
+    return db().collection('searchEntries');
+  }
+
+  async listByUser(userId: string): Promise<SearchEntry[]> {
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs.map(doc => doc.data() as SearchEntry);
+  }
+
+  async put(entry: SearchEntry): Promise<void> {
+    await this.collection().doc(entry.documentId).set(entry);
+  }
+
+  async delete(documentId: string): Promise<void> {
+    await this.collection().doc(documentId).delete();
+  }
+}
+
+export class FirestoreSecurityAlertRepository implements SecurityAlertRepository {
+  private collection() {
+    return db().collection('securityAlerts');
+  }
+
+  async create(alert: NewSecurityAlert): Promise<SecurityAlert> {
+    const ref = await this.collection().add({
+      ...alert,
+      read: false,
+      createdAt: serverTimestamp()
+    });
+    return { ...alert, id: ref.id, read: false };
+  }
+
+  async findById(id: string): Promise<SecurityAlert | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? ({ id: snapshot.id, ...snapshot.data() } as SecurityAlert) : null;
+  }
+
+  async listByUser(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<SecurityAlert[]> {
+    // Sorted in memory to avoid requiring a composite index
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    const alerts = snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as SecurityAlert))
+      .filter(alert => !options.unreadOnly || !alert.read)
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+    return options.limit ? alerts.slice(0, options.limit) : alerts;
+  }
+
+  async markRead(id: string): Promise<void> {
+    await this.collection().doc(id).update({ read: true });
+  }
+}
+
+export class FirestoreShareRepository implements ShareRepository {
+  private collection() {
+    return db().collection('shares');
+  }
+
+  async create(share: NewDocumentShare): Promise<DocumentShare> {
+    const record = {
+      ...share,
+      viewCount: 0,
+      lastViewedAt: null,
+      revokedAt: null
+    };
+    await this.collection().doc(share.id).set({
+      ...record,
+      createdAt: serverTimestamp()
+    });
+    return record;
+  }
+
+  async findById(id: string): Promise<DocumentShare | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as DocumentShare) : null;
+  }
+
+  async listByUser(userId: string): Promise<DocumentShare[]> {
+    // Sorted in memory to avoid requiring a composite index
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as DocumentShare))
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+  }
+
+  async modify(id: string, mutate: (current: DocumentShare) => DocumentShare): Promise<DocumentShare | null> {
+    const ref = this.collection().doc(id);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      const { createdAt, ...next } = mutate({ ...snapshot.data(), id } as DocumentShare);
+      transaction.update(ref, next);
+      return { ...next, createdAt };
+    });
+  }
+}
+
+export class FirestoreUploadSessionRepository implements UploadSessionRepository {
+  private collection() {
+    return db().collection('uploadSessions');
+  }
+
+  async findById(id: string): Promise<UploadSession | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as UploadSession) : null;
+  }
+
+  async listByUser(userId: string): Promise<UploadSession[]> {
+    // Sorted in memory to avoid requiring a composite index
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as UploadSession))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async listExpiredBefore(cutoff: number): Promise<UploadSession[]> {
+    const snapshot = await this.collection().where('expiresAt', '<=', cutoff).get();
+    return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as UploadSession));
+  }
+
+  async create(session: NewUploadSession): Promise<UploadSession> {
+    const ref = await this.collection().add(session);
+    return { ...session, id: ref.id };
+  }
+
+  async modify(id: string, mutate: (current: UploadSession) => UploadSession): Promise<UploadSession | null> {
+    const ref = this.collection().doc(id);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return null;
+      }
+      const { id: _id, ...next } = mutate({ ...snapshot.data(), id } as UploadSession);
+      transaction.set(ref, next);
+      return { ...next, id };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.collection().doc(id).delete();
+  }
+}
+
+export class FirestoreContentBlobRepository implements ContentBlobRepository {
+  private collection() {
+    return db().collection('contentBlobs');
+  }
+
+  async findById(id: string): Promise<ContentBlob | null> {
+    const snapshot = await this.collection().doc(id).get();
+    return snapshot.exists ? ({ ...snapshot.data(), id: snapshot.id } as ContentBlob) : null;
+  }
+
+  async listByUser(userId: string): Promise<ContentBlob[]> {
+    const snapshot = await this.collection().where('userId', '==', userId).get();
+    return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as ContentBlob));
+  }
+
+  async modify(id: string, mutate: (current: ContentBlob | null) => ContentBlob | null): Promise<ContentBlob | null> {
+    const ref = this.collection().doc(id);
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const next = mutate(snapshot.exists ? ({ ...snapshot.data(), id } as ContentBlob) : null);
+      if (next) {
+        const { id: _id, ...data } = next;
+        transaction.set(ref, data);
+      } else if (snapshot.exists) {
+        transaction.delete(ref);
+      }
+      return next;
+    });
+  }
+}
+
+export class FirestoreDownloadTokenRepository implements DownloadTokenRepository {
+  private keyRef() {
+    return db().collection('downloadTokenKeys').doc('current');
+  }
+
+  private revocations() {
+    return db().collection('downloadTokenRevocations');
+  }
+
+  async getSigningKey(candidate: DownloadSigningKey): Promise<DownloadSigningKey> {
+    const ref = this.keyRef();
+    // In a transaction so instances starting together agree on one key
+    return db().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (snapshot.exists) {
+        return snapshot.data() as DownloadSigningKey;
+      }
+      transaction.set(ref, candidate);
+      return candidate;
+    });
+  }
+
+  async setSigningKey(key: DownloadSigningKey): Promise<void> {
+    await this.keyRef().set(key);
+  }
+
+  async findRevocation(documentId: string): Promise<number | null> {
+    const snapshot = await this.revocations().doc(documentId).get();
+    return snapshot.exists ? (snapshot.data()?.revokedAt ?? null) : null;
+  }
+
+  async revokeDocument(documentId: string, revokedAt: number): Promise<void> {
+    await this.revocations().doc(documentId).set({ documentId, revokedAt });
+  }
+}
+
+export class FirestoreAccessEventRepository implements AccessEventRepository {
+  private collection() {
+    return db().collection('accessEvents');
+  }
+
+  async append(event: NewAccessEvent): Promise<AccessEvent> {
+    const ref = await this.collection().add(event);
+    return { ...event, id: ref.id };
+  }
+
+  async listByOwner(ownerId: string, query: AccessEventQuery): Promise<{ events: AccessEvent[]; nextCursor: string | null }> {
+    // Note: Requires Firestore composite indexes on (ownerId, occurredAt) and on each
+    // filter field combined with them (documentId, channel, outcome) - see firestore.indexes.json
+    let firestoreQuery = this.collection()
+      .where('ownerId', '==', ownerId)
+      .orderBy('occurredAt', 'desc');
+
+    if (query.documentId) {
+      firestoreQuery = firestoreQuery.where('documentId', '==', query.documentId);
+    }
+    if (query.channel) {
+      firestoreQuery = firestoreQuery.where('channel', '==', query.channel);
+    }
+    if (query.outcome) {
+      firestoreQuery = firestoreQuery.where('outcome', '==', query.outcome);
+    }
+    if (query.from !== undefined) {
+      firestoreQuery = firestoreQuery.where('occurredAt', '>=', query.from);
+    }
+    if (query.to !== undefined) {
+      firestoreQuery = firestoreQuery.where('occurredAt', '<=', query.to);
+    }
+    if (query.cursor) {
+      const cursorSnapshot = await this.collection().doc(query.cursor).get();
+      if (cursorSnapshot.exists) {
+        firestoreQuery = firestoreQuery.startAfter(cursorSnapshot);
+      }
+    }
+
+    // Fetch one extra to know whether another page exists
+    const snapshot = await firestoreQuery.limit(query.limit + 1).get();
+    const events = snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as AccessEvent));
+    const page = events.slice(0, query.limit);
+
+    return {
+      events: page,
+      nextCursor: events.length > query.limit ? page[page.length - 1].id : null
+    };
+  }
+}
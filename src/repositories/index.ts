@@ -0,0 +1,167 @@
+import {
+  FirestoreAccessEventRepository,
+  FirestoreContentBlobRepository,
+  FirestoreDocumentRepository,
+  FirestoreDocumentVersionRepository,
+  FirestoreDownloadTokenRepository,
+  FirestoreFolderRepository,
+  FirestorePinAttemptRepository,
+  FirestoreSearchIndexRepository,
+  FirestoreSecurityAlertRepository,
+  FirestoreShareRepository,
+  FirestoreUploadSessionRepository,
+  FirestoreUserRepository
+} from './firestore';
+import {
+  InMemoryAccessEventRepository,
+  InMemoryContentBlobRepository,
+  InMemoryDocumentRepository,
+  InMemoryDocumentVersionRepository,
+  InMemoryDownloadTokenRepository,
+  InMemoryFolderRepository,
+  InMemoryPinAttemptRepository,
+  InMemorySearchIndexRepository,
+  InMemorySecurityAlertRepository,
+  InMemoryShareRepository,
+  InMemoryUploadSessionRepository,
+  InMemoryUserRepository
+} from './memory';
+import {
+  AccessEventRepository,
+  ContentBlobRepository,
+  DocumentRepository,
+  DocumentVersionRepository,
+  DownloadTokenRepository,
+  FolderRepository,
+  PinAttemptRepository,
+  SearchIndexRepository,
+  SecurityAlertRepository,
+  ShareRepository,
+  UploadSessionRepository,
+  UserRepository
+} from './types';
+
+export * from './types';
+export {
+  FirestoreAccessEventRepository,
+  FirestoreContentBlobRepository,
+  FirestoreDocumentRepository,
+  FirestoreDocumentVersionRepository,
+  FirestoreDownloadTokenRepository,
+  FirestoreFolderRepository,
+  FirestorePinAttemptRepository,
+  FirestoreSearchIndexRepository,
+  FirestoreSecurityAlertRepository,
+  FirestoreShareRepository,
+  FirestoreUploadSessionRepository,
+  FirestoreUserRepository,
+  InMemoryAccessEventRepository,
+  InMemoryContentBlobRepository,
+  InMemoryDocumentRepository,
+  InMemoryDocumentVersionRepository,
+  InMemoryDownloadTokenRepository,
+  InMemoryFolderRepository,
+  InMemoryPinAttemptRepository,
+  InMemorySearchIndexRepository,
+  InMemorySecurityAlertRepository,
+  InMemoryShareRepository,
+  InMemoryUploadSessionRepository,
+  InMemoryUserRepository
+};
+
+export interface Repositories {
+  users: UserRepository;
+  documents: DocumentRepository;
+  documentVersions: DocumentVersionRepository;
+  folders: FolderRepository;
+  pinAttempts: PinAttemptRepository;
+  searchIndexes: SearchIndexRepository;
+  securityAlerts: SecurityAlertRepository;
+  shares: ShareRepository;
+  uploadSessions: UploadSessionRepository;
+  accessEvents: AccessEventRepository;
+  downloadTokens: DownloadTokenRepository;
+  contentBlobs: ContentBlobRepository;
+}
+
+let repositories: Repositories | null = null;
+
+/**
+ * Build the repositories selected by REPOSITORY_DRIVER ('firestore' or 'memory')
+ */
+export const createRepositories = (): Repositories => {
+  const driver = (process.env.REPOSITORY_DRIVER || 'firestore').toLowerCase();
+
+  switch (driver) {
+    case 'firestore':
+      return {
+        users: new FirestoreUserRepository(),
+        documents: new FirestoreDocumentRepository(),
+        documentVersions: new FirestoreDocumentVersionRepository(),
+        folders: new FirestoreFolderRepository(),
+        pinAttempts: new FirestorePinAttemptRepository(),
+        searchIndexes: new FirestoreSearchIndexRepository(),
+        securityAlerts: new FirestoreSecurityAlertRepository(),
+        shares: new FirestoreShareRepository(),
+        uploadSessions: new FirestoreUploadSessionRepository(),
+        accessEvents: new FirestoreAccessEventRepository(),
+        downloadTokens: new FirestoreDownloadTokenRepository(),
+        contentBlobs: new FirestoreContentBlobRepository()
+      };
+    case 'memory':
+      return {
+        users: new InMemoryUserRepository(),
+        documents: new InMemoryDocumentRepository(),
+        documentVersions: new InMemoryDocumentVersionRepository(),
+        folders: new InMemoryFolderRepository(),
+        pinAttempts: new InMemoryPinAttemptRepository(),
+        searchIndexes: new InMemorySearchIndexRepository(),
+        securityAlerts: new InMemorySecurityAlertRepository(),
+        shares: new InMemoryShareRepository(),
+        uploadSessions: new InMemoryUploadSessionRepository(),
+        accessEvents: new InMemoryAccessEventRepository(),
+        downloadTokens: new InMemoryDownloadTokenRepository(),
+        contentBlobs: new InMemoryContentBlobRepository()
+      };
+    default:
+      throw new Error(`Unknown REPOSITORY_DRIVER "${driver}". Expected "firestore" or "memory".`);
+  }
+};
+
+const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = createRepositories();
+  }
+  return repositories;
+};
+
+export const getUserRepository = (): UserRepository => getRepositories().users;
+
+export const getDocumentRepository = (): DocumentRepository => getRepositories().documents;
+
+export const getDocumentVersionRepository = (): DocumentVersionRepository => getRepositories().documentVersions;
+
+export const getFolderRepository = (): FolderRepository => getRepositories().folders;
+
+export const getPinAttemptRepository = (): PinAttemptRepository => getRepositories().pinAttempts;
+
+export const getSearchIndexRepository = (): SearchIndexRepository => getRepositories().searchIndexes;
+
+export const getSecurityAlertRepository = (): SecurityAlertRepository => getRepositories().securityAlerts;
+
+export const getShareRepository = (): ShareRepository => getRepositories().shares;
+
+export const getUploadSessionRepository = (): UploadSessionRepository => getRepositories().uploadSessions;
+
+export const getAccessEventRepository = (): AccessEventRepository => getRepositories().accessEvents;
+
+export const getDownloadTokenRepository = (): DownloadTokenRepository => getRepositories().downloadTokens;
+
+export const getContentBlobRepository = (): ContentBlobRepository => getRepositories().contentBlobs;
+
+/**
+ * Replace the shared repositories (e.g. with in-memory ones in tests)
+ */
+export const setRepositories = (replacement: Repositories): void => {
+  repositories = replacement;
+};
@@ -0,0 +1,562 @@
+import * as crypto from 'crypto';
+import {
+  AccessEvent,
+  AccessEventQuery,
+  byFolderName,
+  ContentBlob,
+  DocumentPosition,
+  DocumentShare,
+  DocumentSort,
+  DocumentSummary,
+  DocumentVersion,
+  DownloadSigningKey,
+  Folder,
+  FolderUpdate,
+  isTrashed,
+  NewAccessEvent,
+  NewDocumentShare,
+  NewDocumentVersion,
+  NewFolder,
+  NewSecurityAlert,
+  NewUploadSession,
+  NewUser,
+  NewWalletDocument,
+  PinAttemptState,
+  QuotaUsage,
+  quotaUsageOf,
+  SearchEntry,
+  SecurityAlert,
+  sortedBatch,
+  summaryDocId,
+  toMillis,
+  UploadSession,
+  User,
+  UserUpdate,
+  versionId,
+  WalletDocument
+} from '../models';
+import {
+  AccessEventRepository,
+  ContentBlobRepository,
+  DocumentRepository,
+  DocumentVersionRepository,
+  DownloadTokenRepository,
+  FolderRepository,
+  PinAttemptRepository,
+  SearchIndexRepository,
+  SecurityAlertRepository,
+  ShareRepository,
+  UploadSessionRepository,
+  UserRepository
+} from './types';
+
+const notFound = (kind: string, id: string): Error => {
+  const error: any = new Error(`${kind} not found: ${id}`);
+  error.code = 'not-found';
+  return error;
+};
+
+// Records are copied in and out so callers can't mutate stored state
+const clone = <T>(value: T): T => structuredClone(value);
+
+/**
+ * Process-local user store for development and tests
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private readonly users = new Map<string, User>();
+
+  async findById(uid: string): Promise<User | null> {
+    const user = this.users.get(uid);
+    return user ? clone(user) : null;
+  }
+
+  async search(options: { emailPrefix?: string; limit: number; cursor?: string }): Promise<{ users: User[]; nextCursor: string | null }> {
+    const emailPrefix = options.emailPrefix?.toLowerCase();
+    const matching = [...this.users.values()]
+      .filter(user => !emailPrefix || (user.email || '').toLowerCase().startsWith(emailPrefix))
+      .sort((a, b) => emailPrefix
+        ? (a.email || '').localeCompare(b.email || '')
+        : a.uid.localeCompare(b.uid));
+
+    const start = options.cursor ? matching.findIndex(user => user.uid === options.cursor) + 1 : 0;
+    const page = matching.slice(start, start + options.limit);
+
+    return {
+      users: page.map(clone),
+      nextCursor: start + options.limit < matching.length ? page[page.length - 1].uid : null
+    };
+  }
+
+  async create(user: NewUser): Promise<User> {
+    const now = new Date();
+    const record: User = {
+      ...clone(user),
+      uid: user.uid || crypto.randomUUID(),
+      documents: user.documents || [],
+      totalSize: user.totalSize || 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(record.uid, record);
+    return clone(record);
+  }
+
+  async update(uid: string, fields: UserUpdate): Promise<void> {
+    this.users.set(uid, { ...this.require(uid), ...clone(fields), updatedAt: new Date() });
+  }
+
+  async delete(uid: string): Promise<void> {
+    this.users.delete(uid);
+  }
+
+  async modifyQuotaUsage(uid: string, mutate: (current: User) => QuotaUsage): Promise<QuotaUsage> {
+    const user = this.require(uid);
+    const usage = mutate(clone(user));
+    const { totalSize, reservedSize, reservedUploads } = quotaUsageOf(user);
+    if (usage.totalSize !== totalSize || usage.reservedSize !== reservedSize || usage.reservedUploads !== reservedUploads) {
+      this.users.set(uid, { ...user, ...usage, totalSizeUpdatedAt: Date.now(), updatedAt: new Date() });
+    }
+    return usage;
+  }
+
+  async addDocumentSummary(uid: string, summary: DocumentSummary): Promise<void> {
+    const user = this.require(uid);
+    const alreadyPresent = user.documents.some(entry => JSON.stringify(entry) === JSON.stringify(summary));
+    this.users.set(uid, {
+      ...user,
+      documents: alreadyPresent ? user.documents : [...user.documents, clone(summary)],
+      updatedAt: new Date()
+    });
+  }
+
+  async removeDocumentSummary(uid: string, documentId: string): Promise<void> {
+    const user = this.require(uid);
+    this.users.set(uid, {
+      ...user,
+      documents: user.documents.filter(entry => summaryDocId(entry) !== documentId),
+      updatedAt: new Date()
+    });
+  }
+
+  async setDocumentVisibility(uid: string, documentId: string, isDocShow: boolean): Promise<boolean> {
+    const user = this.users.get(uid);
+    if (!user) {
+      return false;
+    }
+
+    const index = user.documents.findIndex(entry => summaryDocId(entry) === documentId);
+    if (index === -1) {
+      return false;
+    }
+
+    const documents = [...user.documents];
+    const entry = documents[index];
+    documents[index] = typeof entry === 'string' ? { docId: documentId, isDocShow } : { ...entry, isDocShow };
+    this.users.set(uid, { ...user, documents, updatedAt: new Date() });
+    return true;
+  }
+
+  async updateDocumentSummary(uid: string, documentId: string, fields: Partial<Omit<DocumentSummary, 'docId'>>): Promise<boolean> {
+    const user = this.users.get(uid);
+    if (!user) {
+      return false;
+    }
+
+    const index = user.documents.findIndex(entry => summaryDocId(entry) === documentId);
+    if (index === -1) {
+      return false;
+    }
+
+    const documents = [...user.documents];
+    const entry = documents[index];
+    documents[index] = typeof entry === 'string'
+      ? { docId: documentId, isDocShow: false, ...clone(fields) }
+      : { ...entry, ...clone(fields) };
+    this.users.set(uid, { ...user, documents, updatedAt: new Date() });
+    return true;
+  }
+
+  private require(uid: string): User {
+    const user = this.users.get(uid);
+    if (!user) {
+      throw notFound('User', uid);
+    }
+    return user;
+  }
+}
+
+/**
+ * Process-local document store for development and tests
+ */
+export class InMemoryDocumentRepository implements DocumentRepository {
+  private readonly documents = new Map<string, WalletDocument>();
+
+  async findById(id: string): Promise<WalletDocument | null> {
+    const document = this.documents.get(id);
+    return document ? clone(document) : null;
+  }
+
+  async listByUser(userId: string): Promise<WalletDocument[]> {
+    return [...this.documents.values()]
+      .filter(document => document.userId === userId)
+      .sort((a, b) => toMillis(b.uploadedAt) - toMillis(a.uploadedAt))
+      .map(clone);
+  }
+
+  async listByUserSorted(
+    userId: string,
+    sort: DocumentSort,
+    options: { after?: DocumentPosition; limit: number }
+  ): Promise<WalletDocument[]> {
+    const owned = [...this.documents.values()].filter(document => document.userId === userId);
+    return sortedBatch(owned, sort, options).map(clone);
+  }
+
+  async listTrashedBefore(cutoff: number): Promise<WalletDocument[]> {
+    return [...this.documents.values()]
+      .filter(document => isTrashed(document) && (document.trashedAt as number) <= cutoff)
+      .map(clone);
+  }
+
+  async create(document: NewWalletDocument): Promise<WalletDocument> {
+    const now = new Date();
+    const record: WalletDocument = {
+      ...clone(document),
+      id: crypto.randomUUID(),
+      uploadedAt: now,
+      updatedAt: now
+    };
+    this.documents.set(record.id, record);
+    return clone(record);
+  }
+
+  async update(id: string, fields: Partial<NewWalletDocument>): Promise<void> {
+    const document = this.documents.get(id);
+    if (!document) {
+      throw notFound('Document', id);
+    }
+    this.documents.set(id, { ...document, ...clone(fields), updatedAt: new Date() });
+  }
+
+  async modify(id: string, mutate: (current: WalletDocument) => WalletDocument): Promise<WalletDocument | null> {
+    const current = this.documents.get(id);
+    if (!current) {
+      return null;
+    }
+    const next = { ...mutate(clone(current)), updatedAt: new Date() };
+    this.documents.set(id, clone(next));
+    return next;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.documents.delete(id);
+  }
+}
+
+export class InMemoryDocumentVersionRepository implements DocumentVersionRepository {
+  private readonly versions = new Map<string, DocumentVersion>();
+
+  async create(version: NewDocumentVersion): Promise<DocumentVersion> {
+    const record: DocumentVersion = { ...clone(version), id: versionId(version.documentId, version.version) };
+    this.versions.set(record.id, record);
+    return clone(record);
+  }
+
+  async find(documentId: string, version: number): Promise<DocumentVersion | null> {
+    const record = this.versions.get(versionId(documentId, version));
+    return record ? clone(record) : null;
+  }
+
+  async listByDocument(documentId: string): Promise<DocumentVersion[]> {
+    return [...this.versions.values()]
+      .filter(version => version.documentId === documentId)
+      .sort((a, b) => b.version - a.version)
+      .map(clone);
+  }
+
+  async update(documentId: string, version: number, fields: Partial<NewDocumentVersion>): Promise<void> {
+    const id = versionId(documentId, version);
+    const record = this.versions.get(id);
+    if (!record) {
+      throw notFound('Document version', id);
+    }
+    this.versions.set(id, { ...record, ...clone(fields) });
+  }
+
+  async delete(documentId: string, version: number): Promise<void> {
+    this.versions.delete(versionId(documentId, version));
+  }
+
+  async take(documentId: string, version: number): Promise<DocumentVersion | null> {
+    const id = versionId(documentId, version);
+    const record = this.versions.get(id);
+    this.versions.delete(id);
+    return record ? clone(record) : null;
+  }
+}
+
+export class InMemoryFolderRepository implements FolderRepository {
+  private readonly folders = new Map<string, Folder>();
+
+  async findById(id: string): Promise<Folder | null> {
+    const folder = this.folders.get(id);
+    return folder ? clone(folder) : null;
+  }
+
+  async listByUser(userId: string): Promise<Folder[]> {
+    return [...this.folders.values()]
+      .filter(folder => folder.userId === userId)
+      .sort(byFolderName)
+      .map(clone);
+  }
+
+  async create(folder: NewFolder): Promise<Folder> {
+    const record: Folder = { ...clone(folder), id: crypto.randomUUID() };
+    this.folders.set(record.id, record);
+    return clone(record);
+  }
+
+  async update(id: string, fields: FolderUpdate): Promise<void> {
+    const folder = this.folders.get(id);
+    if (!folder) {
+      throw notFound('Folder', id);
+    }
+    this.folders.set(id, { ...folder, ...clone(fields) });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.folders.delete(id);
+  }
+}
+
+export class InMemoryPinAttemptRepository implements PinAttemptRepository {
+  private readonly attempts = new Map<string, PinAttemptState>();
+
+  async get(key: string): Promise<PinAttemptState | null> {
+    const state = this.attempts.get(key);
+    return state ? clone(state) : null;
+  }
+
+  async modify(key: string, mutate: (current: PinAttemptState | null) => PinAttemptState): Promise<PinAttemptState> {
+    const current = this.attempts.get(key);
+    const next = mutate(current ? clone(current) : null);
+    this.attempts.set(key, clone(next));
+    return next;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+}
+
+export class InMemorySearchIndexRepository implements SearchIndexRepository {
+  private readonly entries = new Map<string, SearchEntry>();
+
+  async listByUser(userId: string): Promise<SearchEntry[]> {
+    return [...this.entries.values()].filter(entry => entry.userId === userId).map(clone);
+  }
+
+  async put(entry: SearchEntry): Promise<void> {
+    this.entries.set(entry.documentId, clone(entry));
+  }
+
+  async delete(documentId: string): Promise<void> {
+    this.entries.delete(documentId);
+  }
+}
+
+export class InMemorySecurityAlertRepository implements SecurityAlertRepository {
+  private readonly alerts = new Map<string, SecurityAlert>();
+
+  async create(alert: NewSecurityAlert): Promise<SecurityAlert> {
+    const record: SecurityAlert = {
+      ...clone(alert),
+      id: crypto.randomUUID(),
+      read: false,
+      createdAt: new Date()
+    };
+    this.alerts.set(record.id, record);
+    return clone(record);
+  }
+
+  async findById(id: string): Promise<SecurityAlert | null> {
+    const alert = this.alerts.get(id);
+    return alert ? clone(alert) : null;
+  }
+
+  async listByUser(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<SecurityAlert[]> {
+    const alerts = [...this.alerts.values()]
+      .filter(alert => alert.userId === userId && (!options.unreadOnly || !alert.read))
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt))
+      .map(clone);
+    return options.limit ? alerts.slice(0, options.limit) : alerts;
+  }
+
+  async markRead(id: string): Promise<void> {
+    const alert = this.alerts.get(id);
+    if (!alert) {
+      throw notFound('Security alert', id);
+    }
+    this.alerts.set(id, { ...alert, read: true });
+  }
+}
+
+export class InMemoryShareRepository implements ShareRepository {
+  private readonly shares = new Map<string, DocumentShare>();
+
+  async create(share: NewDocumentShare): Promise<DocumentShare> {
+    const record: DocumentShare = {
+      ...clone(share),
+      viewCount: 0,
+      lastViewedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.shares.set(record.id, record);
+    return clone(record);
+  }
+
+  async findById(id: string): Promise<DocumentShare | null> {
+    const share = this.shares.get(id);
+    return share ? clone(share) : null;
+  }
+
+  async listByUser(userId: string): Promise<DocumentShare[]> {
+    return [...this.shares.values()]
+      .filter(share => share.userId === userId)
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt))
+      .map(clone);
+  }
+
+  async modify(id: string, mutate: (current: DocumentShare) => DocumentShare): Promise<DocumentShare | null> {
+    const current = this.shares.get(id);
+    if (!current) {
+      return null;
+    }
+    const next = mutate(clone(current));
+    this.shares.set(id, clone(next));
+    return next;
+  }
+}
+
+export class InMemoryUploadSessionRepository implements UploadSessionRepository {
+  private readonly sessions = new Map<string, UploadSession>();
+
+  async findById(id: string): Promise<UploadSession | null> {
+    const session = this.sessions.get(id);
+    return session ? clone(session) : null;
+  }
+
+  async listByUser(userId: string): Promise<UploadSession[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(clone);
+  }
+
+  async listExpiredBefore(cutoff: number): Promise<UploadSession[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.expiresAt <= cutoff)
+      .map(clone);
+  }
+
+  async create(session: NewUploadSession): Promise<UploadSession> {
+    const record: UploadSession = { ...clone(session), id: crypto.randomUUID() };
+    this.sessions.set(record.id, record);
+    return clone(record);
+  }
+
+  async modify(id: string, mutate: (current: UploadSession) => UploadSession): Promise<UploadSession | null> {
+    const current = this.sessions.get(id);
+    if (!current) {
+      return null;
+    }
+    const next = mutate(clone(current));
+    this.sessions.set(id, clone(next));
+    return next;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
+
+export class InMemoryContentBlobRepository implements ContentBlobRepository {
+  private readonly blobs = new Map<string, ContentBlob>();
+
+  async findById(id: string): Promise<ContentBlob | null> {
+    const blob = this.blobs.get(id);
+    return blob ? clone(blob) : null;
+  }
+
+  async listByUser(userId: string): Promise<ContentBlob[]> {
+    return [...this.blobs.values()].filter(blob => blob.userId === userId).map(clone);
+  }
+
+  async modify(id: string, mutate: (current: ContentBlob | null) => ContentBlob | null): Promise<ContentBlob | null> {
+    const current = this.blobs.get(id);
+    const next = mutate(current ? clone(current) : null);
+    if (next) {
+      this.blobs.set(id, clone(next));
+    } else {
+      this.blobs.delete(id);
+    }
+    return next;
+  }
+}
+
+export class InMemoryDownloadTokenRepository implements DownloadTokenRepository {
+  private signingKey: DownloadSigningKey | null = null;
+  private readonly revocations = new Map<string, number>();
+
+  async getSigningKey(candidate: DownloadSigningKey): Promise<DownloadSigningKey> {
+    if (!this.signingKey) {
+      this.signingKey = clone(candidate);
+    }
+    return clone(this.signingKey);
+  }
+
+  async setSigningKey(key: DownloadSigningKey): Promise<void> {
+    this.signingKey = clone(key);
+  }
+
+  async findRevocation(documentId: string): Promise<number | null> {
+    return this.revocations.get(documentId) ?? null;
+  }
+
+  async revokeDocument(documentId: string, revokedAt: number): Promise<void> {
+    this.revocations.set(documentId, revokedAt);
+  }
+}
+
+export class InMemoryAccessEventRepository implements AccessEventRepository {
+  private readonly events: AccessEvent[] = [];
+
+  async append(event: NewAccessEvent): Promise<AccessEvent> {
+    const record: AccessEvent = { ...clone(event), id: crypto.randomUUID() };
+    this.events.push(record);
+    return clone(record);
+  }
+
+  async listByOwner(ownerId: string, query: AccessEventQuery): Promise<{ events: AccessEvent[]; nextCursor: string | null }> {
+    const matching = this.events
+      .filter(event => event.ownerId === ownerId
+        && (!query.documentId || event.documentId === query.documentId)
+        && (!query.channel || event.channel === query.channel)
+        && (!query.outcome || event.outcome === query.outcome)
+        && (query.from === undefined || event.occurredAt >= query.from)
+        && (query.to === undefined || event.occurredAt <= query.to))
+      // Stable newest-first order (insertion order breaks ties)
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => b.event.occurredAt - a.event.occurredAt || b.index - a.index)
+      .map(({ event }) => event);
+
+    const start = query.cursor ? matching.findIndex(event => event.id === query.cursor) + 1 : 0;
+    const page = matching.slice(start, start + query.limit);
+
+    return {
+      events: page.map(clone),
+      nextCursor: start + query.limit < matching.length ? page[page.length - 1].id : null
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  AccessEvent,
+  AccessEventQuery,
+  ContentBlob,
+  DocumentPosition,
+  DocumentShare,
+  DocumentSort,
+  DocumentSummary,
+  DocumentVersion,
+  DownloadSigningKey,
+  Folder,
+  FolderUpdate,
+  NewAccessEvent,
+  NewDocumentShare,
+  NewDocumentVersion,
+  NewFolder,
+  NewSecurityAlert,
+  NewUploadSession,
+  NewUser,
+  NewWalletDocument,
+  PinAttemptState,
+  QuotaUsage,
+  SearchEntry,
+  SecurityAlert,
+  UploadSession,
+  User,
+  UserUpdate,
+  WalletDocument
+} from '../models';
+
+export interface UserRepository {
+  findById(uid: string): Promise<User | null>;
+
+  /**
+   * Page through users, optionally filtered by email prefix.
+   * The cursor is the uid of the last user on the previous page.
+   */
+  search(options: { emailPrefix?: string; limit: number; cursor?: string }): Promise<{ users: User[]; nextCursor: string | null }>;
+
+  /** Create the user record. Without a uid an ID is generated. */
+  create(user: NewUser): Promise<User>;
+
+  /** Update the given fields and bump updatedAt. Rejects when the user does not exist. */
+  update(uid: string, fields: UserUpdate): Promise<void>;
+
+  delete(uid: string): Promise<void>;
+
+  /**
+   * Atomically set the quota counters (totalSize and the upload reservations) from the user's current record,
+   * stamping totalSizeUpdatedAt when any of them changes.
+   * Errors thrown by `mutate` abort without writing. Rejects when the user does not exist.
+   * Resolves the new counters.
+   */
+  modifyQuotaUsage(uid: string, mutate: (current: User) => QuotaUsage): Promise<QuotaUsage>;
+
+  /** Append a summary to the user's documents array */
+  addDocumentSummary(uid: string, summary: DocumentSummary): Promise<void>;
+
+  /** Drop a document (summary or legacy string ID) from the documents array */
+  removeDocumentSummary(uid: string, documentId: string): Promise<void>;
+
+  /**
+   * Set isDocShow on one entry, converting legacy string IDs to summaries.
+   * Resolves false when the document is not in the user's array.
+   */
+  setDocumentVisibility(uid: string, documentId: string, isDocShow: boolean): Promise<boolean>;
+
+  /**
+   * Merge fields into one entry (converting a legacy string ID).
+   * Resolves false when the document is not in the user's array.
+   */
+  updateDocumentSummary(uid: string, documentId: string, fields: Partial<Omit<DocumentSummary, 'docId'>>): Promise<boolean>;
+}
+
+export interface DocumentRepository {
+  findById(id: string): Promise<WalletDocument | null>;
+
+  /** All documents owned by the user, newest first */
+  listByUser(userId: string): Promise<WalletDocument[]>;
+
+  /**
+   * Up to `limit` of the user's documents in the given order, starting after a position
+   * (see DocumentPosition) - callers page through by passing the last document's position
+   */
+  listByUserSorted(
+    userId: string,
+    sort: DocumentSort,
+    options: { after?: DocumentPosition; limit: number }
+  ): Promise<WalletDocument[]>;
+
+  /** Trashed documents (of every user) moved to the trash at or before the cutoff (epoch ms) */
+  listTrashedBefore(cutoff: number): Promise<WalletDocument[]>;
+
+  create(document: NewWalletDocument): Promise<WalletDocument>;
+
+  update(id: string, fields: Partial<NewWalletDocument>): Promise<void>;
+
+  /** Atomically read-modify-write a document. Resolves null when it does not exist. */
+  modify(id: string, mutate: (current: WalletDocument) => WalletDocument): Promise<WalletDocument | null>;
+
+  delete(id: string): Promise<void>;
+}
+
+export interface DocumentVersionRepository {
+  create(version: NewDocumentVersion): Promise<DocumentVersion>;
+
+  find(documentId: string, version: number): Promise<DocumentVersion | null>;
+
+  /** Versions of the document, newest first */
+  listByDocument(documentId: string): Promise<DocumentVersion[]>;
+
+  update(documentId: string, version: number, fields: Partial<NewDocumentVersion>): Promise<void>;
+
+  delete(documentId: string, version: number): Promise<void>;
+
+  /** Atomically delete a version and resolve it - null when it was already gone, so only one caller gets it */
+  take(documentId: string, version: number): Promise<DocumentVersion | null>;
+}
+
+export interface FolderRepository {
+  findById(id: string): Promise<Folder | null>;
+
+  /** Every folder of the user (all levels), ordered by name */
+  listByUser(userId: string): Promise<Folder[]>;
+
+  create(folder: NewFolder): Promise<Folder>;
+
+  update(id: string, fields: FolderUpdate): Promise<void>;
+
+  delete(id: string): Promise<void>;
+}
+
+export interface PinAttemptRepository {
+  get(key: string): Promise<PinAttemptState | null>;
+
+  /** Atomically read-modify-write the counter for a key */
+  modify(key: string, mutate: (current: PinAttemptState | null) => PinAttemptState): Promise<PinAttemptState>;
+
+  delete(key: string): Promise<void>;
+}
+
+export interface SearchIndexRepository {
+  /** Entries of every indexed document of the user */
+  listByUser(userId: string): Promise<SearchEntry[]>;
+
+  /** Create or replace a document's entry */
+  put(entry: SearchEntry): Promise<void>;
+
+  delete(documentId: string): Promise<void>;
+}
+
+export interface SecurityAlertRepository {
+  create(alert: NewSecurityAlert): Promise<SecurityAlert>;
+
+  findById(id: string): Promise<SecurityAlert | null>;
+
+  /** Alerts for the user, newest first */
+  listByUser(userId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<SecurityAlert[]>;
+
+  markRead(id: string): Promise<void>;
+}
+
+export interface ShareRepository {
+  create(share: NewDocumentShare): Promise<DocumentShare>;
+
+  findById(id: string): Promise<DocumentShare | null>;
+
+  /** Shares created by the user, newest first */
+  listByUser(userId: string): Promise<DocumentShare[]>;
+
+  /** Atomically read-modify-write a share. Resolves null when it does not exist. */
+  modify(id: string, mutate: (current: DocumentShare) => DocumentShare): Promise<DocumentShare | null>;
+}
+
+export interface UploadSessionRepository {
+  findById(id: string): Promise<UploadSession | null>;
+
+  /** Sessions of the user, oldest first (expired ones included until they are cleaned up) */
+  listByUser(userId: string): Promise<UploadSession[]>;
+
+  /** Sessions (of every user) that expired at or before the cutoff (epoch ms) */
+  listExpiredBefore(cutoff: number): Promise<UploadSession[]>;
+
+  create(session: NewUploadSession): Promise<UploadSession>;
+
+  /** Atomically read-modify-write a session. Resolves null when it does not exist. */
+  modify(id: string, mutate: (current: UploadSession) => UploadSession): Promise<UploadSession | null>;
+
+  delete(id: string): Promise<void>;
+}
+
+export interface ContentBlobRepository {
+  findById(id: string): Promise<ContentBlob | null>;
+
+  /** Blobs of the user, in no particular order */
+  listByUser(userId: string): Promise<ContentBlob[]>;
+
+  /**
+   * Atomically read-modify-write a blob. Returning null from mutate deletes it.
+   * Resolves the stored blob, or null when there is none afterwards.
+   */
+  modify(id: string, mutate: (current: ContentBlob | null) => ContentBlob | null): Promise<ContentBlob | null>;
+}
+
+/**
+ * Backing store for download tokens. Tokens themselves are never stored - only the key they are
+ * signed with and the per-document revocations.
+ */
+export interface DownloadTokenRepository {
+  /** The current signing key, atomically storing `candidate` first when there is none yet */
+  getSigningKey(candidate: DownloadSigningKey): Promise<DownloadSigningKey>;
+
+  /** Replace the signing key */
+  setSigningKey(key: DownloadSigningKey): Promise<void>;
+
+  /** When the document's tokens were last revoked (epoch ms), or null when they never were */
+  findRevocation(documentId: string): Promise<number | null>;
+
+  /** Revoke every token for the document issued up to `revokedAt` */
+  revokeDocument(documentId: string, revokedAt: number): Promise<void>;
+}
+
+/**
+ * Append-only store - events are never updated or deleted through this interface
+ */
+export interface AccessEventRepository {
+  append(event: NewAccessEvent): Promise<AccessEvent>;
+
+  /** Events for the owner matching the query, newest first, plus the cursor for the next page */
+  listByOwner(ownerId: string, query: AccessEventQuery): Promise<{ events: AccessEvent[]; nextCursor: string | null }>;
+}
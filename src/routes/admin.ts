@@ -0,0 +1,288 @@
+import { Router, Response } from 'express';
+import { admin } from '../config/firebase';
+import { BadRequestError, NotFoundError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { toPublicUser } from '../models';
+import { getUserRepository } from '../repositories';
+import {
+  consistencyCheckSchema,
+  quarantinedFileSchema,
+  searchUsersSchema,
+  updatePlanSchema,
+  updateRoleSchema,
+  userIdSchema
+} from '../schemas/admin';
+import { checkUserConsistency } from '../services/consistency';
+import { rotateSigningKey } from '../services/downloadTokens';
+import { listQuarantinedFiles, removeQuarantinedFile } from '../services/malwareScan';
+import { planFor } from '../services/quota';
+import { measureUsage, ReconcileOutcome, reconcileUserUsage } from '../services/usage';
+import { validate } from '../validation';
+
+const router = Router();
+
+// Every admin route requires an authenticated user with the admin role claim
+router.use(authenticateToken, requireRole('admin'));
+
+// Firebase "user not found" errors are rendered as 404 USER_NOT_FOUND by the error handler
+
+// Search users by email prefix (paginated)
+router.get('/users', validate(searchUsersSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const limit = Number(req.query.limit ?? 25);
+  const emailPrefix = (req.query.q as string | undefined) || undefined;
+  const cursor = (req.query.cursor as string | undefined) || undefined;
+
+  const { users, nextCursor } = await getUserRepository().search({ emailPrefix, limit, cursor });
+
+  return res.status(200).json({
+    success: true,
+    data: users.map(user => ({
+      uid: user.uid,
+      email: user.email,
+      displayName: user.displayName,
+      totalSize: user.totalSize,
+      plan: planFor(user).id,
+      documentCount: user.documents.length,
+      suspended: user.suspended === true,
+      createdAt: user.createdAt
+    })),
+    count: users.length,
+    nextCursor
+  });
+}));
+
+// User detail with auth status and storage usage
+router.get('/users/:uid', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+  const user = await getUserRepository().findById(uid);
+
+  if (!user) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  let authRecord: admin.auth.UserRecord | null = null;
+  try {
+    authRecord = await admin.auth().getUser(uid);
+  } catch (error: any) {
+    if (error.code !== 'auth/user-not-found') {
+      throw error;
+    }
+  }
+
+  const { documentsSize, profilePictureSize, quarantinedSize, documentCount, totalSize } = await measureUsage(user);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...toPublicUser(user),
+      auth: authRecord
+        ? {
+          disabled: authRecord.disabled,
+          emailVerified: authRecord.emailVerified,
+          customClaims: authRecord.customClaims || {},
+          lastSignInTime: authRecord.metadata.lastSignInTime,
+          creationTime: authRecord.metadata.creationTime,
+          tokensValidAfterTime: authRecord.tokensValidAfterTime
+        }
+        : null,
+      storage: {
+        recordedTotalSize: user.totalSize,
+        documentsSize,
+        profilePictureSize,
+        quarantinedSize,
+        actualTotalSize: totalSize,
+        documentCount
+      }
+    }
+  });
+}));
+
+// Suspend a user - disables the auth user and revokes their sessions
+router.post('/users/:uid/suspend', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+
+  if (uid === req.user?.uid) {
+    throw new BadRequestError('You cannot suspend your own account', 'CANNOT_SUSPEND_SELF');
+  }
+
+  await admin.auth().updateUser(uid, { disabled: true });
+  await admin.auth().revokeRefreshTokens(uid);
+
+  const users = getUserRepository();
+  if (await users.findById(uid)) {
+    await users.update(uid, { suspended: true, suspendedAt: new Date() });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'User suspended successfully',
+    data: { uid, suspended: true }
+  });
+}));
+
+// Reactivate a suspended user
+router.post('/users/:uid/reactivate', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+
+  await admin.auth().updateUser(uid, { disabled: false });
+
+  const users = getUserRepository();
+  if (await users.findById(uid)) {
+    await users.update(uid, { suspended: false, suspendedAt: null });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'User reactivated successfully',
+    data: { uid, suspended: false }
+  });
+}));
+
+// Force logout - revoke every refresh token so existing sessions end
+router.post('/users/:uid/force-logout', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+
+  await admin.auth().revokeRefreshTokens(uid);
+
+  const users = getUserRepository();
+  if (await users.findById(uid)) {
+    await users.update(uid, { lastLogoutAt: new Date() });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'All sessions for this user have been revoked'
+  });
+}));
+
+const RECONCILE_MESSAGES: Record<ReconcileOutcome, string> = {
+  IN_SYNC: 'Storage usage is correct',
+  CORRECTED: 'Storage usage corrected',
+  SKIPPED: 'Storage usage is changing - try again later'
+};
+
+// Recompute the user's totalSize from what they actually store, correcting any drift
+// (left alone with outcome SKIPPED while the counter is still changing)
+router.post('/users/:uid/reconcile-usage', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+  const user = await getUserRepository().findById(uid);
+
+  if (!user) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  const drift = await reconcileUserUsage(user);
+
+  return res.status(200).json({
+    success: true,
+    message: RECONCILE_MESSAGES[drift.outcome],
+    data: drift
+  });
+}));
+
+// The user's infected uploads kept in quarantine - still counted towards their quota
+router.get('/users/:uid/quarantine', validate(userIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+
+  if (!(await getUserRepository().findById(uid))) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  const files = await listQuarantinedFiles(uid);
+
+  return res.status(200).json({
+    success: true,
+    data: files,
+    count: files.length
+  });
+}));
+
+// Delete a quarantined upload and give its bytes back to the user's quota
+router.delete('/users/:uid/quarantine/:fileId', validate(quarantinedFileSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid, fileId } = req.params;
+  const freedSize = await removeQuarantinedFile(uid, fileId);
+
+  if (freedSize === null) {
+    throw new NotFoundError('Quarantined file not found', 'QUARANTINED_FILE_NOT_FOUND');
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Quarantined file deleted',
+    data: { uid, fileId, freedSize }
+  });
+}));
+
+// Compare the user's stored objects with their documents, profile picture and documents array.
+// Reports only, unless repair is set.
+router.post('/users/:uid/consistency-check', validate(consistencyCheckSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+  const repair = req.body.repair === true;
+  const user = await getUserRepository().findById(uid);
+
+  if (!user) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  const inconsistencies = await checkUserConsistency(user, { repair });
+
+  return res.status(200).json({
+    success: true,
+    data: { uid, repair, inconsistencies },
+    count: inconsistencies.length
+  });
+}));
+
+// Move a user to another storage plan. Nothing is deleted when the new plan is smaller -
+// uploads are refused until the user is back within its limits.
+router.put('/users/:uid/plan', validate(updatePlanSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+  const { plan } = req.body;
+  const users = getUserRepository();
+
+  if (!(await users.findById(uid))) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  await users.update(uid, { plan });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Storage plan updated',
+    data: { uid, plan }
+  });
+}));
+
+// Grant or remove a role (role: 'admin' or null). The user must sign in again to pick it up.
+router.put('/users/:uid/role', validate(updateRoleSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { uid } = req.params;
+  const { role } = req.body;
+
+  if (uid === req.user?.uid && role === null) {
+    throw new BadRequestError('You cannot remove your own admin role', 'CANNOT_REMOVE_OWN_ROLE');
+  }
+
+  const authRecord = await admin.auth().getUser(uid);
+  const { role: _previousRole, ...otherClaims } = authRecord.customClaims || {};
+  await admin.auth().setCustomUserClaims(uid, role ? { ...otherClaims, role } : otherClaims);
+
+  return res.status(200).json({
+    success: true,
+    message: role ? `Role ${role} granted` : 'Role removed',
+    data: { uid, role }
+  });
+}));
+
+// Rotate the download token signing key - every download URL handed out so far stops working
+router.post('/download-tokens/rotate-key', asyncHandler(async (_req: AuthRequest, res: Response) => {
+  const { keyId, rotatedAt } = await rotateSigningKey();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Download token signing key rotated',
+    data: { keyId, rotatedAt: new Date(rotatedAt).toISOString() }
+  });
+}));
+
+export default router;
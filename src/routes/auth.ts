@@ -1,24 +1,48 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { admin } from '../config/firebase';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
-
-// Maximum storage quota per user (50MB)
-const MAX_STORAGE_SIZE = 50 * 1024 * 1024; // 50MB in bytes
+import { PROFILE_PICTURE_MAX_SIZE, PROFILE_PICTURE_MIME_TYPES } from '../config/storage';
+import {
+  AuthenticationError,
+  BadRequestError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+  UnsupportedMediaTypeError
+} from '../errors';
+import { AccessPolicy, accessDeniedError, authorize, credentialsFromRequest } from '../middleware/accessPolicy';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticateToken, AuthRequest, verifyActiveIdToken } from '../middleware/auth';
+import { toPublicUser, UserUpdate } from '../models';
+import { getUserRepository } from '../repositories';
+import {
+  loginSchema,
+  logoutSchema,
+  profilePictureByUserSchema,
+  registerSchema,
+  updateProfileSchema,
+  verifyTokenSchema
+} from '../schemas/auth';
+import { hashPin } from '../services/pin';
+import { adjustTotalSize, reserveQuota } from '../services/quota';
+import { versionLimitFor } from '../services/versions';
+import { getStorageProvider } from '../storage';
+import { publicBaseUrl } from '../utils/env';
+import { decodeMultipartFileName, extensionFor, normalizeFileName, verifyFileType } from '../utils/fileType';
+import { sendStoredFile } from '../utils/storedFile';
+import { validate } from '../validation';
 
 // Configure multer for profile picture uploads
 const profilePictureUpload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit for profile pictures
+    fileSize: PROFILE_PICTURE_MAX_SIZE
   },
   fileFilter: (_req, file, cb) => {
-    // Allow only image types
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (PROFILE_PICTURE_MIME_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only JPEG, PNG, and WebP images are allowed.'));
+      cb(new UnsupportedMediaTypeError('Invalid file type. Only JPEG, PNG, and WebP images are allowed.'));
     }
   }
 });
@@ -29,7 +53,10 @@ interface RegisterRequest {
   email: string;
   password: string;
   displayName?: string;
-  [key: string]: any;
+  masterPin?: string;
+  mobileNumber?: string;
+  QR?: string;
+  name?: string;
 }
 
 interface LoginRequest {
@@ -38,807 +65,468 @@ interface LoginRequest {
 }
 
 // Register - Create new user
-router.post('/register', async (req: Request, res: Response) => {
-  try {
-    const { email, password, displayName, ...additionalData }: RegisterRequest = req.body;
-
-    // Validation
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        message: 'Email and password are required'
-      });
-    }
+router.post('/register', validate(registerSchema), asyncHandler(async (req: Request, res: Response) => {
+  // Only the profile fields in registerSchema are accepted - quota counters, plans (assigned by admins)
+  // and settings such as maxDocumentVersions start at their defaults
+  const { email, password, displayName, masterPin, mobileNumber, QR, name }: RegisterRequest = req.body;
 
-    if (password.length < 6) {
-      return res.status(400).json({
-        success: false,
-        message: 'Password must be at least 6 characters long'
-      });
+  // Check if user already exists
+  try {
+    const existingUser = await admin.auth().getUserByEmail(email);
+    if (existingUser) {
+      throw new ConflictError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
     }
-
-    // Check if user already exists
-    try {
-      const existingUser = await admin.auth().getUserByEmail(email);
-      if (existingUser) {
-        return res.status(409).json({
-          success: false,
-          message: 'User with this email already exists'
-        });
-      }
-    } catch (error: any) {
-      // User doesn't exist, which is what we want
-      if (error.code !== 'auth/user-not-found') {
-        throw error;
-      }
+  } catch (error: any) {
+    // User doesn't exist, which is what we want
+    if (error.code !== 'auth/user-not-found') {
+      throw error;
     }
+  }
 
-    // Create user in Firebase Authentication
-    const userRecord = await admin.auth().createUser({
-      email,
-      password,
-      displayName: displayName || email.split('@')[0],
-      emailVerified: false
-    });
-
-    // Store additional user data in Firestore
-    const db = admin.firestore();
-    const userData = {
+  // Create user in Firebase Authentication
+  const userRecord = await admin.auth().createUser({
+    email,
+    password,
+    displayName: displayName || email.split('@')[0],
+    emailVerified: false
+  });
+
+  // Store additional user data
+  await getUserRepository().create({
+    uid: userRecord.uid,
+    email: userRecord.email,
+    displayName: userRecord.displayName,
+    emailVerified: userRecord.emailVerified,
+    mobileNumber: mobileNumber || '',
+    masterPin: masterPin ? await hashPin(masterPin) : '',
+    QR: QR || '',
+    ...(name ? { name } : {}),
+    documents: [],
+    totalSize: 0
+  });
+
+  // Generate custom token for immediate use
+  const customToken = await admin.auth().createCustomToken(userRecord.uid);
+
+  return res.status(201).json({
+    success: true,
+    message: 'User registered successfully',
+    data: {
       uid: userRecord.uid,
       email: userRecord.email,
       displayName: userRecord.displayName,
-      emailVerified: userRecord.emailVerified,
-      mobileNumber: additionalData.mobileNumber || '',
-      masterPin: additionalData.masterPin || '',
-      QR: additionalData.QR || '',
-      documents: [],
-      totalSize: 0,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      ...additionalData
-    };
-
-    await db.collection('users').doc(userRecord.uid).set(userData);
-
-    // Generate custom token for immediate use
-    const customToken = await admin.auth().createCustomToken(userRecord.uid);
-
-    return res.status(201).json({
-      success: true,
-      message: 'User registered successfully',
-      data: {
-        uid: userRecord.uid,
-        email: userRecord.email,
-        displayName: userRecord.displayName,
-        token: customToken
-      }
-    });
-  } catch (error: any) {
-    console.error('Error registering user:', error);
-    
-    // Handle specific Firebase errors
-    if (error.code === 'auth/email-already-exists') {
-      return res.status(409).json({
-        success: false,
-        message: 'User with this email already exists'
-      });
-    }
-    
-    if (error.code === 'auth/invalid-email') {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid email address'
-      });
+      token: customToken
     }
-
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to register user'
-    });
-  }
-});
+  });
+}));
 
 // Login - Authenticate existing user
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', validate(loginSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { email, password }: LoginRequest = req.body;
+
+  // Get user by email first to check if user exists
+  let userRecord;
   try {
-    const { email, password }: LoginRequest = req.body;
-
-    // Validation
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        message: 'Email and password are required'
-      });
+    userRecord = await admin.auth().getUserByEmail(email);
+  } catch (error: any) {
+    if (error.code === 'auth/user-not-found') {
+      throw new AuthenticationError('Invalid email or password', 'INVALID_CREDENTIALS');
     }
+    throw error;
+  }
 
-    // Get user by email first to check if user exists
-    let userRecord;
-    try {
-      userRecord = await admin.auth().getUserByEmail(email);
-    } catch (error: any) {
-      if (error.code === 'auth/user-not-found') {
-        return res.status(401).json({
-          success: false,
-          message: 'Invalid email or password'
-        });
-      }
-      throw error;
-    }
+  // Verify password using Firebase REST API
+  const apiKey = process.env.FIREBASE_API_KEY;
+  if (!apiKey) {
+    throw new InternalError('Firebase API key not configured', 'AUTH_NOT_CONFIGURED');
+  }
 
-    // Verify password using Firebase REST API
-    const apiKey = process.env.FIREBASE_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase API key not configured'
-      });
-    }
+  // Use Firebase REST API to verify email/password
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        email: email,
+        password: password,
+        returnSecureToken: true
+      })
+    }
+  );
+
+  const data: any = await response.json();
+
+  if (!response.ok) {
+    // Handle authentication errors
+    const reason: string = data.error?.message || '';
+    if (reason.includes('INVALID_PASSWORD') || reason.includes('EMAIL_NOT_FOUND') || reason.includes('INVALID_LOGIN_CREDENTIALS')) {
+      throw new AuthenticationError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+    throw new Error(reason || 'Authentication failed');
+  }
 
-    try {
-      // Use Firebase REST API to verify email/password
-      const response = await fetch(
-        `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            email: email,
-            password: password,
-            returnSecureToken: true
-          })
-        }
-      );
-
-      const data: any = await response.json();
-
-      if (!response.ok) {
-        // Handle authentication errors
-        if (data.error?.message === 'INVALID_PASSWORD' || data.error?.message === 'EMAIL_NOT_FOUND') {
-          return res.status(401).json({
-            success: false,
-            message: 'Invalid email or password'
-          });
-        }
-        throw new Error(data.error?.message || 'Authentication failed');
-      }
+  // Password is correct - we have the ID token from Firebase
+  const idToken: string = data.idToken;
 
-      // Password is correct - we have the ID token from Firebase
-      const idToken: string = data.idToken;
-      
-      // Verify the ID token to get user info
-      const decodedToken = await admin.auth().verifyIdToken(idToken);
+  // Verify the ID token to get user info
+  const decodedToken = await admin.auth().verifyIdToken(idToken);
 
-      // Get user data from Firestore
-      const db = admin.firestore();
-      const userDoc = await db.collection('users').doc(decodedToken.uid).get();
-      const userData = userDoc.exists ? userDoc.data() : {};
-
-      // Update last login
-      await db.collection('users').doc(decodedToken.uid).update({
-        lastLoginAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp()
-      });
-
-      return res.status(200).json({
-        success: true,
-        message: 'Login successful',
-        data: {
-          uid: decodedToken.uid,
-          email: decodedToken.email,
-          displayName: userRecord.displayName,
-          emailVerified: decodedToken.email_verified,
-          token: idToken, // Return the verified ID token
-          ...userData
-        }
-      });
-    } catch (authError: any) {
-      // Handle password verification errors
-      if (authError.message?.includes('INVALID_PASSWORD') || authError.message?.includes('EMAIL_NOT_FOUND')) {
-        return res.status(401).json({
-          success: false,
-          message: 'Invalid email or password'
-        });
-      }
-      throw authError;
-    }
-  } catch (error: any) {
-    console.error('Error logging in:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to login'
-    });
-  }
-});
+  // Get user data
+  const users = getUserRepository();
+  const user = await users.findById(decodedToken.uid);
+  const userData = user ? toPublicUser(user) : {};
 
-// Verify ID Token (for client-side authentication)
-router.post('/verify-token', async (req: Request, res: Response) => {
-  try {
-    const { idToken } = req.body;
+  // Update last login
+  await users.update(decodedToken.uid, {
+    lastLoginAt: new Date()
+  });
 
-    if (!idToken) {
-      return res.status(400).json({
-        success: false,
-        message: 'ID token is required'
-      });
+  return res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      uid: decodedToken.uid,
+      email: decodedToken.email,
+      displayName: userRecord.displayName,
+      emailVerified: decodedToken.email_verified,
+      token: idToken, // Return the verified ID token
+      ...userData
     }
+  });
+}));
 
-    // Verify the ID token
-    const decodedToken = await admin.auth().verifyIdToken(idToken);
-    
-    // Check if token was revoked by checking user's tokensValidAfterTime
-    const userRecord = await admin.auth().getUser(decodedToken.uid);
-    
-    // If tokensValidAfterTime exists and is after the token's auth_time, token is revoked
-    if (userRecord.tokensValidAfterTime) {
-      const tokenAuthTime = decodedToken.auth_time * 1000; // Convert to milliseconds
-      const revokedTimeValue = userRecord.tokensValidAfterTime as any;
-      const revokedTime = revokedTimeValue instanceof Date 
-        ? revokedTimeValue.getTime() 
-        : new Date(revokedTimeValue).getTime();
-      
-      if (tokenAuthTime < revokedTime) {
-        return res.status(401).json({
-          success: false,
-          message: 'Token has been revoked. Please login again.'
-        });
-      }
+// Verify ID Token (for client-side authentication)
+router.post('/verify-token', validate(verifyTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { idToken } = req.body;
+
+  // Verify the ID token and that it was not revoked (any verification failure is reported as 401)
+  const decodedToken = await verifyActiveIdToken(idToken).catch((error: any) => {
+    if (error instanceof AuthenticationError) {
+      throw error;
     }
-    
-    // Get user data from Firestore
-    const db = admin.firestore();
-    const userDoc = await db.collection('users').doc(decodedToken.uid).get();
-    const userData = userDoc.exists ? userDoc.data() : {};
-
-    return res.status(200).json({
-      success: true,
-      data: {
-        uid: decodedToken.uid,
-        email: decodedToken.email,
-        ...userData
-      }
-    });
-  } catch (error: any) {
     console.error('Error verifying token:', error);
-    
-    if (error.code === 'auth/id-token-expired') {
-      return res.status(401).json({
-        success: false,
-        message: 'Token has expired'
-      });
-    }
-    
-    if (error.code === 'auth/id-token-revoked') {
-      return res.status(401).json({
-        success: false,
-        message: 'Token has been revoked'
-      });
-    }
+    throw error.code === 'auth/id-token-expired'
+      ? new AuthenticationError('Token has expired', 'TOKEN_EXPIRED')
+      : new AuthenticationError('Invalid token', 'INVALID_TOKEN');
+  });
 
-    return res.status(401).json({
-      success: false,
-      message: 'Invalid token'
-    });
-  }
-});
+  // Get user data
+  const user = await getUserRepository().findById(decodedToken.uid);
+  const userData = user ? toPublicUser(user) : {};
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      uid: decodedToken.uid,
+      email: decodedToken.email,
+      ...userData
+    }
+  });
+}));
 
 // Logout - Revoke user tokens
-router.post('/logout', async (req: Request, res: Response) => {
-  try {
-    const { uid, idToken } = req.body;
+router.post('/logout', validate(logoutSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { uid, idToken } = req.body;
 
-    if (!uid && !idToken) {
-      return res.status(400).json({
-        success: false,
-        message: 'User ID or ID token is required'
-      });
-    }
+  if (!uid && !idToken) {
+    throw new BadRequestError('User ID or ID token is required', 'USER_ID_REQUIRED');
+  }
 
-    let userId = uid;
-
-    // If ID token is provided, verify it and get the UID
-    if (idToken && !uid) {
-      try {
-        const decodedToken = await admin.auth().verifyIdToken(idToken);
-        userId = decodedToken.uid;
-      } catch (error: any) {
-        return res.status(401).json({
-          success: false,
-          message: 'Invalid token'
-        });
-      }
+  let userId = uid;
+
+  // If ID token is provided, verify it and get the UID
+  if (idToken && !uid) {
+    try {
+      const decodedToken = await admin.auth().verifyIdToken(idToken);
+      userId = decodedToken.uid;
+    } catch {
+      throw new AuthenticationError('Invalid token', 'INVALID_TOKEN');
     }
+  }
 
-    // Revoke all refresh tokens for the user
-    await admin.auth().revokeRefreshTokens(userId);
+  // Revoke all refresh tokens for the user
+  await admin.auth().revokeRefreshTokens(userId);
 
-    // Update last logout in Firestore
-    const db = admin.firestore();
-    await db.collection('users').doc(userId).update({
-      lastLogoutAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+  // Update last logout
+  await getUserRepository().update(userId, {
+    lastLogoutAt: new Date()
+  });
 
-    return res.status(200).json({
-      success: true,
-      message: 'Logout successful. All tokens have been revoked.'
-    });
-  } catch (error: any) {
-    console.error('Error logging out:', error);
-    
-    if (error.code === 'auth/user-not-found') {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
+  return res.status(200).json({
+    success: true,
+    message: 'Logout successful. All tokens have been revoked.'
+  });
+}));
 
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to logout'
-    });
+// Get current user info
+router.get('/me', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
   }
-});
 
-// Get current user info
-router.get('/me', async (req: Request, res: Response) => {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader) {
-      return res.status(401).json({
-        success: false,
-        message: 'Authorization token required'
-      });
-    }
+  // Get user data
+  const user = await getUserRepository().findById(req.user.uid);
+  const userData = user ? toPublicUser(user) : {};
 
-    // Handle different Bearer token formats
-    const bearerMatch = authHeader.match(/^Bearer\s+(.+)$/i);
-    if (!bearerMatch) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid authorization format. Expected: Bearer <token>'
-      });
+  return res.status(200).json({
+    success: true,
+    data: {
+      uid: req.user.uid,
+      email: req.user.email,
+      emailVerified: req.user.email_verified,
+      ...userData
     }
+  });
+}));
 
-    const idToken = bearerMatch[1].trim();
+// Update user details (only changed fields)
+router.put('/update-profile', authenticateToken, validate(updateProfileSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Validate token format (JWT should have 3 parts separated by dots)
-    if (!idToken || idToken.split('.').length !== 3) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid token format. Token must be a valid JWT.'
-      });
-    }
-    
-    // Verify the ID token
-    const decodedToken = await admin.auth().verifyIdToken(idToken);
-    
-    // Get user data from Firestore
-    const db = admin.firestore();
-    const userDoc = await db.collection('users').doc(decodedToken.uid).get();
-    const userData = userDoc.exists ? userDoc.data() : {};
-
-    return res.status(200).json({
-      success: true,
-      data: {
-        uid: decodedToken.uid,
-        email: decodedToken.email,
-        emailVerified: decodedToken.email_verified,
-        ...userData
-      }
-    });
-  } catch (error: any) {
-    console.error('Error getting user info:', error);
-    
-    if (error.code === 'auth/id-token-expired') {
-      return res.status(401).json({
-        success: false,
-        message: 'Token has expired'
-      });
+  const userId = req.user.uid;
+  const updateData = req.body;
+
+  // Remove fields that shouldn't be updated directly
+  const allowedFields = [
+    'displayName',
+    'mobileNumber',
+    'masterPin',
+    'QR',
+    'maxDocumentVersions'
+  ];
+
+  // Filter only allowed fields that are provided
+  const fieldsToUpdate: UserUpdate = {};
+  for (const field of allowedFields) {
+    if (updateData[field] !== undefined && updateData[field] !== null) {
+      fieldsToUpdate[field] = updateData[field];
     }
+  }
 
-    return res.status(401).json({
-      success: false,
-      message: 'Invalid or missing token'
-    });
+  // If no valid fields to update
+  if (Object.keys(fieldsToUpdate).length === 0) {
+    throw new BadRequestError(
+      'No valid fields to update. Allowed fields: displayName, mobileNumber, masterPin, QR, maxDocumentVersions',
+      'NO_FIELDS_TO_UPDATE'
+    );
   }
-});
 
-// Update user details (only changed fields)
-router.put('/update-profile', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
-    }
+  // Master pin is stored hashed
+  if (fieldsToUpdate.masterPin !== undefined) {
+    fieldsToUpdate.masterPin = await hashPin(fieldsToUpdate.masterPin);
+  }
 
-    const userId = req.user.uid;
-    const updateData = req.body;
-
-    // Remove fields that shouldn't be updated directly
-    const allowedFields = [
-      'displayName',
-      'mobileNumber',
-      'masterPin',
-      'QR'
-    ];
-
-    // Filter only allowed fields that are provided
-    const fieldsToUpdate: any = {};
-    for (const field of allowedFields) {
-      if (updateData[field] !== undefined && updateData[field] !== null) {
-        fieldsToUpdate[field] = updateData[field];
-      }
-    }
+  // Update user document (updatedAt is set by the repository)
+  const users = getUserRepository();
+  await users.update(userId, fieldsToUpdate);
+
+  // Get updated user data
+  const updatedUser = await users.findById(userId);
+  const updatedUserData = updatedUser ? toPublicUser(updatedUser) : null;
+
+  return res.status(200).json({
+    success: true,
+    message: 'Profile updated successfully',
+    data: {
+      uid: userId,
+      email: updatedUserData?.email,
+      emailVerified: updatedUserData?.emailVerified,
+      hasMasterPin: updatedUserData?.hasMasterPin,
+      QR: updatedUserData?.QR,
+      name: updatedUserData?.name,
+      totalSize: updatedUserData?.totalSize,
+      displayName: updatedUserData?.displayName,
+      mobileNumber: updatedUserData?.mobileNumber,
+      maxDocumentVersions: versionLimitFor(updatedUser),
+      updatedAt: updatedUserData?.updatedAt,
+      createdAt: updatedUserData?.createdAt
+    }
+  });
+}));
 
-    // If no valid fields to update
-    if (Object.keys(fieldsToUpdate).length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'No valid fields to update. Allowed fields: displayName, mobileNumber, masterPin, QR'
-      });
-    }
+// Update profile picture (upload image file)
+router.post('/update-profile-picture', authenticateToken, profilePictureUpload.single('profilePicture'), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Add updatedAt timestamp
-    fieldsToUpdate.updatedAt = admin.firestore.FieldValue.serverTimestamp();
-
-    // Update user document in Firestore
-    const db = admin.firestore();
-    const userRef = db.collection('users').doc(userId);
-    
-    await userRef.update(fieldsToUpdate);
-
-    // Get updated user data
-    const updatedUserDoc = await userRef.get();
-    const updatedUserData: any = updatedUserDoc.exists ? updatedUserDoc.data() : {};
-    const { email, emailVerified, masterPin, QR, name, totalSize, displayName, mobileNumber, updatedAt, createdAt } = updatedUserData;
-
-    return res.status(200).json({
-      success: true,
-      message: 'Profile updated successfully',
-      data: {
-        uid: userId,
-        email,
-        emailVerified,
-        masterPin,
-        QR,
-        name,
-        totalSize,
-        displayName,
-        mobileNumber,
-        updatedAt,
-        createdAt
-      }
-    });
-  } catch (error: any) {
-    console.error('Error updating profile:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to update profile'
-    });
+  if (!req.file) {
+    throw new BadRequestError('No image file uploaded', 'FILE_REQUIRED');
   }
-});
 
-// Update profile picture (upload image file)
-router.post('/update-profile-picture', authenticateToken, profilePictureUpload.single('profilePicture'), async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
-    }
+  const userId = req.user.uid;
+  const file = req.file;
 
-    if (!req.file) {
-      return res.status(400).json({
-        success: false,
-        message: 'No image file uploaded'
-      });
-    }
+  // The image's real type, which must agree with the declared one - the stored picture is named after it
+  const detectedType = verifyFileType(
+    file.buffer,
+    { fileName: normalizeFileName(decodeMultipartFileName(file.originalname)), mimeType: file.mimetype },
+    PROFILE_PICTURE_MIME_TYPES
+  );
+
+  const users = getUserRepository();
+  const userData = await users.findById(userId);
 
-    const userId = req.user.uid;
-    const file = req.file;
-
-    // Check storage quota before upload
-    const db = admin.firestore();
-    const userRef = db.collection('users').doc(userId);
-    const userDoc = await userRef.get();
-    const userData = userDoc.exists ? userDoc.data() : {};
-    const currentTotalSize = (userData && userData.totalSize) ? userData.totalSize : 0;
-    
-    // Get old profile picture size if exists
-    let oldProfilePictureSize = 0;
-    if (userData && userData.profilePicturePath) {
-      try {
-        const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = bucketName 
-          ? admin.storage().bucket(bucketName)
-          : admin.storage().bucket();
-        const oldFile = bucket.file(userData.profilePicturePath as string);
-        const [exists] = await oldFile.exists();
-        if (exists) {
-          const [metadata] = await oldFile.getMetadata();
-          const size = metadata.size || metadata.metadata?.size || '0';
-          oldProfilePictureSize = typeof size === 'string' ? parseInt(size, 10) : (typeof size === 'number' ? size : 0);
-        }
-      } catch (error) {
-        // If old file doesn't exist or can't be accessed, ignore
-        console.log('Could not get old profile picture size:', error);
+  // Get old profile picture size if exists
+  let oldProfilePictureSize = 0;
+  if (userData && userData.profilePicturePath) {
+    try {
+      const oldFileInfo = await getStorageProvider().stat(userData.profilePicturePath as string);
+      if (oldFileInfo) {
+        oldProfilePictureSize = oldFileInfo.size;
       }
+    } catch (error) {
+      // If old file doesn't exist or can't be accessed, ignore
+      console.log('Could not get old profile picture size:', error);
     }
+  }
 
-    // Calculate new total size (subtract old profile picture, add new one)
-    const newTotalSize = currentTotalSize - oldProfilePictureSize + file.size;
-
-    // Check if upload would exceed quota
-    if (newTotalSize > MAX_STORAGE_SIZE) {
-      const usedMB = (currentTotalSize / (1024 * 1024)).toFixed(2);
-      const maxMB = (MAX_STORAGE_SIZE / (1024 * 1024)).toFixed(0);
-      const fileMB = (file.size / (1024 * 1024)).toFixed(2);
-      const availableMB = ((MAX_STORAGE_SIZE - currentTotalSize) / (1024 * 1024)).toFixed(2);
-
-      return res.status(413).json({
-        success: false,
-        message: `Storage quota exceeded. You have used ${usedMB}MB of ${maxMB}MB. This profile picture (${fileMB}MB) would exceed your limit.`,
-        error: 'STORAGE_QUOTA_EXCEEDED',
-        data: {
-          currentSize: currentTotalSize,
-          maxSize: MAX_STORAGE_SIZE,
-          fileSize: file.size,
-          availableSpace: MAX_STORAGE_SIZE - currentTotalSize,
-          usedMB: parseFloat(usedMB),
-          maxMB: parseFloat(maxMB),
-          fileMB: parseFloat(fileMB),
-          availableMB: parseFloat(availableMB),
-          message: `Please delete some old documents to free up space. You have ${availableMB}MB available.`
-        }
-      });
-    }
+  // Check the quota and charge the new picture (the old one is released) in one transaction
+  // (space reserved by resumable uploads is taken)
+  await reserveQuota(userId, file.size, { label: 'profile picture', freedSize: oldProfilePictureSize });
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const fileExtension = file.originalname.split('.').pop() || 'jpg';
-    const fileName = `profile-pictures/${userId}/${timestamp}.${fileExtension}`;
-
-    // Upload to Firebase Storage
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
-    }
+  // Generate unique filename
+  const timestamp = Date.now();
+  const fileExtension = extensionFor(detectedType) || 'jpg';
+  const fileName = `profile-pictures/${userId}/${timestamp}.${fileExtension}`;
 
-    const fileUpload = bucket.file(fileName);
+  // Upload to storage
+  const storage = getStorageProvider();
 
-    await fileUpload.save(file.buffer, {
+  try {
+    await storage.put(fileName, file.buffer, {
+      contentType: detectedType,
       metadata: {
-        contentType: file.mimetype,
-        metadata: {
-          uploadedBy: userId,
-          uploadedAt: new Date().toISOString()
-        }
+        uploadedBy: userId,
+        uploadedAt: new Date().toISOString()
       }
     });
+  } catch (error) {
+    await adjustTotalSize(userId, oldProfilePictureSize - file.size).catch(() => undefined);
+    throw error;
+  }
 
-    // Generate signed URL
-    const [downloadURL] = await fileUpload.getSignedUrl({
-      action: 'read',
-      expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
-    });
-
-    // Update user profile picture and totalSize in Firestore
-    await userRef.update({
-      profilePicture: downloadURL,
-      profilePicturePath: fileName,
-      totalSize: newTotalSize, // Update totalSize (old profile picture removed, new one added)
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+  // Only the storage path is kept - the picture is streamed from GET /profile-picture, and the
+  // long-lived signed URL older pictures stored is cleared
+  await users.update(userId, {
+    profilePicture: '',
+    profilePicturePath: fileName
+  });
 
-    // Delete old profile picture from storage if it exists
-    if (userData && userData.profilePicturePath && oldProfilePictureSize > 0) {
-      try {
-        const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = bucketName 
-          ? admin.storage().bucket(bucketName)
-          : admin.storage().bucket();
-        const oldFile = bucket.file(userData.profilePicturePath);
-        await oldFile.delete();
-      } catch (error) {
-        // If deletion fails, log but don't fail the request
+  // Delete old profile picture from storage - even when its size could not be read
+  if (userData && userData.profilePicturePath && userData.profilePicturePath !== fileName) {
+    try {
+      await storage.delete(userData.profilePicturePath);
+    } catch (error: any) {
+      // If deletion fails, log but don't fail the request - the consistency check (`npm run storage:check`)
+      // finds pictures left behind
+      if (error?.code !== 404) {
         console.log('Could not delete old profile picture:', error);
       }
     }
-
-    return res.status(200).json({
-      success: true,
-      message: 'Profile picture updated successfully',
-      data: {
-        uid: userId,
-        profilePicture: downloadURL,
-      }
-    });
-  } catch (error: any) {
-    console.error('Error updating profile picture:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to update profile picture'
-    });
   }
-});
 
-// Get profile picture as base64 (to avoid CORS issues)
-router.get('/profile-picture-base64', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
+  return res.status(200).json({
+    success: true,
+    message: 'Profile picture updated successfully',
+    data: {
+      uid: userId,
+      profilePicture: `${publicBaseUrl()}/api/auth/profile-picture`
     }
+  });
+}));
 
-    const userId = req.user.uid;
-    const db = admin.firestore();
-    const userDoc = await db.collection('users').doc(userId).get();
+// Read a stored profile picture as a data URL
+const profilePictureAsBase64 = async (profilePicturePath: string | undefined) => {
+  if (!profilePicturePath) {
+    throw new NotFoundError('Profile picture not found', 'PROFILE_PICTURE_NOT_FOUND');
+  }
 
-    if (!userDoc.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
+  // Get file from storage
+  const storage = getStorageProvider();
+  const fileInfo = await storage.stat(profilePicturePath);
+
+  if (!fileInfo) {
+    throw new NotFoundError('Profile picture file not found in storage', 'PROFILE_PICTURE_NOT_FOUND');
+  }
 
-    const userData = userDoc.data();
-    const profilePicturePath = userData?.profilePicturePath;
+  // Download file as buffer
+  const fileBuffer = await storage.get(profilePicturePath);
+  const contentType = fileInfo.contentType || 'image/jpeg';
 
-    if (!profilePicturePath) {
-      return res.status(404).json({
-        success: false,
-        message: 'Profile picture not found'
-      });
-    }
+  // Convert buffer to base64
+  const base64String = fileBuffer.toString('base64');
 
-    // Get file from Firebase Storage
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
-    }
+  return {
+    base64: `data:${contentType};base64,${base64String}`,
+    contentType: contentType,
+    size: fileBuffer.length
+  };
+};
 
-    const file = bucket.file(profilePicturePath);
-    const [exists] = await file.exists();
+// Stream the caller's own profile picture, revalidated (ETag/Last-Modified) on every use
+router.get('/profile-picture', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    if (!exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'Profile picture file not found in storage'
-      });
-    }
+  const userData = await getUserRepository().findById(req.user.uid);
 
-    // Download file as buffer
-    const [fileBuffer] = await file.download();
-    
-    // Get file metadata for content type
-    const [metadata] = await file.getMetadata();
-    const contentType = metadata.contentType || 'image/jpeg';
-
-    // Convert buffer to base64
-    const base64String = fileBuffer.toString('base64');
-    const base64DataUrl = `data:${contentType};base64,${base64String}`;
-
-    return res.status(200).json({
-      success: true,
-      data: {
-        base64: base64DataUrl,
-        contentType: contentType,
-        size: fileBuffer.length
-      }
-    });
-  } catch (error: any) {
-    console.error('Error getting profile picture as base64:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to get profile picture'
-    });
+  if (!userData) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
   }
-});
 
-// Get profile picture as base64 by userId (open API - for QR scanning)
-router.get('/profile-picture-base64/:userId', async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.params;
+  if (!userData.profilePicturePath) {
+    throw new NotFoundError('Profile picture not found', 'PROFILE_PICTURE_NOT_FOUND');
+  }
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        message: 'User ID is required'
-      });
-    }
+  await sendStoredFile(req, res, userData.profilePicturePath, { contentType: 'image/jpeg' });
+}));
 
-    const db = admin.firestore();
-    const userDoc = await db.collection('users').doc(userId).get();
+// Get profile picture as base64 (to avoid CORS issues)
+router.get('/profile-picture-base64', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    if (!userDoc.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
+  const userData = await getUserRepository().findById(req.user.uid);
 
-    const userData = userDoc.data();
-    const profilePicturePath = userData?.profilePicturePath;
+  if (!userData) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
 
-    if (!profilePicturePath) {
-      return res.status(404).json({
-        success: false,
-        message: 'Profile picture not found'
-      });
-    }
+  return res.status(200).json({
+    success: true,
+    data: await profilePictureAsBase64(userData.profilePicturePath)
+  });
+}));
 
-    // Get file from Firebase Storage
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
-    }
+// Get profile picture as base64 by userId (open API - for QR scanning)
+// Intentionally public: the picture is shown to whoever scans the owner's QR code
+const PUBLIC_PROFILE_PICTURE_POLICY: AccessPolicy = { allow: ['public'] };
 
-    const file = bucket.file(profilePicturePath);
-    const [exists] = await file.exists();
+router.get('/profile-picture-base64/:userId', validate(profilePictureByUserSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { userId } = req.params;
+  const userData = await getUserRepository().findById(userId);
 
-    if (!exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'Profile picture file not found in storage'
-      });
-    }
+  if (!userData) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
 
-    // Download file as buffer
-    const [fileBuffer] = await file.download();
-    
-    // Get file metadata for content type
-    const [metadata] = await file.getMetadata();
-    const contentType = metadata.contentType || 'image/jpeg';
-
-    // Convert buffer to base64
-    const base64String = fileBuffer.toString('base64');
-    const base64DataUrl = `data:${contentType};base64,${base64String}`;
-
-    return res.status(200).json({
-      success: true,
-      data: {
-        base64: base64DataUrl,
-        contentType: contentType,
-        size: fileBuffer.length
-      }
-    });
-  } catch (error: any) {
-    console.error('Error getting profile picture as base64:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to get profile picture'
-    });
+  const decision = authorize(credentialsFromRequest(req), { ownerId: userId }, PUBLIC_PROFILE_PICTURE_POLICY);
+  if (!decision.allowed) {
+    throw accessDeniedError(decision);
   }
-});
 
-export default router;
+  return res.status(200).json({
+    success: true,
+    data: await profilePictureAsBase64(userData.profilePicturePath)
+  });
+}));
 
+export default router;
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express';
+import { getOpenApiSpec } from '../openapi';
+
+const router = Router();
+
+// Swagger UI assets are loaded from a CDN; override to self-host them
+const SWAGGER_UI_URL = process.env.SWAGGER_UI_URL || 'https://unpkg.com/swagger-ui-dist@5';
+
+// OpenAPI 3 document generated from the route docs in src/openapi
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  res.status(200).json(getOpenApiSpec());
+});
+
+// Interactive API documentation
+router.get('/docs', (_req: Request, res: Response) => {
+  res.status(200).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Wallet Doc API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_URL}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_URL}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>`);
+});
+
+export default router;
@@ -1,741 +1,1165 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { admin } from '../config/firebase';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { MAX_PLAN_FILE_SIZE } from '../config/storage';
+import {
+  AuthenticationError,
+  BadRequestError,
+  NotFoundError,
+  RateLimitError,
+  UnsupportedMediaTypeError
+} from '../errors';
+import { AccessRole, accessDeniedError, authorize, credentialsFromRequest } from '../middleware/accessPolicy';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticateToken, AuthRequest, optionalAuth } from '../middleware/auth';
+import {
+  AccessChannel,
+  AccessOutcome,
+  DOCUMENT_MIME_TYPES,
+  DocumentSummary,
+  DocumentVersion,
+  isTrashed,
+  normalizeTags,
+  ScanStatus,
+  toPublicDocument,
+  toPublicShare,
+  User,
+  WalletDocument
+} from '../models';
+import {
+  getAccessEventRepository,
+  getDocumentRepository,
+  getSecurityAlertRepository,
+  getShareRepository,
+  getUserRepository
+} from '../repositories';
+import {
+  accessLogSchema,
+  createShareSchema,
+  DEFAULT_PAGE_SIZE,
+  documentContentSchema,
+  documentIdSchema,
+  documentsByPinSchema,
+  documentVersionSchema,
+  legacyMyDocumentsSchema,
+  moveDocumentSchema,
+  myDocumentsSchema,
+  searchDocumentsSchema,
+  securityAlertIdSchema,
+  securityAlertsSchema,
+  shareIdSchema,
+  toggleVisibilitySchema,
+  updateDocumentMetadataSchema,
+  uploadDocumentSchema
+} from '../schemas/documents';
+import { recordAccess } from '../services/accessLog';
+import { DownloadGrant, issueDownloadUrl, revokeDocumentTokens } from '../services/downloadTokens';
+import { indexDocument, searchDocuments } from '../services/search';
+import {
+  documentFilterFrom,
+  documentSortFrom,
+  matchesFilter,
+  pageDocuments,
+  selectFields
+} from '../services/documentQuery';
+import { DUPLICATE_WARNING, findDuplicateDocument, storageReport, StoredContent, storeContent } from '../services/contentStore';
+import { findUserFolder, moveDocumentToFolder } from '../services/folders';
+import { fileWithheldError, isMalwareDetected, ScanResult, scanAllows, scanUpload } from '../services/malwareScan';
+import { hashPin, PinVerification, verifyPin } from '../services/pin';
+import { adjustTotalSize, reserveQuota } from '../services/quota';
+import {
+  claimPinAttempt,
+  lockoutDetails,
+  recordPinFailure,
+  recordPinSuccess,
+  releasePinClaim
+} from '../services/pinLockout';
+import { createShare, DEFAULT_SHARE_TTL_MINUTES, revokeShare } from '../services/shares';
+import { moveToTrash, purgeDocument, purgeTimeFor, restoreFromTrash } from '../services/trash';
+import { createUploadedDocument } from '../services/uploads';
+import { storageUsage } from '../services/usage';
+import { addVersion, listVersions, restoreVersion } from '../services/versions';
+import { decodeMultipartFileName, normalizeFileName, verifyFileType } from '../utils/fileType';
+import { getClientIp, getUserAgent } from '../utils/request';
+import { sendStoredFile } from '../utils/storedFile';
+import { validate } from '../validation';
 
 const router = Router();
 
-// Maximum storage quota per user (50MB)
-const MAX_STORAGE_SIZE = 50 * 1024 * 1024; // 50MB in bytes
+// Download URL with a fresh short-lived token, or undefined when issuing one fails
+// or the file is withheld from the channel by the malware scan
+const freshDownloadUrl = async (grant: DownloadGrant, file: { scanStatus?: ScanStatus | null }): Promise<string | undefined> => {
+  if (!scanAllows(file, grant.channel)) {
+    return undefined;
+  }
+  try {
+    return (await issueDownloadUrl(grant)).downloadURL;
+  } catch (error) {
+    console.error('Error issuing download token:', error);
+    return undefined;
+  }
+};
+
+// URLs are issued only on request - explicitly, or by asking for the downloadURL field
+const wantsDownloadUrls = (input: Record<string, unknown>, byDefault: boolean): boolean => {
+  const fields = input.fields as string[] | undefined;
+  return (input.withDownloadUrls as boolean | undefined) ?? (fields?.includes('downloadURL') || byDefault);
+};
 
 // Configure multer for file uploads (store in memory)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit per file
+    // The user's plan may allow less - checked once the file is in
+    fileSize: MAX_PLAN_FILE_SIZE
   },
   fileFilter: (_req, file, cb) => {
-    // Allow common document types
-    const allowedTypes = [
-      'application/pdf',
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    ];
-
-    if (allowedTypes.includes(file.mimetype)) {
+    if (DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF, images, Word, and Excel files are allowed.'));
+      cb(new UnsupportedMediaTypeError('Invalid file type. Only PDF, images, Word, and Excel files are allowed.'));
     }
   }
 });
 
+// The uploaded file's normalized name, and its type as detected from its contents.
+// Files whose contents disagree with their declared type or extension are refused (415).
+const inspectUpload = (file: Express.Multer.File): { fileName: string; detectedType: string } => {
+  const fileName = normalizeFileName(decodeMultipartFileName(file.originalname));
+  const detectedType = verifyFileType(file.buffer, { fileName, mimeType: file.mimetype }, DOCUMENT_MIME_TYPES);
+  return { fileName, detectedType };
+};
+
 // Upload document
-router.post('/upload', authenticateToken, upload.single('document'), async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
-    }
+router.post('/upload', authenticateToken, upload.single('document'), validate(uploadDocumentSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    if (!req.file) {
-      return res.status(400).json({
-        success: false,
-        message: 'No file uploaded'
-      });
-    }
+  if (!req.file) {
+    throw new BadRequestError('No file uploaded', 'FILE_REQUIRED');
+  }
 
-    const userId = req.user.uid;
-    const file = req.file;
-    const { description } = req.body;
-
-    // Check storage quota before upload
-    const db = admin.firestore();
-    const userRef = db.collection('users').doc(userId);
-    const userDoc = await userRef.get();
-    const userData = userDoc.exists ? userDoc.data() : {};
-    const currentTotalSize = (userData && userData.totalSize) ? userData.totalSize : 0;
-    const newTotalSize = currentTotalSize + file.size;
-
-    // Check if upload would exceed quota
-    if (newTotalSize > MAX_STORAGE_SIZE) {
-      const usedMB = (currentTotalSize / (1024 * 1024)).toFixed(2);
-      const maxMB = (MAX_STORAGE_SIZE / (1024 * 1024)).toFixed(0);
-      const fileMB = (file.size / (1024 * 1024)).toFixed(2);
-      const availableMB = ((MAX_STORAGE_SIZE - currentTotalSize) / (1024 * 1024)).toFixed(2);
-
-      return res.status(413).json({
-        success: false,
-        message: `Storage quota exceeded. You have used ${usedMB}MB of ${maxMB}MB. This file (${fileMB}MB) would exceed your limit.`,
-        error: 'STORAGE_QUOTA_EXCEEDED',
-        data: {
-          currentSize: currentTotalSize,
-          maxSize: MAX_STORAGE_SIZE,
-          fileSize: file.size,
-          availableSpace: MAX_STORAGE_SIZE - currentTotalSize,
-          usedMB: parseFloat(usedMB),
-          maxMB: parseFloat(maxMB),
-          fileMB: parseFloat(fileMB),
-          availableMB: parseFloat(availableMB),
-          message: `Please delete some old documents to free up space. You have ${availableMB}MB available.`
-        }
-      });
-    }
+  const userId = req.user.uid;
+  const file = req.file;
+  const { description, category, tags, folderId } = req.body;
+  const { fileName, detectedType } = inspectUpload(file);
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const fileName = `${userId}/${timestamp}_${file.originalname}`;
-
-    // Upload to Firebase Storage
-    // Get bucket - use default or specified bucket name
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured. Please enable Storage in Firebase Console.'
-      });
-    }
+  if (folderId) {
+    await findUserFolder(userId, folderId);
+  }
 
-    const fileUpload = bucket.file(fileName);
-
-    await fileUpload.save(file.buffer, {
-      metadata: {
-        contentType: file.mimetype,
-        metadata: {
-          uploadedBy: userId,
-          originalName: file.originalname,
-          documentType: file.mimetype,
-          uploadedAt: new Date().toISOString()
-        }
-      }
-    });
+  // Charge the quota before scanning or storing anything - the plan's limits are checked and the bytes counted in one
+  // transaction so concurrent uploads cannot overshoot them (space reserved by resumable uploads is taken)
+  await reserveQuota(userId, file.size, { mimeType: file.mimetype, newDocument: true });
 
-    // Generate signed URL for private file access (valid for 1 year)
-    const [downloadURL] = await fileUpload.getSignedUrl({
-      action: 'read',
-      expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year from now
+  // Infected files are quarantined instead and refused (422) - the quarantined copy keeps the charge.
+  // Otherwise upload to storage under the file's content address - bytes the user already has are not stored again
+  let scan: ScanResult;
+  let stored: StoredContent;
+  try {
+    scan = await scanUpload(userId, { fileName, mimeType: file.mimetype }, { buffer: file.buffer });
+    stored = await storeContent(userId, file.buffer, {
+      contentType: file.mimetype,
+      // Shared by every document with the same contents (see storeContent) - nothing about any one of them
+      metadata: { uploadedBy: userId }
     });
+  } catch (error) {
+    if (!isMalwareDetected(error)) {
+      await adjustTotalSize(userId, -file.size).catch(() => undefined);
+    }
+    throw error;
+  }
 
-    // Create document metadata
-    const documentData = {
-      userId,
-      fileName: file.originalname,
-      storagePath: fileName,
-      downloadURL,
+  // Save document metadata and add it to the user's document list.
+  // The quota counts every document in full, shared contents or not.
+  const document = await createUploadedDocument(
+    userId,
+    {
+      fileName,
+      storagePath: stored.storagePath,
       fileSize: file.size,
       mimeType: file.mimetype,
-      documentType: file.mimetype,
+      sha256: stored.sha256,
+      detectedType,
+      scan
+    },
+    {
       description: description || '',
-      uploadedAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    };
-
-    // Save document metadata to Firestore
-    const docRef = await db.collection('documents').add(documentData);
-
-    // Prepare document details for user's documents array
-    // Note: Cannot use serverTimestamp() inside array elements - Firestore restriction
-    const docDetails = {
-      docId: docRef.id,
-      docName: file.originalname,
-      docType: file.mimetype,
-      docSize: file.size,
-      uploadedTime: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-      isDocShow: true
-    };
-
-    // Update user's document list and totalSize (already calculated above)
-
-    // Update documents array and totalSize first
-    await userRef.update({
-      documents: admin.firestore.FieldValue.arrayUnion(docDetails),
-      totalSize: newTotalSize
-    });
+      category: category || 'other',
+      tags: normalizeTags(tags || []),
+      folderId: folderId || null
+    }
+  );
+  const duplicate = await findDuplicateDocument(document);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Document uploaded successfully',
+    ...(duplicate ? { warning: DUPLICATE_WARNING } : {}),
+    data: {
+      documentId: document.id,
+      fileName,
+      fileSize: file.size,
+      downloadURL: await freshDownloadUrl({ documentId: document.id, userId, channel: 'OWNER' }, document),
+      documentType: file.mimetype,
+      detectedType,
+      scanStatus: scan.scanStatus,
+      category: document.category,
+      tags: document.tags,
+      folderId: document.folderId,
+      duplicateOf: duplicate ? { documentId: duplicate.id, fileName: duplicate.fileName } : null,
+      uploadedAt: new Date().toISOString()
+    }
+  });
+}));
 
-    // Update timestamp separately to avoid Firestore conflict
-    await userRef.update({
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+// Get all documents for user (owner or admin), optionally filtered by category, tag, type, date and size
+// Unauthenticated access is kept only while LEGACY_OPEN_DOCUMENT_ROUTES=true
+const listMyDocuments = asyncHandler(async (req: AuthRequest, res: Response) => {
+  // GET takes the fields from the query string, the legacy POST from the body
+  const input: Record<string, unknown> = req.method === 'GET' ? req.query : req.body;
 
-    return res.status(201).json({
-      success: true,
-      message: 'Document uploaded successfully',
-      data: {
-        documentId: docRef.id,
-        fileName: file.originalname,
-        fileSize: file.size,
-        downloadURL,
-        documentType: file.mimetype,
-        uploadedAt: new Date().toISOString()
-      }
-    });
-  } catch (error: any) {
-    console.error('Error uploading document:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to upload document'
-    });
+  // userId defaults to the caller's own ID
+  const userId = (input.userId as string | undefined) || req.user?.uid;
+
+  if (!userId) {
+    throw new BadRequestError('userId is required', 'USER_ID_REQUIRED');
   }
-});
 
-// Get all documents for user (open API - no authentication required)
-router.post('/my-documents', async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.body;
+  const decision = authorize(credentialsFromRequest(req), { ownerId: userId }, {
+    allow: ['owner', 'admin'],
+    legacyOpen: true
+  });
+  if (!decision.allowed) {
+    throw accessDeniedError(decision);
+  }
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        message: 'userId is required'
-      });
+  // One page of this user's documents (newest first by default), leaving out the trash
+  const filter = documentFilterFrom(input);
+  const legacy = req.method !== 'GET';
+  const { documents: page, nextCursor } = await pageDocuments(
+    userId,
+    doc => !isTrashed(doc) && matchesFilter(doc, filter),
+    {
+      sort: documentSortFrom(input),
+      limit: (input.limit as number | undefined) ?? (legacy ? undefined : DEFAULT_PAGE_SIZE),
+      cursor: input.cursor as string | undefined
     }
-    const db = admin.firestore();
-
-    // Get all documents for this user
-    // Note: Requires Firestore composite index on (userId, uploadedAt)
-    // Create index: https://console.firebase.google.com/project/walletdoc-1f052/firestore/indexes
-    let documentsSnapshot;
-    try {
-      documentsSnapshot = await db.collection('documents')
-        .where('userId', '==', userId)
-        .orderBy('uploadedAt', 'desc')
-        .get();
-    } catch (error: any) {
-      // If index doesn't exist, get without orderBy and sort in memory
-      if (error.message?.includes('index')) {
-        documentsSnapshot = await db.collection('documents')
-          .where('userId', '==', userId)
-          .get();
-        
-        // Sort in memory by uploadedAt (descending)
-        const docs = documentsSnapshot.docs.sort((a: any, b: any) => {
-          const aTime = a.data().uploadedAt?.toMillis?.() || 0;
-          const bTime = b.data().uploadedAt?.toMillis?.() || 0;
-          return bTime - aTime;
-        });
-        
-        // Create a new QuerySnapshot-like object
-        documentsSnapshot = {
-          docs: docs,
-          empty: docs.length === 0,
-          size: docs.length
-        } as any;
-      } else {
-        throw error;
+  );
+
+  const withUrls = wantsDownloadUrls(input, legacy);
+  const documents = await Promise.all(
+    page.map(async docData => withUrls
+      ? {
+        ...toPublicDocument(docData),
+        downloadURL: await freshDownloadUrl({ documentId: docData.id, userId, channel: decision.channel }, docData)
       }
-    }
+      : toPublicDocument(docData))
+  );
+
+  await recordAccess(req, {
+    ownerId: userId,
+    documentIds: documents.map(doc => doc.id),
+    channel: decision.channel,
+    outcome: 'GRANTED',
+    action: 'my-documents'
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: documents.map(doc => selectFields(doc, input.fields as string[] | undefined, 'id')),
+    count: documents.length,
+    nextCursor
+  });
+});
 
-    // Generate fresh signed URLs for each document
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
-    }
-    
-    const documents = await Promise.all(
-      documentsSnapshot.docs.map(async (doc: any) => {
-        const docData = doc.data();
-        let downloadURL = docData.downloadURL;
-
-        // Generate fresh signed URL if storage path exists
-        if (docData.storagePath) {
-          try {
-            const file = bucket.file(docData.storagePath);
-            const [signedUrl] = await file.getSignedUrl({
-              action: 'read',
-              expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
-            });
-            downloadURL = signedUrl;
-          } catch (error) {
-            console.error('Error generating signed URL:', error);
-            // Keep original URL if signed URL generation fails
-          }
-        }
-
-        return {
-          id: doc.id,
-          ...docData,
-          downloadURL
-        };
-      })
-    );
+router.get('/my-documents', optionalAuth, validate(myDocumentsSchema), listMyDocuments);
+router.post('/my-documents', optionalAuth, validate(legacyMyDocumentsSchema), listMyDocuments);
 
-    return res.status(200).json({
-      success: true,
-      data: documents,
-      count: documents.length
-    });
-  } catch (error: any) {
-    console.error('Error fetching documents:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to fetch documents'
-    });
+// Get security alerts (e.g. PIN lockouts) for the authenticated user
+router.get('/security-alerts', authenticateToken, validate(securityAlertsSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
   }
-});
 
-// Get single document by ID (open API - no authentication required)
-// IMPORTANT: This route must come after specific routes like /my-documents and /get-documents-by-pin
-// but before other /:documentId routes like /:documentId/download-url
-router.get('/:documentId', async (req: Request, res: Response) => {
-  try {
-    const { documentId } = req.params;
-    const db = admin.firestore();
+  const unreadOnly = String(req.query.unreadOnly) === 'true';
+  const limit = Number(req.query.limit ?? 50);
+
+  const alerts = await getSecurityAlertRepository().listByUser(req.user.uid, { unreadOnly, limit });
+
+  return res.status(200).json({
+    success: true,
+    data: alerts,
+    count: alerts.length
+  });
+}));
+
+// Mark a security alert as read
+router.put('/security-alerts/:alertId/read', authenticateToken, validate(securityAlertIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { alertId } = req.params;
+  const alerts = getSecurityAlertRepository();
+  const alert = await alerts.findById(alertId);
 
-    const docSnapshot = await db.collection('documents').doc(documentId).get();
+  // Alerts of other users are reported as missing rather than forbidden
+  if (!alert || !authorize(credentialsFromRequest(req), { ownerId: alert.userId }, { allow: ['owner'] }).allowed) {
+    throw new NotFoundError('Security alert not found', 'ALERT_NOT_FOUND');
+  }
+
+  await alerts.markRead(alertId);
 
-    if (!docSnapshot.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document not found'
-      });
+  return res.status(200).json({
+    success: true,
+    message: 'Security alert marked as read',
+    data: {
+      alertId,
+      read: true
     }
+  });
+}));
+
+// Create a time-limited share link for selected documents
+router.post('/shares', authenticateToken, validate(createShareSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    const docData = docSnapshot.data();
+  const userId = req.user.uid;
+  const { documentIds, expiresInMinutes, maxViews, passcode, label } = req.body;
 
-    if (!docData) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document data not found'
-      });
+  // Every shared document must belong to the caller
+  const documents = getDocumentRepository();
+  const credentials = credentialsFromRequest(req);
+  for (const documentId of documentIds as string[]) {
+    const docData = await documents.findById(documentId);
+    if (!docData || isTrashed(docData) || !authorize(credentials, { ownerId: docData.userId, documentId }, { allow: ['owner'] }).allowed) {
+      throw new NotFoundError(`Document not found: ${documentId}`, 'DOCUMENT_NOT_FOUND', { documentId });
     }
+  }
 
-    // Generate fresh signed URL
-    let downloadURL = docData.downloadURL;
-    if (docData.storagePath) {
-      try {
-        const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-        const bucket = bucketName 
-          ? admin.storage().bucket(bucketName)
-          : admin.storage().bucket();
-        
-        if (!bucket) {
-          console.error('Firebase Storage bucket not configured');
-        } else {
-          const file = bucket.file(docData.storagePath);
-          const [signedUrl] = await file.getSignedUrl({
-            action: 'read',
-            expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
-          });
-          downloadURL = signedUrl;
-        }
-      } catch (error) {
-        console.error('Error generating signed URL:', error);
-        // Keep original URL if signed URL generation fails
-      }
+  const { share, token } = await createShare({
+    userId,
+    documentIds,
+    expiresInMinutes: expiresInMinutes ?? DEFAULT_SHARE_TTL_MINUTES,
+    maxViews: maxViews ?? null,
+    passcode,
+    label
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Share link created successfully',
+    data: {
+      ...toPublicShare(share),
+      // The token is only returned here - store it to build the share link
+      token,
+      sharePath: `/api/shares/${token}`,
+      expiresAt: new Date(share.expiresAt).toISOString()
     }
+  });
+}));
 
-    return res.status(200).json({
-      success: true,
-      data: {
-        id: docSnapshot.id,
-        ...docData,
-        downloadURL
-      }
-    });
-  } catch (error: any) {
-    console.error('Error fetching document:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to fetch document'
-    });
+// List the authenticated user's shares
+router.get('/shares', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
   }
-});
 
-// Delete document
-router.delete('/:documentId', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
-    }
+  const shares = (await getShareRepository().listByUser(req.user.uid)).map(share => ({
+    ...toPublicShare(share),
+    isActive: !share.revokedAt
+      && share.expiresAt > Date.now()
+      && (share.maxViews === null || share.viewCount < share.maxViews)
+  }));
+
+  return res.status(200).json({
+    success: true,
+    data: shares,
+    count: shares.length
+  });
+}));
+
+// Revoke a share
+router.delete('/shares/:shareId', authenticateToken, validate(shareIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    const { documentId } = req.params;
-    const userId = req.user.uid;
-    const db = admin.firestore();
+  const { shareId } = req.params;
+  const revoked = await revokeShare(req.user.uid, shareId);
 
-    const docSnapshot = await db.collection('documents').doc(documentId).get();
+  if (!revoked) {
+    throw new NotFoundError('Share not found', 'SHARE_NOT_FOUND');
+  }
 
-    if (!docSnapshot.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document not found'
-      });
-    }
+  return res.status(200).json({
+    success: true,
+    message: 'Share revoked successfully'
+  });
+}));
+
+// Get the authenticated user's access history (paged, newest first)
+// Filters: documentId, channel, outcome, from/to (ISO dates); paging: limit, cursor
+router.get('/access-log', authenticateToken, validate(accessLogSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    const docData = docSnapshot.data();
+  const { documentId, channel, outcome, from, to, cursor } = req.query;
+
+  const { events, nextCursor } = await getAccessEventRepository().listByOwner(req.user.uid, {
+    documentId: documentId as string | undefined,
+    channel: channel as AccessChannel | undefined,
+    outcome: outcome as AccessOutcome | undefined,
+    from: from !== undefined ? Date.parse(String(from)) : undefined,
+    to: to !== undefined ? Date.parse(String(to)) : undefined,
+    limit: Number(req.query.limit ?? 50),
+    cursor: cursor as string | undefined
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: events.map(event => ({
+      ...event,
+      occurredAt: new Date(event.occurredAt).toISOString()
+    })),
+    count: events.length,
+    nextCursor
+  });
+}));
+
+// Load a document the caller may act on with the given roles (404 when it does not exist or is in the trash)
+const findAuthorizedDocument = async (req: AuthRequest, documentId: string, allow: AccessRole[], message?: string) => {
+  const docData = await getDocumentRepository().findById(documentId);
+
+  if (!docData || isTrashed(docData)) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
 
-    // Check if document belongs to the user
-    if (docData?.userId !== userId) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to delete this document'
-      });
-    }
+  const decision = authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, { allow });
+  if (!decision.allowed) {
+    throw accessDeniedError(decision, message);
+  }
 
-    // Delete file from Firebase Storage
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
-    }
-    
-    const file = bucket.file(docData?.storagePath);
-    
-    try {
-      await file.delete();
-    } catch (storageError) {
-      console.error('Error deleting file from storage:', storageError);
-      // Continue even if storage deletion fails
-    }
+  return docData;
+};
 
-    // Get document size before deleting
-    const docSize = docData.fileSize || 0;
-
-    // Delete document metadata from Firestore
-    await db.collection('documents').doc(documentId).delete();
-
-    // Remove document from user's document list and update totalSize
-    const userRef = db.collection('users').doc(userId);
-    const userDoc = await userRef.get();
-    const userData = userDoc.exists ? userDoc.data() : {};
-    
-    // Find and remove the document from documents array
-    // Handle both old format (string IDs) and new format (objects with docId)
-    const documents = (userData && userData.documents) ? userData.documents : [];
-    const updatedDocuments = documents.filter((doc: any) => {
-      // If doc is a string (old format), compare directly
-      if (typeof doc === 'string') {
-        return doc !== documentId;
-      }
-      // If doc is an object (new format), compare docId
-      return doc.docId !== documentId;
-    });
-    
-    // Update totalSize
-    const currentTotalSize = (userData && userData.totalSize) ? userData.totalSize : 0;
-    const newTotalSize = Math.max(0, currentTotalSize - docSize);
-
-    await userRef.update({
-      documents: updatedDocuments,
-      totalSize: newTotalSize,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+// Load one of the caller's own trashed documents (404 when it is not in their trash)
+const findTrashedDocument = async (req: AuthRequest, documentId: string) => {
+  const docData = await getDocumentRepository().findById(documentId);
 
-    return res.status(200).json({
-      success: true,
-      message: 'Document deleted successfully'
-    });
-  } catch (error: any) {
-    console.error('Error deleting document:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to delete document'
-    });
+  if (!docData || !isTrashed(docData)
+    || !authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, { allow: ['owner'] }).allowed) {
+    throw new NotFoundError('Document not found in trash', 'DOCUMENT_NOT_FOUND');
   }
+
+  return docData;
+};
+
+const trashResponse = (document: WalletDocument) => ({
+  documentId: document.id,
+  fileName: document.fileName,
+  fileSize: document.fileSize,
+  mimeType: document.mimeType,
+  description: document.description,
+  trashedAt: new Date(document.trashedAt as number).toISOString(),
+  purgeAt: new Date(purgeTimeFor(document)).toISOString()
 });
 
-// Get signed URL for a document (authenticated - must come after /:documentId route)
-router.get('/:documentId/download-url', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
-    }
+// The caller's storage meter: used and available bytes, where they went and the plan's limits
+router.get('/usage', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    const { documentId } = req.params;
-    const userId = req.user.uid;
-    const db = admin.firestore();
+  const user = await getUserRepository().findById(req.user.uid);
+  if (!user) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
 
-    const docSnapshot = await db.collection('documents').doc(documentId).get();
+  return res.status(200).json({
+    success: true,
+    data: await storageUsage(user)
+  });
+}));
+
+// How much storage the caller's documents take up against what the quota counts -
+// identical files are stored once, so the difference is what deduplication saved
+router.get('/storage-report', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    if (!docSnapshot.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document not found'
-      });
-    }
+  const report = await storageReport(req.user.uid);
 
-    const docData = docSnapshot.data();
+  return res.status(200).json({
+    success: true,
+    data: report
+  });
+}));
 
-    // Check if document belongs to the user
-    if (docData?.userId !== userId) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to access this document'
-      });
+// List the caller's trashed documents, most recently trashed first
+router.get('/trash', authenticateToken, asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const trashed = (await getDocumentRepository().listByUser(req.user.uid))
+    .filter(isTrashed)
+    .sort((a, b) => (b.trashedAt as number) - (a.trashedAt as number));
+
+  return res.status(200).json({
+    success: true,
+    data: trashed.map(trashResponse),
+    count: trashed.length
+  });
+}));
+
+// Restore a trashed document (owner only)
+router.post('/trash/:documentId/restore', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const document = await restoreFromTrash(await findTrashedDocument(req, req.params.documentId));
+
+  return res.status(200).json({
+    success: true,
+    message: 'Document restored successfully',
+    data: {
+      documentId: document.id,
+      fileName: document.fileName
     }
+  });
+}));
+
+// Permanently delete a trashed document now instead of waiting for the purge job (owner only)
+router.delete('/trash/:documentId', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const docData = await findTrashedDocument(req, req.params.documentId);
+  const freedSize = await purgeDocument(docData);
 
-    // Generate fresh signed URL
-    if (!docData?.storagePath) {
-      return res.status(400).json({
-        success: false,
-        message: 'Document storage path not found'
-      });
+  return res.status(200).json({
+    success: true,
+    message: 'Document deleted permanently',
+    data: {
+      documentId: docData.id,
+      freedSize
     }
+  });
+}));
 
-    const bucket = admin.storage().bucket();
-    const file = bucket.file(docData.storagePath);
-    
-    const [signedUrl] = await file.getSignedUrl({
-      action: 'read',
-      expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
-    });
+// Search the caller's documents by name, description, tags and extracted text (best matches first)
+router.get('/search', authenticateToken, validate(searchDocumentsSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    return res.status(200).json({
-      success: true,
-      data: {
-        downloadURL: signedUrl,
-        expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString()
-      }
-    });
-  } catch (error: any) {
-    console.error('Error generating download URL:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to generate download URL'
+  const results = await searchDocuments(req.user.uid, String(req.query.q), Number(req.query.limit ?? 20));
+
+  return res.status(200).json({
+    success: true,
+    data: results.map(({ document, score }) => ({ ...toPublicDocument(document), score })),
+    count: results.length
+  });
+}));
+
+// Get single document by ID (owner or admin)
+// Unauthenticated access is kept only while LEGACY_OPEN_DOCUMENT_ROUTES=true
+// IMPORTANT: This route must come after specific routes like /my-documents and /get-documents-by-pin
+// but before other /:documentId routes like /:documentId/download-url
+router.get('/:documentId', optionalAuth, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { documentId } = req.params;
+  const docData = await getDocumentRepository().findById(documentId);
+
+  // Trashed documents are only reachable through the /trash routes
+  if (!docData || isTrashed(docData)) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
+
+  const decision = authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, {
+    allow: ['owner', 'admin'],
+    legacyOpen: true
+  });
+  if (!decision.allowed) {
+    await recordAccess(req, {
+      ownerId: docData.userId,
+      documentIds: [docData.id],
+      channel: 'PUBLIC',
+      outcome: 'DENIED',
+      action: 'get-document',
+      reason: 'POLICY_DENIED'
     });
+    throw accessDeniedError(decision);
   }
-});
 
-// Open API: Get documents by userId and masterPin (no authentication required)
-router.post('/get-documents-by-pin', async (req: Request, res: Response) => {
-  try {
-    const { userId, pin } = req.body;
-
-    // Validation
-    if (!userId || !pin) {
-      return res.status(400).json({
-        success: false,
-        message: 'UserId and Pin are required'
-      });
+  // Replaces any long-lived downloadURL stored with the document
+  const downloadURL = await freshDownloadUrl({ documentId: docData.id, userId: docData.userId, channel: decision.channel }, docData);
+
+  await recordAccess(req, {
+    ownerId: docData.userId,
+    documentIds: [docData.id],
+    channel: decision.channel,
+    outcome: 'GRANTED',
+    action: 'get-document'
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...toPublicDocument(docData),
+      downloadURL
     }
+  });
+}));
 
-    const db = admin.firestore();
+// Move a document to the trash (owner only) - it is purged after the retention period
+router.delete('/:documentId', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Get user document
-    const userDoc = await db.collection('users').doc(userId).get();
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to delete this document'
+  );
 
-    if (!userDoc.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
+  const document = await moveToTrash(docData);
 
-    const userData = userDoc.data();
+  return res.status(200).json({
+    success: true,
+    message: 'Document moved to trash',
+    data: trashResponse(document)
+  });
+}));
 
-    // Validate masterPin
-    if (!userData?.masterPin) {
-      return res.status(401).json({
-        success: false,
-        message: 'Master pin not set for this user'
-      });
-    }
+// Get signed URL for a document (authenticated - must come after /:documentId route)
+router.get('/:documentId/download-url', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    if (userData.masterPin !== pin) {
-      return res.status(401).json({
-        success: false,
-        message: 'Invalid pin'
-      });
-    }
+  const { documentId } = req.params;
+  const docData = await getDocumentRepository().findById(documentId);
 
-    // Get user's documents from the documents array
-    const userDocuments = userData.documents || [];
+  if (!docData || isTrashed(docData)) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
 
-    // Filter documents where isDocShow is true
-    const visibleDocuments = userDocuments.filter((doc: any) => {
-      // Handle object format (new) - check isDocShow
-      if (typeof doc === 'object' && doc.isDocShow === true) {
-        return true;
-      }
-      return false;
+  const decision = authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, {
+    allow: ['owner', 'admin']
+  });
+  if (!decision.allowed) {
+    await recordAccess(req, {
+      ownerId: docData.userId,
+      documentIds: [docData.id],
+      channel: 'PUBLIC',
+      outcome: 'DENIED',
+      action: 'download-url',
+      reason: 'POLICY_DENIED'
     });
+    throw accessDeniedError(decision, 'You do not have permission to access this document');
+  }
+
+  if (!docData.storagePath) {
+    throw new BadRequestError('Document storage path not found', 'STORAGE_PATH_MISSING');
+  }
+  if (!scanAllows(docData, decision.channel)) {
+    throw fileWithheldError(docData);
+  }
 
-    // Generate fresh signed URLs for each document
-    const bucketName = process.env.FIREBASE_STORAGE_BUCKET;
-    const bucket = bucketName 
-      ? admin.storage().bucket(bucketName)
-      : admin.storage().bucket();
-    
-    if (!bucket) {
-      return res.status(500).json({
-        success: false,
-        message: 'Firebase Storage bucket not configured'
-      });
+  const { downloadURL, expiresAt } = await issueDownloadUrl({
+    documentId: docData.id,
+    userId: docData.userId,
+    channel: decision.channel
+  });
+
+  await recordAccess(req, {
+    ownerId: docData.userId,
+    documentIds: [docData.id],
+    channel: decision.channel,
+    outcome: 'GRANTED',
+    action: 'download-url'
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      downloadURL,
+      expiresAt: new Date(expiresAt).toISOString()
     }
-    
-    const documentsWithUrls = await Promise.all(
-      visibleDocuments.map(async (doc: any) => {
-        let downloadURL = doc.downloadURL;
-
-        // If document has docId, try to get full document details and signed URL
-        if (doc.docId) {
-          try {
-            const docSnapshot = await db.collection('documents').doc(doc.docId).get();
-            if (docSnapshot.exists) {
-              const docData = docSnapshot.data();
-              if (docData?.storagePath) {
-                const file = bucket.file(docData.storagePath);
-                const [signedUrl] = await file.getSignedUrl({
-                  action: 'read',
-                  expires: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
-                });
-                downloadURL = signedUrl;
-              }
-            }
-          } catch (error) {
-            console.error('Error generating signed URL:', error);
-          }
-        }
-
-        return {
-          ...doc,
-          downloadURL: downloadURL || doc.downloadURL
-        };
-      })
-    );
+  });
+}));
+
+// Stream the current file through the API (owner or admin) - checked on every request, unlike a signed URL.
+// Supports conditional requests (ETag/Last-Modified) and single byte ranges.
+router.get('/:documentId/content', authenticateToken, validate(documentContentSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { documentId } = req.params;
+  const docData = await getDocumentRepository().findById(documentId);
+
+  if (!docData || isTrashed(docData)) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
 
-    return res.status(200).json({
-      success: true,
-      message: 'Documents retrieved successfully',
-      data: documentsWithUrls,
-      count: documentsWithUrls.length
+  const decision = authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, {
+    allow: ['owner', 'admin']
+  });
+  if (!decision.allowed) {
+    await recordAccess(req, {
+      ownerId: docData.userId,
+      documentIds: [docData.id],
+      channel: 'PUBLIC',
+      outcome: 'DENIED',
+      action: 'content',
+      reason: 'POLICY_DENIED'
     });
-  } catch (error: any) {
-    console.error('Error getting documents by pin:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to retrieve documents'
+    throw accessDeniedError(decision, 'You do not have permission to access this document');
+  }
+
+  if (!docData.storagePath) {
+    throw new BadRequestError('Document storage path not found', 'STORAGE_PATH_MISSING');
+  }
+  if (!scanAllows(docData, decision.channel)) {
+    throw fileWithheldError(docData);
+  }
+
+  const { status, range } = await sendStoredFile(req, res, docData.storagePath, {
+    fileName: docData.fileName,
+    contentType: docData.mimeType,
+    disposition: (req.query.download as unknown) === true ? 'attachment' : 'inline'
+  });
+
+  // Log each read once - not revalidations or the follow-up ranges of a read in progress
+  if (status === 200 || range?.start === 0) {
+    await recordAccess(req, {
+      ownerId: docData.userId,
+      documentIds: [docData.id],
+      channel: decision.channel,
+      outcome: 'GRANTED',
+      action: 'content'
     });
   }
-});
+}));
 
-// Update document visibility (show/hide) - Authenticated API
-router.put('/:documentId/toggle-visibility', authenticateToken, async (req: AuthRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({
-        success: false,
-        message: 'User not authenticated'
-      });
+// Revoke every download URL issued so far for a document (owner only), e.g. after one leaked
+router.delete('/:documentId/download-tokens', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to update this document'
+  );
+
+  const revokedAt = await revokeDocumentTokens(docData.id);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Download links revoked',
+    data: {
+      documentId: docData.id,
+      revokedAt: new Date(revokedAt).toISOString()
     }
+  });
+}));
+
+const versionResponse = (version: DocumentVersion, currentVersion: number | undefined) => ({
+  version: version.version,
+  fileName: version.fileName,
+  fileSize: version.fileSize,
+  mimeType: version.mimeType,
+  detectedType: version.detectedType ?? null,
+  scanStatus: version.scanStatus ?? null,
+  createdAt: new Date(version.createdAt).toISOString(),
+  isCurrent: version.version === currentVersion
+});
 
-    const { documentId } = req.params;
-    const { isDocShow } = req.body;
-    const userId = req.user.uid;
+// Upload a new file as the current version, keeping earlier versions (owner only)
+router.post('/:documentId/versions', authenticateToken, upload.single('document'), validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Validation
-    if (isDocShow === undefined || isDocShow === null) {
-      return res.status(400).json({
-        success: false,
-        message: 'isDocShow is required (true or false)'
-      });
-    }
+  if (!req.file) {
+    throw new BadRequestError('No file uploaded', 'FILE_REQUIRED');
+  }
 
-    if (typeof isDocShow !== 'boolean') {
-      return res.status(400).json({
-        success: false,
-        message: 'isDocShow must be a boolean value (true or false)'
-      });
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to update this document'
+  );
+
+  const { fileName, detectedType } = inspectUpload(req.file);
+  const { document, version, pruned } = await addVersion(docData, { ...req.file, originalname: fileName, detectedType });
+
+  return res.status(201).json({
+    success: true,
+    message: 'New version uploaded successfully',
+    data: {
+      documentId: document.id,
+      ...versionResponse(version, document.currentVersion),
+      downloadURL: await freshDownloadUrl({ documentId: document.id, userId: document.userId, channel: 'OWNER' }, document),
+      prunedVersions: pruned.map(old => old.version)
     }
+  });
+}));
 
-    const db = admin.firestore();
+// List a document's versions, newest first (owner or admin)
+router.get('/:documentId/versions', authenticateToken, validate(documentIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Get user document
-    const userRef = db.collection('users').doc(userId);
-    const userDoc = await userRef.get();
+  const docData = await findAuthorizedDocument(req, req.params.documentId, ['owner', 'admin']);
+  const versions = await listVersions(docData);
 
-    if (!userDoc.exists) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found'
-      });
-    }
+  return res.status(200).json({
+    success: true,
+    data: versions.map(version => versionResponse(version, docData.currentVersion)),
+    count: versions.length
+  });
+}));
 
-    const userData = userDoc.data();
-    const documents = (userData && userData.documents) ? userData.documents : [];
+// Get a signed URL for a specific version (owner or admin)
+router.get('/:documentId/versions/:version/download-url', authenticateToken, validate(documentVersionSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
-    // Find the document in user's documents array
-    const documentIndex = documents.findIndex((doc: any) => {
-      if (typeof doc === 'object' && doc.docId) {
-        return doc.docId === documentId;
-      }
-      return doc === documentId; // Old format
+  const { documentId } = req.params;
+  const versionNumber = Number(req.params.version);
+  const docData = await getDocumentRepository().findById(documentId);
+
+  if (!docData || isTrashed(docData)) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
+
+  const decision = authorize(credentialsFromRequest(req), { ownerId: docData.userId, documentId }, {
+    allow: ['owner', 'admin']
+  });
+  if (!decision.allowed) {
+    await recordAccess(req, {
+      ownerId: docData.userId,
+      documentIds: [docData.id],
+      channel: 'PUBLIC',
+      outcome: 'DENIED',
+      action: 'version-download-url',
+      reason: 'POLICY_DENIED'
     });
+    throw accessDeniedError(decision, 'You do not have permission to access this document');
+  }
+
+  const version = (await listVersions(docData)).find(candidate => candidate.version === versionNumber);
+  if (!version) {
+    throw new NotFoundError(`Version ${versionNumber} not found`, 'VERSION_NOT_FOUND');
+  }
+  if (!scanAllows(version, decision.channel)) {
+    throw fileWithheldError(version);
+  }
 
-    if (documentIndex === -1) {
-      return res.status(404).json({
-        success: false,
-        message: 'Document not found in user documents'
-      });
+  const { downloadURL, expiresAt } = await issueDownloadUrl({
+    documentId: docData.id,
+    userId: docData.userId,
+    channel: decision.channel,
+    version: version.version
+  });
+
+  await recordAccess(req, {
+    ownerId: docData.userId,
+    documentIds: [docData.id],
+    channel: decision.channel,
+    outcome: 'GRANTED',
+    action: 'version-download-url'
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...versionResponse(version, docData.currentVersion),
+      downloadURL,
+      expiresAt: new Date(expiresAt).toISOString()
     }
+  });
+}));
 
-    // Update the document in the array
-    const updatedDocuments = [...documents];
-    if (typeof updatedDocuments[documentIndex] === 'object') {
-      // New format - update isDocShow
-      updatedDocuments[documentIndex] = {
-        ...updatedDocuments[documentIndex],
-        isDocShow: isDocShow
-      };
-    } else {
-      // Old format - convert to new format
-      updatedDocuments[documentIndex] = {
-        docId: documentId,
-        isDocShow: isDocShow
-      };
+// Make an earlier version current again (owner only)
+router.post('/:documentId/versions/:version/restore', authenticateToken, validate(documentVersionSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to update this document'
+  );
+
+  const document = await restoreVersion(docData, Number(req.params.version));
+
+  return res.status(200).json({
+    success: true,
+    message: `Version ${document.currentVersion} restored successfully`,
+    data: {
+      documentId: document.id,
+      currentVersion: document.currentVersion,
+      fileName: document.fileName,
+      fileSize: document.fileSize,
+      mimeType: document.mimeType,
+      downloadURL: await freshDownloadUrl({ documentId: document.id, userId: document.userId, channel: 'OWNER' }, document)
     }
+  });
+}));
 
-    // Update user's documents array
-    await userRef.update({
-      documents: updatedDocuments,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+// The owner's record and whether `pin` is their master PIN
+const checkOwnerPin = async (userId: string, pin: string): Promise<PinVerification & { userData: User }> => {
+  const userData = await getUserRepository().findById(userId);
 
-    return res.status(200).json({
-      success: true,
-      message: `Document ${isDocShow ? 'shown' : 'hidden'} successfully`,
-      data: {
-        documentId,
-        isDocShow
-      }
+  if (!userData) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  // Validate masterPin
+  if (!userData.masterPin) {
+    throw new AuthenticationError('Master pin not set for this user', 'PIN_NOT_SET');
+  }
+
+  return { userData, ...await verifyPin(pin, String(userData.masterPin)) };
+};
+
+// Open API: Get documents by userId and masterPin (no authentication required)
+// Failed attempts are counted per user and per client IP with exponential backoff and lockout
+router.post('/get-documents-by-pin', validate(documentsByPinSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, pin } = req.body;
+  const ipAddress = getClientIp(req);
+
+  // Refuse attempts while backing off, locked out or while another attempt is being checked
+  const claim = await claimPinAttempt(userId, ipAddress);
+  if (!claim.claimed) {
+    const lockoutStatus = claim.status;
+    const retryAfterSeconds = Math.ceil((lockoutStatus.retryAt - Date.now()) / 1000);
+    await recordAccess(req, {
+      ownerId: userId,
+      documentIds: [null],
+      channel: 'PIN',
+      outcome: 'DENIED',
+      action: 'get-documents-by-pin',
+      reason: lockoutStatus.locked ? 'PIN_LOCKED' : 'PIN_RATE_LIMITED'
     });
-  } catch (error: any) {
-    console.error('Error updating document visibility:', error);
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Failed to update document visibility'
+    throw new RateLimitError(
+      lockoutStatus.locked
+        ? `Too many failed attempts. PIN access is locked for ${retryAfterSeconds} seconds.`
+        : `Please wait ${retryAfterSeconds} seconds before trying again.`,
+      retryAfterSeconds,
+      lockoutStatus.locked ? 'PIN_LOCKED' : 'PIN_RATE_LIMITED',
+      lockoutDetails(lockoutStatus)
+    );
+  }
+
+  // Give the claim back when the PIN is never checked (unknown user, no PIN set)
+  const users = getUserRepository();
+  const { userData, valid, needsRehash } = await checkOwnerPin(userId, pin).catch(async (error) => {
+    await releasePinClaim(userId, ipAddress).catch(() => undefined);
+    throw error;
+  });
+
+  if (!valid) {
+    const failureStatus = await recordPinFailure(userId, ipAddress, getUserAgent(req));
+    await recordAccess(req, {
+      ownerId: userId,
+      documentIds: [null],
+      channel: 'PIN',
+      outcome: 'DENIED',
+      action: 'get-documents-by-pin',
+      reason: 'INVALID_PIN'
     });
+    throw new AuthenticationError(
+      'Invalid pin',
+      failureStatus.locked ? 'PIN_LOCKED' : 'INVALID_PIN',
+      lockoutDetails(failureStatus)
+    );
   }
-});
 
-export default router;
+  await recordPinSuccess(userId, ipAddress);
+
+  // Transparently migrate legacy plaintext pins to hashes
+  if (needsRehash) {
+    try {
+      await users.update(userId, { masterPin: await hashPin(pin) });
+    } catch (error) {
+      console.error('Error re-hashing master pin:', error);
+    }
+  }
+
+  // PIN holders see documents where isDocShow is true (legacy string entries are never shown)
+  const credentials = { ...credentialsFromRequest(req), pinVerifiedFor: userId };
+  const visibleSummaries = new Map(
+    userData.documents
+      .filter((doc): doc is DocumentSummary => typeof doc === 'object'
+        && authorize(credentials, { ownerId: userId, documentId: doc.docId, visibleToPin: doc.isDocShow === true && !isTrashed(doc) }, {
+          allow: ['pin']
+        }).allowed)
+      .map(doc => [doc.docId, doc])
+  );
+
+  // Paged like /my-documents, but over the visible documents - and everything at once without a limit
+  const { documents: page, nextCursor } = await pageDocuments(
+    userId,
+    doc => visibleSummaries.has(doc.id) && !isTrashed(doc),
+    {
+      sort: documentSortFrom(req.body),
+      limit: req.body.limit,
+      cursor: req.body.cursor
+    }
+  );
+
+  // Issue fresh PIN-channel download URLs for each document unless they were left out
+  const withUrls = wantsDownloadUrls(req.body, true);
+  const documentsWithUrls = await Promise.all(
+    page.map(async (docData) => {
+      const { downloadURL: _storedUrl, ...summary } = visibleSummaries.get(docData.id) as DocumentSummary;
+      return withUrls
+        ? { ...summary, downloadURL: await freshDownloadUrl({ documentId: docData.id, userId, channel: 'PIN' }, docData) }
+        : summary;
+    })
+  );
+
+  await recordAccess(req, {
+    ownerId: userId,
+    documentIds: documentsWithUrls.map(doc => doc.docId),
+    channel: 'PIN',
+    outcome: 'GRANTED',
+    action: 'get-documents-by-pin'
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Documents retrieved successfully',
+    data: documentsWithUrls.map(doc => selectFields(doc, req.body.fields, 'docId')),
+    count: documentsWithUrls.length,
+    nextCursor
+  });
+}));
+
+// Rename a document and/or update its description, category and tags (owner only) - tags replace the existing ones
+router.put('/:documentId/metadata', authenticateToken, validate(updateDocumentMetadataSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
 
+  const { fileName, description, category, tags } = req.body;
+
+  if ([fileName, description, category, tags].every(value => value === undefined)) {
+    throw new BadRequestError('Provide a fileName, description, category and/or tags', 'NO_CHANGES');
+  }
+
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to update this document'
+  );
+
+  const fields = {
+    ...(fileName !== undefined ? { fileName: normalizeFileName(fileName) } : {}),
+    ...(description !== undefined ? { description } : {}),
+    ...(category !== undefined ? { category } : {}),
+    ...(tags !== undefined ? { tags: normalizeTags(tags) } : {})
+  };
+  await getDocumentRepository().update(docData.id, fields);
+  if (fields.fileName !== undefined) {
+    await getUserRepository().updateDocumentSummary(docData.userId, docData.id, { docName: fields.fileName });
+  }
+
+  const document = { ...docData, ...fields };
+  await indexDocument(document);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Document updated successfully',
+    data: {
+      documentId: document.id,
+      fileName: document.fileName,
+      description: document.description,
+      category: document.category || 'other',
+      tags: document.tags || []
+    }
+  });
+}));
+
+// Move a document into a folder, or to the top level with folderId null (owner only)
+router.put('/:documentId/folder', authenticateToken, validate(moveDocumentSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const docData = await findAuthorizedDocument(
+    req,
+    req.params.documentId,
+    ['owner'],
+    'You do not have permission to move this document'
+  );
+
+  const document = await moveDocumentToFolder(docData, req.body.folderId);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Document moved successfully',
+    data: {
+      documentId: document.id,
+      folderId: document.folderId
+    }
+  });
+}));
+
+// Update document visibility (show/hide) - Authenticated API
+router.put('/:documentId/toggle-visibility', authenticateToken, validate(toggleVisibilitySchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { documentId } = req.params;
+  const { isDocShow } = req.body;
+  const userId = req.user.uid;
+
+  const users = getUserRepository();
+
+  if (!(await users.findById(userId))) {
+    throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+  }
+
+  // Update the document in the user's documents array
+  const updated = await users.setDocumentVisibility(userId, documentId, isDocShow);
+
+  if (!updated) {
+    throw new NotFoundError('Document not found in user documents', 'DOCUMENT_NOT_FOUND');
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: `Document ${isDocShow ? 'shown' : 'hidden'} successfully`,
+    data: {
+      documentId,
+      isDocShow
+    }
+  });
+}));
+
+export default router;
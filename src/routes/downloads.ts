@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express';
+import { AppError, ForbiddenError, GoneError, NotFoundError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { ScanStatus } from '../models';
+import { recordAccess } from '../services/accessLog';
+import { DownloadTokenFailure, resolveDownloadToken } from '../services/downloadTokens';
+import { fileWithheldError } from '../services/malwareScan';
+import { downloadTokenSchema } from '../schemas/downloads';
+import { sendStoredFile } from '../utils/storedFile';
+import { validate } from '../validation';
+
+const router = Router();
+
+// The failure reason doubles as the error code
+const failureErrors: Record<DownloadTokenFailure, (result: { scanStatus?: ScanStatus | null }) => AppError> = {
+  INVALID_TOKEN: () => new ForbiddenError('Invalid download link', 'INVALID_TOKEN'),
+  TOKEN_EXPIRED: () => new GoneError('This download link has expired', 'TOKEN_EXPIRED'),
+  TOKEN_REVOKED: () => new GoneError('This download link has been revoked', 'TOKEN_REVOKED'),
+  DOCUMENT_NOT_FOUND: () => new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND'),
+  ACCESS_REVOKED: () => new ForbiddenError('Access to this document has been withdrawn', 'ACCESS_REVOKED'),
+  // Worded by the file's scan status, like the document routes
+  FILE_WITHHELD: fileWithheldError
+};
+
+// Open API: serve the file a download token grants - the token is the credential.
+// Supports conditional requests (ETag/Last-Modified) and single byte ranges.
+router.get('/:token', validate(downloadTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+  const result = await resolveDownloadToken(req.params.token);
+
+  if (!result.ok) {
+    if (result.claims) {
+      await recordAccess(req, {
+        ownerId: result.claims.userId,
+        documentIds: [result.claims.documentId],
+        channel: result.claims.channel,
+        outcome: 'DENIED',
+        action: 'download',
+        reason: result.reason,
+        shareId: result.claims.shareId
+      });
+    }
+
+    throw failureErrors[result.reason](result);
+  }
+
+  const { claims, storagePath, fileName, mimeType } = result;
+  const { status, range } = await sendStoredFile(req, res, storagePath, {
+    fileName,
+    contentType: mimeType,
+    disposition: (req.query.download as unknown) === true ? 'attachment' : 'inline'
+  });
+
+  // Log each read once - not revalidations or the follow-up ranges of a read in progress
+  if (status === 200 || range?.start === 0) {
+    await recordAccess(req, {
+      ownerId: claims.userId,
+      documentIds: [claims.documentId],
+      channel: claims.channel,
+      outcome: 'GRANTED',
+      action: 'download',
+      shareId: claims.shareId
+    });
+  }
+}));
+
+export default router;
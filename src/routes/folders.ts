@@ -0,0 +1,132 @@
+import { Router, Response } from 'express';
+import { AuthenticationError, BadRequestError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { Folder, toPublicDocument } from '../models';
+import { createFolderSchema, deleteFolderSchema, folderIdSchema, updateFolderSchema } from '../schemas/folders';
+import {
+  createFolder,
+  deleteFolder,
+  findUserFolder,
+  FolderContents,
+  FolderDeleteMode,
+  listFolderContents,
+  updateFolder
+} from '../services/folders';
+import { validate } from '../validation';
+
+const router = Router();
+
+// Folders are private to their owner - every route requires authentication
+router.use(authenticateToken);
+
+const folderResponse = (folder: Folder) => ({
+  id: folder.id,
+  name: folder.name,
+  parentId: folder.parentId,
+  createdAt: new Date(folder.createdAt).toISOString(),
+  updatedAt: new Date(folder.updatedAt).toISOString()
+});
+
+const contentsResponse = (contents: FolderContents) => ({
+  folder: contents.folder ? folderResponse(contents.folder) : null,
+  path: contents.path.map(folder => ({ id: folder.id, name: folder.name })),
+  folders: contents.folders.map(folder => ({
+    ...folderResponse(folder),
+    folderCount: folder.folderCount,
+    documentCount: folder.documentCount
+  })),
+  documents: contents.documents.map(toPublicDocument)
+});
+
+// List the top-level folders and the documents outside any folder
+router.get('/', asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const contents = await listFolderContents(req.user.uid, null);
+
+  return res.status(200).json({
+    success: true,
+    data: contentsResponse(contents)
+  });
+}));
+
+// Create a folder (at the top level unless parentId is given)
+router.post('/', validate(createFolderSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { name, parentId } = req.body;
+  const folder = await createFolder(req.user.uid, name.trim(), parentId ?? null);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Folder created successfully',
+    data: folderResponse(folder)
+  });
+}));
+
+// List a folder's sub-folders (with their counts) and documents
+router.get('/:folderId', validate(folderIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const contents = await listFolderContents(req.user.uid, req.params.folderId);
+
+  return res.status(200).json({
+    success: true,
+    data: contentsResponse(contents)
+  });
+}));
+
+// Rename a folder and/or move it under another parent (parentId null moves it to the top level)
+router.put('/:folderId', validate(updateFolderSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { name, parentId } = req.body;
+
+  if (name === undefined && parentId === undefined) {
+    throw new BadRequestError('Provide a new name and/or parentId', 'NO_CHANGES');
+  }
+
+  const folder = await findUserFolder(req.user.uid, req.params.folderId);
+  const updated = await updateFolder(folder, {
+    name: name?.trim(),
+    parentId
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Folder updated successfully',
+    data: folderResponse(updated)
+  });
+}));
+
+// Delete a folder - its contents move up a level (default) or go to the trash (?contents=trash)
+router.delete('/:folderId', validate(deleteFolderSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const mode = (req.query.contents as FolderDeleteMode | undefined) || 'move-up';
+  const folder = await findUserFolder(req.user.uid, req.params.folderId);
+  const result = await deleteFolder(folder, mode);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Folder deleted successfully',
+    data: {
+      folderId: folder.id,
+      contents: mode,
+      ...result
+    }
+  });
+}));
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import adminRoutes from './admin';
+import apiRoutes from './api';
+import authRoutes from './auth';
+import docsRoutes from './docs';
+import documentRoutes from './documents';
+import downloadRoutes from './downloads';
+import folderRoutes from './folders';
+import shareRoutes from './shares';
+import storageRoutes from './storage';
+import uploadRoutes from './uploads';
+
+export interface RouteMount {
+  path: string;
+  router: Router;
+}
+
+/**
+ * Every router and the path it is mounted at, in mount order.
+ * Used by index.ts and by the OpenAPI coverage check.
+ */
+export const routeMounts: RouteMount[] = [
+  // API routes
+  { path: '/api', router: apiRoutes },
+
+  // OpenAPI spec and docs UI
+  { path: '/api', router: docsRoutes },
+
+  // Admin routes (admin role required)
+  { path: '/api/admin', router: adminRoutes },
+
+  // Authentication routes
+  { path: '/api/auth', router: authRoutes },
+
+  // Document routes
+  { path: '/api/documents', router: documentRoutes },
+
+  // Folder routes
+  { path: '/api/folders', router: folderRoutes },
+
+  // Resumable document uploads
+  { path: '/api/uploads', router: uploadRoutes },
+
+  // Download links (short-lived download tokens)
+  { path: '/api/downloads', router: downloadRoutes },
+
+  // Public share links
+  { path: '/api/shares', router: shareRoutes },
+
+  // Local storage driver file serving
+  { path: '/api/storage', router: storageRoutes }
+];
@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { AppError, AuthenticationError, GoneError, NotFoundError, RateLimitError } from '../errors';
+import { authorize } from '../middleware/accessPolicy';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { isTrashed } from '../models';
+import { getDocumentRepository } from '../repositories';
+import { recordAccess } from '../services/accessLog';
+import { DOWNLOAD_TOKEN_TTL_MINUTES, issueDownloadUrl } from '../services/downloadTokens';
+import { scanAllows } from '../services/malwareScan';
+import { lockoutDetails, PinLockoutStatus } from '../services/pinLockout';
+import { openShare, ShareAccessFailure } from '../services/shares';
+import { openShareSchema } from '../schemas/shares';
+import { getClientIp, getUserAgent } from '../utils/request';
+import { validate } from '../validation';
+
+const router = Router();
+
+const lockoutError = (lockout: PinLockoutStatus, code: ShareAccessFailure): RateLimitError => {
+  const retryAfterSeconds = Math.ceil((lockout.retryAt - Date.now()) / 1000);
+  return new RateLimitError(
+    lockout.locked
+      ? `Too many failed attempts. This share is locked for ${retryAfterSeconds} seconds.`
+      : `Please wait ${retryAfterSeconds} seconds before trying again.`,
+    retryAfterSeconds,
+    code,
+    lockoutDetails(lockout)
+  );
+};
+
+// The failure reason doubles as the error code (a wrong passcode that locks the share reports PASSCODE_LOCKED)
+const failureErrors: Record<ShareAccessFailure, (lockout?: PinLockoutStatus) => AppError> = {
+  NOT_FOUND: () => new NotFoundError('Share not found', 'NOT_FOUND'),
+  REVOKED: () => new GoneError('This share has been revoked', 'REVOKED'),
+  EXPIRED: () => new GoneError('This share has expired', 'EXPIRED'),
+  VIEW_LIMIT_REACHED: () => new GoneError('This share has reached its view limit', 'VIEW_LIMIT_REACHED'),
+  PASSCODE_REQUIRED: () => new AuthenticationError('A passcode is required for this share', 'PASSCODE_REQUIRED'),
+  INVALID_PASSCODE: lockout => new AuthenticationError(
+    'Invalid passcode',
+    lockout?.locked ? 'PASSCODE_LOCKED' : 'INVALID_PASSCODE',
+    lockout && lockoutDetails(lockout)
+  ),
+  PASSCODE_LOCKED: lockout => lockoutError(lockout!, 'PASSCODE_LOCKED'),
+  PASSCODE_RATE_LIMITED: lockout => lockoutError(lockout!, 'PASSCODE_RATE_LIMITED')
+};
+
+// Open API: resolve a share token to short-lived download URLs (counts as one view)
+// Optional passcode is sent in the X-Share-Passcode header; wrong ones are counted per share and client IP with backoff and lockout
+router.get('/:token', validate(openShareSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const passcode = req.get('x-share-passcode') || undefined;
+
+  const result = await openShare(token, { ipAddress: getClientIp(req), userAgent: getUserAgent(req) }, passcode);
+
+  if (!result.ok) {
+    if (result.share) {
+      await recordAccess(req, {
+        ownerId: result.share.userId,
+        documentIds: [null],
+        channel: 'SHARE',
+        outcome: 'DENIED',
+        action: 'open-share',
+        reason: result.reason,
+        shareId: result.share.id
+      });
+    }
+
+    throw failureErrors[result.reason](result.lockout);
+  }
+
+  const { share } = result;
+  // Taken before issuing, so every URL is valid at least until then
+  const urlsExpireAt = Date.now() + DOWNLOAD_TOKEN_TTL_MINUTES.SHARE * 60 * 1000;
+  const documents = getDocumentRepository();
+
+  const sharedDocuments = await Promise.all(
+    share.documentIds.map(async (documentId) => {
+      const docData = await documents.findById(documentId);
+
+      // Skip documents deleted or trashed since the share was created
+      if (!docData || isTrashed(docData) || !authorize({ share }, { ownerId: docData.userId, documentId }, { allow: ['share'] }).allowed) {
+        return null;
+      }
+
+      return {
+        id: docData.id,
+        fileName: docData.fileName,
+        fileSize: docData.fileSize,
+        mimeType: docData.mimeType,
+        description: docData.description,
+        // Withheld (null) until the file passes the malware scan
+        downloadURL: scanAllows(docData, 'SHARE')
+          ? (await issueDownloadUrl({
+            documentId: docData.id,
+            userId: docData.userId,
+            channel: 'SHARE',
+            shareId: share.id
+          })).downloadURL
+          : null
+      };
+    })
+  );
+  const available = sharedDocuments.filter(doc => doc !== null);
+
+  await recordAccess(req, {
+    ownerId: share.userId,
+    documentIds: available.map(doc => doc.id),
+    channel: 'SHARE',
+    outcome: 'GRANTED',
+    action: 'open-share',
+    shareId: share.id
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Shared documents retrieved successfully',
+    data: {
+      documents: available,
+      label: share.label,
+      expiresAt: new Date(share.expiresAt).toISOString(),
+      urlsExpireAt: new Date(urlsExpireAt).toISOString(),
+      remainingViews: share.maxViews === null ? null : Math.max(0, share.maxViews - share.viewCount)
+    },
+    count: available.length
+  });
+}));
+
+export default router;
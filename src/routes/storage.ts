@@ -0,0 +1,30 @@
+import { Router, Request, Response } from 'express';
+import { ForbiddenError, NotFoundError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { localObjectSchema } from '../schemas/storage';
+import { getStorageProvider, LocalStorageProvider } from '../storage';
+import { sendStoredFile } from '../utils/storedFile';
+import { validate } from '../validation';
+
+const router = Router();
+
+// Serve objects from the local storage driver via URLs produced by LocalStorageProvider.signUrl()
+router.get('/local', validate(localObjectSchema), asyncHandler(async (req: Request, res: Response) => {
+  const storage = getStorageProvider();
+
+  if (!(storage instanceof LocalStorageProvider)) {
+    throw new NotFoundError('Local storage driver is not enabled', 'STORAGE_DRIVER_DISABLED');
+  }
+
+  const objectPath = String(req.query.path);
+  const expires = Number(req.query.expires);
+  const signature = String(req.query.signature);
+
+  if (!storage.verifySignature(objectPath, expires, signature)) {
+    throw new ForbiddenError('Invalid or expired URL', 'INVALID_SIGNATURE');
+  }
+
+  await sendStoredFile(req, res, objectPath);
+}));
+
+export default router;
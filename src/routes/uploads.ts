@@ -0,0 +1,145 @@
+import { Router, Response } from 'express';
+import { AuthenticationError, UnsupportedMediaTypeError } from '../errors';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { normalizeTags, UploadSession } from '../models';
+import { completeUploadSchema, createUploadSchema, uploadChunkSchema, uploadIdSchema } from '../schemas/uploads';
+import { DUPLICATE_WARNING, findDuplicateDocument } from '../services/contentStore';
+import { issueDownloadUrl } from '../services/downloadTokens';
+import {
+  appendChunk,
+  cancelUpload,
+  completeUpload,
+  createUploadSession,
+  findUploadSession,
+  MAX_UPLOAD_CHUNK_SIZE
+} from '../services/uploads';
+import { validate } from '../validation';
+
+const router = Router();
+
+// Uploads belong to their owner - every route requires authentication
+router.use(authenticateToken);
+
+const sessionResponse = (session: UploadSession) => ({
+  uploadId: session.id,
+  fileName: session.fileName,
+  mimeType: session.mimeType,
+  fileSize: session.fileSize,
+  offset: session.offset,
+  chunkSize: MAX_UPLOAD_CHUNK_SIZE,
+  createdAt: new Date(session.createdAt).toISOString(),
+  expiresAt: new Date(session.expiresAt).toISOString()
+});
+
+// Start a resumable upload - the declared fileSize is reserved against the quota right away
+router.post('/', validate(createUploadSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { fileName, mimeType, fileSize, description, category, tags, folderId } = req.body;
+  const session = await createUploadSession(
+    req.user.uid,
+    { fileName: fileName.trim(), mimeType, fileSize },
+    {
+      description: description || '',
+      category: category || 'other',
+      tags: normalizeTags(tags || []),
+      folderId: folderId || null
+    }
+  );
+
+  return res.status(201).json({
+    success: true,
+    message: 'Upload started',
+    data: sessionResponse(session)
+  });
+}));
+
+// Upload progress - a client resuming after a dropped connection continues from `offset`
+router.get('/:uploadId', validate(uploadIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const session = await findUploadSession(req.user.uid, req.params.uploadId);
+
+  return res.status(200).json({
+    success: true,
+    data: sessionResponse(session)
+  });
+}));
+
+// Append the next chunk (raw bytes) at ?offset=, streamed straight to storage
+router.put('/:uploadId', validate(uploadChunkSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  // Any other body type would already have been consumed by the body parsers
+  if (req.is('application/octet-stream') === false) {
+    throw new UnsupportedMediaTypeError('Chunks must be sent as application/octet-stream', 'UNSUPPORTED_CONTENT_TYPE');
+  }
+
+  const session = await findUploadSession(req.user.uid, req.params.uploadId);
+  const updated = await appendChunk(session, Number(req.query.offset), req);
+
+  return res.status(200).json({
+    success: true,
+    data: sessionResponse(updated)
+  });
+}));
+
+// Assemble the chunks, verify the checksum and create the document
+router.post('/:uploadId/complete', validate(completeUploadSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const session = await findUploadSession(req.user.uid, req.params.uploadId);
+  const document = await completeUpload(session, req.body.sha256);
+  const { downloadURL } = await issueDownloadUrl({ documentId: document.id, userId: document.userId, channel: 'OWNER' });
+  const duplicate = await findDuplicateDocument(document);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Document uploaded successfully',
+    ...(duplicate ? { warning: DUPLICATE_WARNING } : {}),
+    data: {
+      documentId: document.id,
+      fileName: document.fileName,
+      fileSize: document.fileSize,
+      downloadURL,
+      documentType: document.mimeType,
+      detectedType: document.detectedType,
+      scanStatus: document.scanStatus,
+      category: document.category,
+      tags: document.tags,
+      folderId: document.folderId,
+      duplicateOf: duplicate ? { documentId: duplicate.id, fileName: duplicate.fileName } : null,
+      uploadedAt: new Date().toISOString()
+    }
+  });
+}));
+
+// Cancel an upload, deleting the received chunks and releasing the reserved space
+router.delete('/:uploadId', validate(uploadIdSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const session = await findUploadSession(req.user.uid, req.params.uploadId);
+  await cancelUpload(session);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Upload cancelled',
+    data: {
+      uploadId: session.id,
+      releasedSize: session.fileSize
+    }
+  });
+}));
+
+export default router;
@@ -0,0 +1,69 @@
+import * as net from 'net';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { MalwareScanner, ScanVerdict } from './types';
+
+export interface ClamdOptions {
+  // Unix socket of the daemon (LocalSocket in clamd.conf); TCP host and port are used without one
+  socketPath?: string;
+  host: string;
+  port: number;
+  // How long the daemon may stay silent before the scan fails
+  timeoutMs: number;
+}
+
+const write = (socket: net.Socket, data: Buffer | string): Promise<void> => new Promise((resolve, reject) => {
+  socket.write(data, error => (error ? reject(error) : resolve()));
+});
+
+/**
+ * Scanner backed by a ClamAV daemon, streaming files to it with the INSTREAM command.
+ * Files larger than the daemon's StreamMaxLength are refused by it and fail to scan.
+ */
+export class ClamdMalwareScanner implements MalwareScanner {
+  constructor(private readonly options: ClamdOptions) {}
+
+  async scan(data: Readable): Promise<ScanVerdict> {
+    const { socketPath, host, port, timeoutMs } = this.options;
+    const socket = socketPath ? net.createConnection(socketPath) : net.createConnection(port, host);
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`clamd did not answer within ${timeoutMs}ms`)));
+
+    // The daemon answers once the stream ends (or as soon as it refuses it) and closes the connection
+    const reply = new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      socket
+        .on('data', (chunk: Buffer) => chunks.push(chunk))
+        .on('error', reject)
+        .on('close', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+
+    try {
+      await once(socket, 'connect');
+      await write(socket, 'zINSTREAM\0');
+      // Each chunk is preceded by its length (4 bytes, big-endian); a zero length ends the stream
+      for await (const chunk of data) {
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length);
+        await write(socket, Buffer.concat([length, chunk]));
+      }
+      await write(socket, Buffer.alloc(4));
+    } catch (error) {
+      data.destroy();
+      socket.destroy();
+      // A refusal (e.g. INSTREAM size limit exceeded) explains a failed write better than EPIPE does
+      const refusal = await reply.catch(() => '');
+      throw refusal ? new Error(`clamd refused the file: ${refusal.replace(/\0/g, '').trim()}`) : error;
+    }
+
+    // e.g. "stream: OK" or "stream: Win.Test.EICAR_HDB-1 FOUND"
+    const answer = (await reply).replace(/\0/g, '').trim();
+    const found = /^stream: (.+) FOUND$/.exec(answer);
+    if (found) {
+      return { infected: true, threat: found[1] };
+    }
+    if (answer === 'stream: OK') {
+      return { infected: false };
+    }
+    throw new Error(`Unexpected answer from clamd: ${answer || '(none)'}`);
+  }
+}
@@ -0,0 +1,48 @@
+import { numberFromEnv } from '../utils/env';
+import { ClamdMalwareScanner } from './clamd';
+import { NoopMalwareScanner } from './noop';
+import { MalwareScanner } from './types';
+
+export * from './types';
+export { ClamdMalwareScanner, NoopMalwareScanner };
+
+let malwareScanner: MalwareScanner | null = null;
+
+/**
+ * Build the scanner selected by MALWARE_SCANNER ('clamd' or 'noop')
+ */
+export const createMalwareScanner = (): MalwareScanner => {
+  const driver = (process.env.MALWARE_SCANNER || 'clamd').toLowerCase();
+
+  switch (driver) {
+    case 'clamd':
+      return new ClamdMalwareScanner({
+        socketPath: process.env.CLAMD_SOCKET || undefined,
+        host: process.env.CLAMD_HOST || '127.0.0.1',
+        port: numberFromEnv('CLAMD_PORT', 3310),
+        timeoutMs: numberFromEnv('CLAMD_TIMEOUT_MS', 30 * 1000)
+      });
+    case 'noop':
+      return new NoopMalwareScanner();
+    default:
+      throw new Error(`Unknown MALWARE_SCANNER "${driver}". Expected "clamd" or "noop".`);
+  }
+};
+
+/**
+ * Shared scanner instance
+ */
+export const getMalwareScanner = (): MalwareScanner => {
+  if (!malwareScanner) {
+    malwareScanner = createMalwareScanner();
+    console.log(`🛡️  Malware scanner: ${malwareScanner.constructor.name}`);
+  }
+  return malwareScanner;
+};
+
+/**
+ * Replace the shared scanner (e.g. with a stub in tests)
+ */
+export const setMalwareScanner = (scanner: MalwareScanner): void => {
+  malwareScanner = scanner;
+};
@@ -0,0 +1,20 @@
+import { Readable } from 'stream';
+
+/**
+ * What a scanner concluded about a file
+ */
+export type ScanVerdict =
+  | { infected: false }
+  // threat is the scanner's name for what it found, e.g. Win.Test.EICAR_HDB-1
+  | { infected: true; threat: string };
+
+/**
+ * Backend-agnostic malware scanner used for uploaded files
+ */
+export interface MalwareScanner {
+  /**
+   * Scan a file's bytes, consuming the stream. Rejects when the file could not be scanned
+   * (scanner unreachable, timed out or refusing the file) - never treat that as clean.
+   */
+  scan(data: Readable): Promise<ScanVerdict>;
+}
@@ -0,0 +1,43 @@
+import { RequestSchema, boolean, integer, object, string } from '../validation';
+import { STORAGE_PLANS } from '../config/storage';
+import { idParam } from './common';
+
+export const searchUsersSchema: RequestSchema = {
+  query: object({
+    q: string({ maxLength: 200, description: 'Email prefix' }),
+    limit: integer({ minimum: 1, maximum: 100 }),
+    cursor: string()
+  })
+};
+
+export const userIdSchema: RequestSchema = {
+  params: idParam('uid')
+};
+
+export const updateRoleSchema: RequestSchema = {
+  params: idParam('uid'),
+  body: object({
+    role: string({ enum: ['admin'], nullable: true })
+  }, ['role'])
+};
+
+export const updatePlanSchema: RequestSchema = {
+  params: idParam('uid'),
+  body: object({
+    plan: string({ enum: STORAGE_PLANS.map(plan => plan.id) })
+  }, ['plan'])
+};
+
+export const consistencyCheckSchema: RequestSchema = {
+  params: idParam('uid'),
+  body: object({
+    repair: boolean({ description: 'Fix what is found - without it the check only reports' })
+  })
+};
+
+export const quarantinedFileSchema: RequestSchema = {
+  params: object({
+    uid: string({ minLength: 1, maxLength: 128 }),
+    fileId: string({ pattern: '^[A-Za-z0-9-]{1,128}$', description: 'ID from the quarantine listing' })
+  }, ['uid', 'fileId'])
+};
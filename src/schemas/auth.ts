@@ -0,0 +1,50 @@
+import { MAX_DOCUMENT_VERSIONS } from '../services/versions';
+import { RequestSchema, integer, object, string } from '../validation';
+import { idParam, pinSchema } from './common';
+
+export const registerSchema: RequestSchema = {
+  body: object({
+    email: string({ format: 'email' }),
+    password: string({ minLength: 6 }),
+    displayName: string({ maxLength: 100 }),
+    masterPin: pinSchema,
+    mobileNumber: string({ maxLength: 20 }),
+    QR: string(),
+    name: string({ maxLength: 100 })
+  }, ['email', 'password'], { additionalProperties: false })
+};
+
+export const loginSchema: RequestSchema = {
+  body: object({
+    email: string({ format: 'email' }),
+    password: string()
+  }, ['email', 'password'])
+};
+
+export const verifyTokenSchema: RequestSchema = {
+  body: object({
+    idToken: string()
+  }, ['idToken'])
+};
+
+// One of uid or idToken is required (checked in the handler)
+export const logoutSchema: RequestSchema = {
+  body: object({
+    uid: string(),
+    idToken: string()
+  })
+};
+
+export const updateProfileSchema: RequestSchema = {
+  body: object({
+    displayName: string({ maxLength: 100 }),
+    mobileNumber: string({ maxLength: 20 }),
+    masterPin: pinSchema,
+    QR: string(),
+    maxDocumentVersions: integer({ minimum: 1, maximum: MAX_DOCUMENT_VERSIONS, description: 'Versions kept per document' })
+  })
+};
+
+export const profilePictureByUserSchema: RequestSchema = {
+  params: idParam('userId')
+};
@@ -0,0 +1,10 @@
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH } from '../services/pin';
+import { object, string } from '../validation';
+
+export const idParam = (name: string) => object({ [name]: string({ minLength: 1, maxLength: 128 }) }, [name]);
+
+// Master PIN as set by the owner
+export const pinSchema = string({
+  pattern: `^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`,
+  description: `Master PIN, ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits`
+});
@@ -0,0 +1,170 @@
+import { DOCUMENT_CATEGORIES, DOCUMENT_SORT_FIELDS } from '../models';
+import { MAX_SHARE_TTL_MINUTES } from '../services/shares';
+import { RequestSchema, array, boolean, integer, object, string } from '../validation';
+import { idParam } from './common';
+
+// Most tags a document may carry, and the longest tag
+export const MAX_DOCUMENT_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+const category = string({ enum: [...DOCUMENT_CATEGORIES], description: 'Document category' });
+
+const tags = array(string({ minLength: 1, maxLength: MAX_TAG_LENGTH }), {
+  maxItems: MAX_DOCUMENT_TAGS,
+  description: 'Free-form tags (compared case-insensitively). Form fields accept a comma-separated list.'
+});
+
+export const uploadDocumentSchema: RequestSchema = {
+  body: object({
+    description: string({ maxLength: 1000 }),
+    category,
+    tags,
+    folderId: string({ minLength: 1, maxLength: 128, description: 'Folder to upload into (top level when omitted)' })
+  })
+};
+
+// Page size of GET /my-documents when no limit is given, and the largest page
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Paging contract shared by the document listings; `fields` picks from the given entry fields
+const listingFields = (entryFields: string[], withDownloadUrlsDefault: boolean) => ({
+  limit: integer({ minimum: 1, maximum: MAX_PAGE_SIZE }),
+  cursor: string({ maxLength: 1024, description: 'nextCursor of the previous page - only valid with the same sort and order' }),
+  sort: string({ enum: [...DOCUMENT_SORT_FIELDS], description: 'Default: uploadedAt' }),
+  order: string({ enum: ['asc', 'desc'], description: 'Default: asc for fileName, desc otherwise' }),
+  fields: array(string({ enum: entryFields }), { description: 'Fields to return (comma-separated) - the ID is always included; all when omitted' }),
+  withDownloadUrls: boolean({
+    description: `Sign a fresh downloadURL for each returned document (default ${withDownloadUrlsDefault}). `
+      + 'Also implied by listing downloadURL in fields.'
+  })
+});
+
+const walletDocumentFields = [
+  'id', 'userId', 'fileName', 'downloadURL', 'fileSize', 'mimeType', 'documentType', 'description',
+  'category', 'tags', 'folderId', 'currentVersion', 'trashedAt', 'uploadedAt', 'updatedAt'
+];
+
+const documentSummaryFields = ['docId', 'docName', 'docType', 'docSize', 'uploadedTime', 'isDocShow', 'downloadURL'];
+
+// Listing filters - userId defaults to the authenticated caller
+const myDocumentsFields = (withDownloadUrlsDefault: boolean) => object({
+  ...listingFields(walletDocumentFields, withDownloadUrlsDefault),
+  userId: string({ maxLength: 128 }),
+  category,
+  tag: array(string({ minLength: 1, maxLength: MAX_TAG_LENGTH }), {
+    description: 'Only documents carrying every given tag (repeat the parameter or separate with commas)'
+  }),
+  mimeType: string({ pattern: '^[\\w.+-]+/([\\w.+-]+|\\*)$', description: 'Exact MIME type, or a family such as image/*' }),
+  from: string({ format: 'date-time', description: 'Uploaded at or after' }),
+  to: string({ format: 'date-time', description: 'Uploaded at or before' }),
+  minSize: integer({ minimum: 0, description: 'Bytes' }),
+  maxSize: integer({ minimum: 0, description: 'Bytes' })
+});
+
+export const myDocumentsSchema: RequestSchema = {
+  query: myDocumentsFields(false)
+};
+
+// POST /my-documents predates the GET route and takes the same fields in the body.
+// Without a limit it still returns every document, with download URLs.
+export const legacyMyDocumentsSchema: RequestSchema = {
+  body: myDocumentsFields(true)
+};
+
+// At least one of the fields - fileName renames the document
+export const updateDocumentMetadataSchema: RequestSchema = {
+  params: idParam('documentId'),
+  body: object({
+    fileName: string({ minLength: 1, maxLength: 255, pattern: '\\S' }),
+    description: string({ maxLength: 1000 }),
+    category,
+    tags
+  })
+};
+
+export const documentIdSchema: RequestSchema = {
+  params: idParam('documentId')
+};
+
+export const documentContentSchema: RequestSchema = {
+  params: idParam('documentId'),
+  query: object({
+    download: boolean({ description: 'Serve as an attachment (save) instead of inline (view)' })
+  })
+};
+
+export const documentVersionSchema: RequestSchema = {
+  params: object({
+    ...idParam('documentId').properties,
+    version: integer({ minimum: 1 })
+  }, ['documentId', 'version'])
+};
+
+export const moveDocumentSchema: RequestSchema = {
+  params: idParam('documentId'),
+  body: object({
+    folderId: string({ minLength: 1, maxLength: 128, nullable: true, description: 'Target folder, or null for the top level' })
+  }, ['folderId'])
+};
+
+export const searchDocumentsSchema: RequestSchema = {
+  query: object({
+    q: string({ minLength: 1, maxLength: 200, description: 'Words to find; each must match a whole word or the start of one' }),
+    limit: integer({ minimum: 1, maximum: 100 })
+  }, ['q'])
+};
+
+export const securityAlertsSchema: RequestSchema = {
+  query: object({
+    unreadOnly: boolean(),
+    limit: integer({ minimum: 1, maximum: 200 })
+  })
+};
+
+export const securityAlertIdSchema: RequestSchema = {
+  params: idParam('alertId')
+};
+
+export const createShareSchema: RequestSchema = {
+  body: object({
+    documentIds: array(string({ minLength: 1 }), { minItems: 1, maxItems: 50 }),
+    expiresInMinutes: integer({ minimum: 1, maximum: MAX_SHARE_TTL_MINUTES }),
+    maxViews: integer({ minimum: 1, nullable: true }),
+    passcode: string({ minLength: 4, maxLength: 64 }),
+    label: string({ maxLength: 100 })
+  }, ['documentIds'])
+};
+
+export const shareIdSchema: RequestSchema = {
+  params: idParam('shareId')
+};
+
+export const accessLogSchema: RequestSchema = {
+  query: object({
+    documentId: string(),
+    channel: string({ enum: ['OWNER', 'PIN', 'SHARE', 'ADMIN', 'PUBLIC'] }),
+    outcome: string({ enum: ['GRANTED', 'DENIED'] }),
+    from: string({ format: 'date-time' }),
+    to: string({ format: 'date-time' }),
+    limit: integer({ minimum: 1, maximum: 200 }),
+    cursor: string()
+  })
+};
+
+// Without a limit every visible document is returned
+export const documentsByPinSchema: RequestSchema = {
+  body: object({
+    ...listingFields(documentSummaryFields, true),
+    userId: string({ maxLength: 128 }),
+    // Not limited to the current PIN format - legacy PINs may still be stored
+    pin: string({ maxLength: 64 })
+  }, ['userId', 'pin'])
+};
+
+export const toggleVisibilitySchema: RequestSchema = {
+  params: idParam('documentId'),
+  body: object({
+    isDocShow: boolean()
+  }, ['isDocShow'])
+};
@@ -0,0 +1,9 @@
+import { boolean, object, RequestSchema, string } from '../validation';
+
+export const downloadTokenSchema: RequestSchema = {
+  // Tokens carry their claims, so they are longer than the IDs idParam allows
+  params: object({ token: string({ minLength: 1, maxLength: 2048 }) }, ['token']),
+  query: object({
+    download: boolean({ description: 'Serve as an attachment (save) instead of inline (view)' })
+  })
+};
@@ -0,0 +1,38 @@
+import { FOLDER_DELETE_MODES } from '../services/folders';
+import { RequestSchema, object, string } from '../validation';
+import { idParam } from './common';
+
+const folderName = string({ minLength: 1, maxLength: 100, pattern: '\\S' });
+
+// null (or omitted) for the top level
+const parentId = string({ minLength: 1, maxLength: 128, nullable: true });
+
+export const folderIdSchema: RequestSchema = {
+  params: idParam('folderId')
+};
+
+export const createFolderSchema: RequestSchema = {
+  body: object({
+    name: folderName,
+    parentId
+  }, ['name'])
+};
+
+// Rename and/or move - at least one of the fields
+export const updateFolderSchema: RequestSchema = {
+  params: idParam('folderId'),
+  body: object({
+    name: folderName,
+    parentId
+  })
+};
+
+export const deleteFolderSchema: RequestSchema = {
+  params: idParam('folderId'),
+  query: object({
+    contents: string({
+      enum: FOLDER_DELETE_MODES,
+      description: '`move-up` (default) moves the contents to the parent folder; `trash` trashes every document below the folder'
+    })
+  })
+};
@@ -0,0 +1,6 @@
+import { RequestSchema } from '../validation';
+import { idParam } from './common';
+
+export const openShareSchema: RequestSchema = {
+  params: idParam('token')
+};
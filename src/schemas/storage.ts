@@ -0,0 +1,10 @@
+import { RequestSchema, integer, object, string } from '../validation';
+
+// Parameters produced by LocalStorageProvider.signUrl()
+export const localObjectSchema: RequestSchema = {
+  query: object({
+    path: string({ minLength: 1 }),
+    expires: integer({ description: 'Epoch milliseconds' }),
+    signature: string()
+  }, ['path', 'expires', 'signature'])
+};
@@ -0,0 +1,36 @@
+import { DOCUMENT_MIME_TYPES } from '../models';
+import { MAX_RESUMABLE_UPLOAD_SIZE, MAX_UPLOAD_CHUNK_SIZE } from '../services/uploads';
+import { RequestSchema, integer, object, string } from '../validation';
+import { idParam } from './common';
+import { uploadDocumentSchema } from './documents';
+
+// The file is described up front; description, category, tags and folderId are as for POST /api/documents/upload
+export const createUploadSchema: RequestSchema = {
+  body: object({
+    fileName: string({ minLength: 1, maxLength: 255, pattern: '\\S' }),
+    mimeType: string({ maxLength: 255, description: `One of ${DOCUMENT_MIME_TYPES.join(', ')}` }),
+    fileSize: integer({ minimum: 1, description: `Bytes, at most ${MAX_RESUMABLE_UPLOAD_SIZE}` }),
+    ...uploadDocumentSchema.body?.properties
+  }, ['fileName', 'mimeType', 'fileSize'])
+};
+
+export const uploadIdSchema: RequestSchema = {
+  params: idParam('uploadId')
+};
+
+export const uploadChunkSchema: RequestSchema = {
+  params: idParam('uploadId'),
+  query: object({
+    offset: integer({
+      minimum: 0,
+      description: `Where the chunk starts - the upload's current offset. Chunks hold at most ${MAX_UPLOAD_CHUNK_SIZE} bytes.`
+    })
+  }, ['offset'])
+};
+
+export const completeUploadSchema: RequestSchema = {
+  params: idParam('uploadId'),
+  body: object({
+    sha256: string({ pattern: '^[0-9a-fA-F]{64}$', description: 'Hex SHA-256 of the whole file' })
+  }, ['sha256'])
+};
@@ -0,0 +1,39 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { checkConsistency } from '../services/consistency';
+
+/**
+ * Compare storage with the database for every user, or only the given one, and report what is out of sync:
+ * `npm run storage:check -- [--repair] [<uid>]`.
+ * Without --repair nothing is changed. Exits with code 1 when a user could not be checked
+ * or a repair failed.
+ */
+dotenv.config();
+initializeFirebase();
+
+const args = process.argv.slice(2);
+const repair = args.includes('--repair');
+const userId = args.find(arg => !arg.startsWith('--'));
+
+checkConsistency({ repair, userId })
+  .then(({ checkedUsers, inconsistencies, failedUsers }) => {
+    for (const { kind, userId: uid, storagePath, documentId, version, repaired, error } of inconsistencies) {
+      const subject = [storagePath, documentId && `document ${documentId}`, version && `version ${version}`]
+        .filter(Boolean)
+        .join(', ');
+      const outcome = repair ? (repaired ? ' - repaired' : ` - repair failed: ${error}`) : '';
+      console.log(`${kind} ${uid}: ${subject}${outcome}`);
+    }
+    console.log(`🔍 Checked ${checkedUsers} user(s): ${inconsistencies.length} inconsistenc${inconsistencies.length === 1 ? 'y' : 'ies'}`
+      + (repair ? '' : ' (dry run - pass --repair to fix them)'));
+
+    const unrepaired = inconsistencies.filter(inconsistency => repair && !inconsistency.repaired);
+    if (failedUsers.length > 0) {
+      console.error(`❌ Failed to check ${failedUsers.length} user(s): ${failedUsers.join(', ')}`);
+    }
+    process.exit(failedUsers.length + unrepaired.length > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('❌ Consistency check failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,25 @@
+import { checkSpecCoverage } from '../openapi';
+import { routeMounts } from '../routes';
+
+/**
+ * Fails (exit code 1) when a mounted route has no OpenAPI route doc, or a route doc matches no route.
+ * Run with `npm run check:openapi` (part of `npm run build`).
+ */
+const { undocumented, unknown, duplicates } = checkSpecCoverage(routeMounts);
+
+const report = (title: string, routes: string[]) => {
+  if (routes.length > 0) {
+    console.error(`❌ ${title}:`);
+    routes.forEach(route => console.error(`   ${route}`));
+  }
+};
+
+report('Routes missing from the OpenAPI spec (add them under src/openapi/paths)', undocumented);
+report('OpenAPI entries without a matching route', unknown);
+report('Routes documented more than once', duplicates);
+
+if (undocumented.length + unknown.length + duplicates.length > 0) {
+  process.exit(1);
+}
+
+console.log('✅ OpenAPI spec covers every route');
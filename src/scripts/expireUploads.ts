@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { expireStaleUploads, UPLOAD_SESSION_TTL_HOURS } from '../services/uploads';
+
+/**
+ * Delete resumable uploads that received no chunk for UPLOAD_SESSION_TTL_HOURS, with their chunks.
+ * Run with `npm run uploads:expire` (e.g. from a cron job when UPLOAD_EXPIRY_ON_SCHEDULE=false).
+ * Exits with code 1 when any upload could not be cleaned up.
+ */
+dotenv.config();
+initializeFirebase();
+
+expireStaleUploads()
+  .then(({ expired, failed }) => {
+    console.log(`⏳ Expired ${expired.length} upload(s) idle for more than ${UPLOAD_SESSION_TTL_HOURS} hours`);
+    if (failed.length > 0) {
+      console.error(`❌ Failed to expire ${failed.length} upload(s): ${failed.join(', ')}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Upload expiry failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from '../services/trash';
+
+/**
+ * Permanently delete documents that have been in the trash longer than TRASH_RETENTION_DAYS.
+ * Run with `npm run purge:trash` (e.g. from a cron job when TRASH_PURGE_ON_SCHEDULE=false).
+ * Exits with code 1 when any document could not be purged.
+ */
+dotenv.config();
+initializeFirebase();
+
+purgeExpiredTrash()
+  .then(({ purged, failed }) => {
+    console.log(`🗑️  Purged ${purged.length} document(s) trashed more than ${TRASH_RETENTION_DAYS} days ago`);
+    if (failed.length > 0) {
+      console.error(`❌ Failed to purge ${failed.length} document(s): ${failed.join(', ')}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Trash purge failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,28 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { rebuildAllSearchIndexes, rebuildSearchIndex } from '../services/search';
+
+/**
+ * Rebuild the document search index from the documents collection - every user's,
+ * or only the given user's: `npm run search:reindex -- <uid>`.
+ * Use it to backfill documents uploaded before search existed or to repair a drifted index. Run it once after
+ * upgrading from the single per-user index records - the `searchIndexes` collection is no longer read and can be deleted.
+ */
+dotenv.config();
+initializeFirebase();
+
+const userId = process.argv[2];
+
+const rebuild = userId
+  ? rebuildSearchIndex(userId).then(documents => ({ users: 1, documents }))
+  : rebuildAllSearchIndexes();
+
+rebuild
+  .then(({ users, documents }) => {
+    console.log(`🔎 Indexed ${documents} document(s) for ${users} user(s)`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Search index rebuild failed:', error);
+    process.exit(1);
+  });
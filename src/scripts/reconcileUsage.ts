@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { getUserRepository } from '../repositories';
+import { reconcileAllUsage, reconcileUserUsage, UsageReconciliation } from '../services/usage';
+
+/**
+ * Recompute every user's totalSize from their documents and profile picture and correct any drift -
+ * or only the given user's: `npm run usage:reconcile -- <uid>`.
+ * Run it from a cron job when USAGE_RECONCILE_ON_SCHEDULE=false.
+ * Exits with code 1 when any user could not be reconciled.
+ */
+dotenv.config();
+initializeFirebase();
+
+const userId = process.argv[2];
+
+const reconcileOne = async (uid: string): Promise<UsageReconciliation> => {
+  const user = await getUserRepository().findById(uid);
+  if (!user) {
+    throw new Error(`User not found: ${uid}`);
+  }
+  const drift = await reconcileUserUsage(user);
+  return {
+    checked: 1,
+    corrected: drift.outcome === 'CORRECTED' ? [drift] : [],
+    skipped: drift.outcome === 'SKIPPED' ? [drift] : [],
+    failed: []
+  };
+};
+
+(userId ? reconcileOne(userId) : reconcileAllUsage())
+  .then(({ checked, corrected, skipped, failed }) => {
+    for (const { uid, recordedSize, actualSize, drift } of corrected) {
+      console.log(`⚖️  ${uid}: ${recordedSize} -> ${actualSize} bytes (${drift > 0 ? '+' : ''}${drift})`);
+    }
+    for (const { uid, recordedSize, actualSize } of skipped) {
+      console.log(`⏭️  ${uid}: recorded ${recordedSize}, measured ${actualSize} bytes - changed recently, left for the next run`);
+    }
+    console.log(`⚖️  Checked ${checked} user(s), corrected ${corrected.length}, skipped ${skipped.length}`);
+    if (failed.length > 0) {
+      console.error(`❌ Failed to reconcile ${failed.length} user(s): ${failed.join(', ')}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Usage reconciliation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../config/firebase';
+import { scanPendingDocuments } from '../services/malwareScan';
+
+/**
+ * Scan every document that has no malware verdict yet - documents uploaded before scanning, which are
+ * withheld from PIN holders and share links until then (run it once after enabling scanning to backfill them).
+ * Run with `npm run scan:pending` (e.g. from a cron job when MALWARE_RESCAN_ON_SCHEDULE=false).
+ * Exits with code 1 when any document could not be rescanned, or the scanner is unavailable.
+ */
+dotenv.config();
+initializeFirebase();
+
+scanPendingDocuments()
+  .then(({ clean, infected, pending, failed }) => {
+    for (const documentId of infected) {
+      console.log(`☣️  ${documentId}: infected - withheld`);
+    }
+    console.log(`🛡️  ${clean.length} clean, ${infected.length} infected, ${pending.length} still pending`);
+    if (failed.length > 0) {
+      console.error(`❌ Failed to rescan ${failed.length} document(s): ${failed.join(', ')}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Malware rescan failed:', error);
+    process.exit(1);
+  });
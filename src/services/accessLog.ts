@@ -0,0 +1,46 @@
+import { Request } from 'express';
+import { AccessChannel, AccessOutcome, NewAccessEvent } from '../models';
+import { getAccessEventRepository } from '../repositories';
+import { getClientIp, getUserAgent } from '../utils/request';
+
+export interface AccessRecord {
+  ownerId: string;
+  // One event is written per document; use [null] when no document was resolved
+  documentIds: Array<string | null>;
+  channel: AccessChannel;
+  outcome: AccessOutcome;
+  action: string;
+  reason?: string;
+  shareId?: string;
+}
+
+/**
+ * Append access events for a request. Never throws - a failed audit write
+ * is logged rather than failing the read it describes.
+ */
+export const recordAccess = async (req: Request, record: AccessRecord): Promise<void> => {
+  const occurredAt = Date.now();
+  const userAgent = getUserAgent(req);
+
+  try {
+    const accessEvents = getAccessEventRepository();
+    await Promise.all(record.documentIds.map((documentId) => {
+      const event: NewAccessEvent = {
+        ownerId: record.ownerId,
+        documentId,
+        channel: record.channel,
+        outcome: record.outcome,
+        action: record.action,
+        ipAddress: getClientIp(req),
+        occurredAt,
+        // Firestore rejects undefined fields
+        ...(record.reason ? { reason: record.reason } : {}),
+        ...(record.shareId ? { shareId: record.shareId } : {}),
+        ...(userAgent ? { userAgent } : {})
+      };
+      return accessEvents.append(event);
+    }));
+  } catch (error) {
+    console.error('Error recording access event:', error);
+  }
+};
@@ -0,0 +1,230 @@
+import { contentBlobIdFromPath, DocumentVersion, summaryDocId, User, WalletDocument } from '../models';
+import {
+  getContentBlobRepository,
+  getDocumentRepository,
+  getDocumentVersionRepository,
+  getUserRepository
+} from '../repositories';
+import { getStorageProvider, StoredObjectInfo } from '../storage';
+import { numberFromEnv } from '../utils/env';
+import { releaseContent } from './contentStore';
+import { adjustTotalSize } from './quota';
+import { purgeDocument } from './trash';
+
+// Objects written this recently may belong to an upload whose document is not recorded yet and are left alone
+const CONSISTENCY_GRACE_MINUTES = numberFromEnv('CONSISTENCY_GRACE_MINUTES', 60);
+
+export type InconsistencyKind =
+  // An object under the user's prefix no document version refers to (or an old profile picture)
+  | 'ORPHANED_OBJECT'
+  // A document (or one of its versions) whose file is not in storage
+  | 'MISSING_OBJECT'
+  // The user's profilePicturePath points at nothing
+  | 'MISSING_PROFILE_PICTURE'
+  // An entry in the user's documents array without a document behind it
+  | 'DANGLING_DOCUMENT_ENTRY';
+
+export interface Inconsistency {
+  kind: InconsistencyKind;
+  userId: string;
+  storagePath?: string;
+  documentId?: string;
+  version?: number;
+  size?: number;
+  // Set in repair mode: whether the inconsistency was fixed
+  repaired?: boolean;
+  // Why the repair failed
+  error?: string;
+}
+
+export interface ConsistencyReport {
+  repair: boolean;
+  checkedUsers: number;
+  inconsistencies: Inconsistency[];
+  // Users whose check itself failed - the next run retries them
+  failedUsers: string[];
+}
+
+type DocumentFile = Pick<DocumentVersion, 'storagePath' | 'fileSize'> & { version?: number };
+
+// The files a document refers to - documents uploaded before versioning only have their current one
+const documentFiles = async (document: WalletDocument): Promise<DocumentFile[]> => {
+  if (document.currentVersion === undefined) {
+    return [{ storagePath: document.storagePath, fileSize: document.fileSize || 0 }];
+  }
+  return getDocumentVersionRepository().listByDocument(document.id);
+};
+
+// Run a repair, recording its outcome on the inconsistency
+const attempt = async (inconsistency: Inconsistency, fix: () => Promise<void>): Promise<void> => {
+  try {
+    await fix();
+    inconsistency.repaired = true;
+  } catch (error: any) {
+    inconsistency.repaired = false;
+    inconsistency.error = error?.message ?? String(error);
+  }
+};
+
+const deleteObject = async (storagePath: string): Promise<void> => {
+  try {
+    await getStorageProvider().delete(storagePath);
+  } catch (error: any) {
+    if (error?.code !== 404) {
+      throw error;
+    }
+  }
+  // Forget the stored contents too, so the next upload of them writes the object again
+  const blobId = contentBlobIdFromPath(storagePath);
+  if (blobId) {
+    await getContentBlobRepository().modify(blobId, current => (current?.storagePath === storagePath ? null : current));
+  }
+};
+
+/**
+ * Compare what storage holds for the user (objects under `<uid>/` and `profile-pictures/<uid>/`)
+ * with their documents, versions, profile picture and documents array.
+ * With `repair`:
+ * - orphaned objects are deleted
+ * - a document whose current file is missing is deleted for good (like a trash purge); a missing
+ *   older version is dropped from its history and released from the quota
+ * - a missing profile picture is unset
+ * - dangling documents array entries are removed
+ * Resumable upload chunks (`uploads/`) are left to the upload expiry job.
+ */
+export const checkUserConsistency = async (
+  user: User,
+  options: { repair?: boolean; now?: number } = {}
+): Promise<Inconsistency[]> => {
+  const { repair = false, now = Date.now() } = options;
+  const storage = getStorageProvider();
+  const inconsistencies: Inconsistency[] = [];
+  const userId = user.uid;
+
+  const objects = await storage.list(`${userId}/`);
+  const existing = new Set(objects.map(object => object.path));
+  const exists = async (storagePath: string): Promise<boolean> =>
+    storagePath.startsWith(`${userId}/`) ? existing.has(storagePath) : (await storage.stat(storagePath)) !== null;
+
+  // Documents (trash included) and the files they refer to
+  const documents = await getDocumentRepository().listByUser(userId);
+  const referenced = new Set<string>();
+  for (const document of documents) {
+    const files = await documentFiles(document);
+    files.forEach(file => referenced.add(file.storagePath));
+
+    for (const file of files) {
+      if (await exists(file.storagePath)) {
+        continue;
+      }
+
+      const current = file.version === undefined || file.version === document.currentVersion;
+      const inconsistency: Inconsistency = {
+        kind: 'MISSING_OBJECT',
+        userId,
+        storagePath: file.storagePath,
+        documentId: document.id,
+        ...(file.version !== undefined ? { version: file.version } : {}),
+        size: file.fileSize
+      };
+      inconsistencies.push(inconsistency);
+
+      if (repair && current) {
+        await attempt(inconsistency, async () => {
+          await purgeDocument(document);
+        });
+        // The rest of the document went with it
+        break;
+      }
+      if (repair) {
+        await attempt(inconsistency, async () => {
+          await releaseContent(file.storagePath);
+          await getDocumentVersionRepository().delete(document.id, file.version as number);
+          await adjustTotalSize(userId, -file.fileSize);
+        });
+      }
+    }
+  }
+
+  // Objects nothing refers to, old enough not to belong to an upload in progress
+  const settledBefore = now - CONSISTENCY_GRACE_MINUTES * 60 * 1000;
+  const settled = (object: StoredObjectInfo): boolean => !object.updatedAt || object.updatedAt.getTime() < settledBefore;
+  const pictures = await storage.list(`profile-pictures/${userId}/`);
+  const orphans = [
+    ...objects.filter(object => !referenced.has(object.path)),
+    ...pictures.filter(object => object.path !== user.profilePicturePath)
+  ].filter(settled);
+
+  for (const object of orphans) {
+    const inconsistency: Inconsistency = { kind: 'ORPHANED_OBJECT', userId, storagePath: object.path, size: object.size };
+    inconsistencies.push(inconsistency);
+    if (repair) {
+      await attempt(inconsistency, () => deleteObject(object.path));
+    }
+  }
+
+  const users = getUserRepository();
+  if (user.profilePicturePath && !(await exists(user.profilePicturePath))) {
+    const inconsistency: Inconsistency = { kind: 'MISSING_PROFILE_PICTURE', userId, storagePath: user.profilePicturePath };
+    inconsistencies.push(inconsistency);
+    if (repair) {
+      await attempt(inconsistency, () => users.update(userId, { profilePicture: '', profilePicturePath: '' }));
+    }
+  }
+
+  // Entries (summaries or legacy string IDs) whose document does not exist
+  const documentIds = new Set(documents.map(document => document.id));
+  for (const entry of user.documents) {
+    const documentId = summaryDocId(entry);
+    if (documentIds.has(documentId)) {
+      continue;
+    }
+    const inconsistency: Inconsistency = { kind: 'DANGLING_DOCUMENT_ENTRY', userId, documentId };
+    inconsistencies.push(inconsistency);
+    if (repair) {
+      await attempt(inconsistency, () => users.removeDocumentSummary(userId, documentId));
+    }
+  }
+
+  return inconsistencies;
+};
+
+/**
+ * Check every user (or only `userId`). Dry run unless `repair` is set.
+ * Users whose check fails are logged and reported in failedUsers.
+ */
+export const checkConsistency = async (options: { repair?: boolean; userId?: string; now?: number } = {}): Promise<ConsistencyReport> => {
+  const repair = options.repair ?? false;
+  const report: ConsistencyReport = { repair, checkedUsers: 0, inconsistencies: [], failedUsers: [] };
+
+  const check = async (user: User): Promise<void> => {
+    report.checkedUsers += 1;
+    try {
+      report.inconsistencies.push(...await checkUserConsistency(user, { repair, now: options.now }));
+    } catch (error) {
+      console.error(`Error checking storage consistency of user ${user.uid}:`, error);
+      report.failedUsers.push(user.uid);
+    }
+  };
+
+  const users = getUserRepository();
+  if (options.userId) {
+    const user = await users.findById(options.userId);
+    if (!user) {
+      throw new Error(`User not found: ${options.userId}`);
+    }
+    await check(user);
+    return report;
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = await users.search({ limit: 100, cursor });
+    for (const user of page.users) {
+      await check(user);
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return report;
+};
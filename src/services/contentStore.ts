@@ -0,0 +1,182 @@
+import * as crypto from 'crypto';
+import { ContentBlob, contentBlobId, contentBlobIdFromPath, isTrashed, WalletDocument } from '../models';
+import { getContentBlobRepository, getDocumentRepository, getDocumentVersionRepository } from '../repositories';
+import { getStorageProvider, PutOptions } from '../storage';
+
+/**
+ * Where a file's contents ended up
+ */
+export interface StoredContent {
+  storagePath: string;
+  sha256: string;
+  // The user already had these bytes stored - nothing new was written
+  deduplicated: boolean;
+}
+
+export interface StorageReport {
+  // What the user's documents add up to, every retained version counted in full (what the quota counts)
+  logicalSize: number;
+  // What they actually take up in storage
+  storedSize: number;
+  savedSize: number;
+  // Distinct stored contents referenced more than once
+  sharedContents: number;
+}
+
+const sha256Hex = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+// Storage providers reject deleting a missing object with code 404
+const deleteStoredObject = async (storagePath: string): Promise<void> => {
+  try {
+    await getStorageProvider().delete(storagePath);
+  } catch (error: any) {
+    if (error?.code !== 404) {
+      throw error;
+    }
+  }
+};
+
+// Take a reference to the user's blob for these contents, recording it when it is new
+const acquireBlob = async (userId: string, sha256: string, size: number): Promise<ContentBlob> => {
+  const id = contentBlobId(userId, sha256);
+  const blob = await getContentBlobRepository().modify(id, (current) => {
+    const now = Date.now();
+    if (current) {
+      return { ...current, refCount: current.refCount + 1, updatedAt: now };
+    }
+    return {
+      id,
+      userId,
+      sha256,
+      storagePath: `${userId}/content/${sha256}_${crypto.randomBytes(4).toString('hex')}`,
+      size,
+      refCount: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+  return blob as ContentBlob;
+};
+
+/**
+ * Drop one reference to stored contents, deleting the object with the last reference.
+ * Files stored before content addressing have a single owner and are deleted right away.
+ * An object already missing from storage counts as deleted.
+ */
+export const releaseContent = async (storagePath: string): Promise<void> => {
+  const id = contentBlobIdFromPath(storagePath);
+  if (!id) {
+    await deleteStoredObject(storagePath);
+    return;
+  }
+
+  let lastReference = false;
+  await getContentBlobRepository().modify(id, (current) => {
+    // No record (e.g. a retried release) - nothing else refers to the object
+    if (!current || current.storagePath !== storagePath) {
+      lastReference = true;
+      return current;
+    }
+    if (current.refCount > 1) {
+      return { ...current, refCount: current.refCount - 1, updatedAt: Date.now() };
+    }
+    lastReference = true;
+    return null;
+  });
+
+  if (lastReference) {
+    await deleteStoredObject(storagePath);
+  }
+};
+
+// Take a reference and make sure the object is in storage, writing it when it is not
+const storeBlob = async (
+  userId: string,
+  sha256: string,
+  size: number,
+  write: (storagePath: string) => Promise<void>
+): Promise<StoredContent> => {
+  const blob = await acquireBlob(userId, sha256, size);
+  const exists = blob.refCount > 1 && await getStorageProvider().stat(blob.storagePath) !== null;
+
+  if (!exists) {
+    try {
+      await write(blob.storagePath);
+    } catch (error) {
+      await releaseContent(blob.storagePath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return { storagePath: blob.storagePath, sha256, deduplicated: blob.refCount > 1 };
+};
+
+/**
+ * Store a file's contents for the user - only once, however many documents or versions use them.
+ * The object keeps the content type and metadata of the first upload, so neither should describe
+ * one particular document.
+ */
+export const storeContent = async (userId: string, data: Buffer, options: PutOptions = {}): Promise<StoredContent> => {
+  const sha256 = sha256Hex(data);
+  return storeBlob(userId, sha256, data.length, storagePath => getStorageProvider().put(storagePath, data, options));
+};
+
+/**
+ * Like storeContent, for a file already written (and hashed) elsewhere in storage.
+ * The source object is left in place for the caller to delete.
+ */
+export const storeContentFrom = async (
+  userId: string,
+  sourcePath: string,
+  sha256: string,
+  size: number,
+  options: PutOptions = {}
+): Promise<StoredContent> =>
+  storeBlob(userId, sha256, size, storagePath => getStorageProvider().compose([sourcePath], storagePath, options));
+
+export const DUPLICATE_WARNING = 'You already have this document';
+
+/**
+ * Another of the owner's documents (not in the trash) whose current file has the same contents
+ */
+export const findDuplicateDocument = async (document: WalletDocument): Promise<WalletDocument | null> => {
+  if (!document.sha256) {
+    return null;
+  }
+  const documents = await getDocumentRepository().listByUser(document.userId);
+  return documents.find(other => other.id !== document.id && !isTrashed(other) && other.sha256 === document.sha256)
+    ?? null;
+};
+
+/**
+ * How much storage content addressing saves the user, across every document including the trash
+ */
+export const storageReport = async (userId: string): Promise<StorageReport> => {
+  let logicalSize = 0;
+  // Files stored before content addressing each take up their own space
+  let unsharedSize = 0;
+
+  const versions = getDocumentVersionRepository();
+  for (const document of await getDocumentRepository().listByUser(userId)) {
+    const files = document.currentVersion === undefined
+      ? [{ storagePath: document.storagePath, fileSize: document.fileSize || 0 }]
+      : await versions.listByDocument(document.id);
+
+    for (const file of files) {
+      logicalSize += file.fileSize;
+      if (!contentBlobIdFromPath(file.storagePath)) {
+        unsharedSize += file.fileSize;
+      }
+    }
+  }
+
+  const blobs = await getContentBlobRepository().listByUser(userId);
+  const storedSize = unsharedSize + blobs.reduce((sum, blob) => sum + blob.size, 0);
+
+  return {
+    logicalSize,
+    storedSize,
+    savedSize: Math.max(0, logicalSize - storedSize),
+    sharedContents: blobs.filter(blob => blob.refCount > 1).length
+  };
+};
@@ -0,0 +1,170 @@
+import { BadRequestError } from '../errors';
+import {
+  DocumentCategory,
+  DocumentPosition,
+  documentPosition,
+  DocumentSort,
+  DocumentSortField,
+  normalizeTags,
+  toMillis,
+  WalletDocument
+} from '../models';
+import { getDocumentRepository } from '../repositories';
+
+// Documents read from the repository per round trip while filling a page
+const SCAN_BATCH_SIZE = 100;
+
+/**
+ * Filters accepted by document listings. Every given filter must match.
+ */
+export interface DocumentFilter {
+  category?: DocumentCategory;
+  // Documents must carry all of these tags
+  tags?: string[];
+  // Exact type (`application/pdf`) or a whole family (`image/*`)
+  mimeType?: string;
+  // Upload time range, epoch ms, inclusive
+  from?: number;
+  to?: number;
+  // File size range in bytes, inclusive
+  minSize?: number;
+  maxSize?: number;
+}
+
+/**
+ * Build a filter from validated query (or legacy body) fields
+ */
+export const documentFilterFrom = (input: Record<string, unknown>): DocumentFilter => ({
+  category: input.category as DocumentCategory | undefined,
+  tags: Array.isArray(input.tag) ? normalizeTags(input.tag as string[]) : undefined,
+  mimeType: input.mimeType as string | undefined,
+  from: input.from !== undefined ? Date.parse(String(input.from)) : undefined,
+  to: input.to !== undefined ? Date.parse(String(input.to)) : undefined,
+  minSize: input.minSize as number | undefined,
+  maxSize: input.maxSize as number | undefined
+});
+
+const matchesMimeType = (mimeType: string, pattern: string): boolean =>
+  pattern.endsWith('/*')
+    ? mimeType.toLowerCase().startsWith(pattern.slice(0, -1).toLowerCase())
+    : mimeType.toLowerCase() === pattern.toLowerCase();
+
+export const matchesFilter = (document: WalletDocument, filter: DocumentFilter): boolean => {
+  const uploadedAt = toMillis(document.uploadedAt);
+  const tags = document.tags || [];
+
+  return (filter.category === undefined || (document.category || 'other') === filter.category)
+    && (filter.tags === undefined || filter.tags.every(tag => tags.includes(tag)))
+    && (filter.mimeType === undefined || matchesMimeType(document.mimeType, filter.mimeType))
+    && (filter.from === undefined || uploadedAt >= filter.from)
+    && (filter.to === undefined || uploadedAt <= filter.to)
+    && (filter.minSize === undefined || document.fileSize >= filter.minSize)
+    && (filter.maxSize === undefined || document.fileSize <= filter.maxSize);
+};
+
+export const filterDocuments = (documents: WalletDocument[], filter: DocumentFilter): WalletDocument[] =>
+  documents.filter(document => matchesFilter(document, filter));
+
+export interface DocumentPageRequest {
+  sort: DocumentSort;
+  // Every matching document when omitted
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface DocumentPage {
+  documents: WalletDocument[];
+  nextCursor: string | null;
+}
+
+interface CursorPayload extends DocumentPosition {
+  field: DocumentSortField;
+  direction: DocumentSort['direction'];
+}
+
+/**
+ * Sort from validated `sort` and `order` fields. Newest first by default;
+ * without an order, names sort A-Z and sizes largest first.
+ */
+export const documentSortFrom = (input: Record<string, unknown>): DocumentSort => {
+  const field = (input.sort as DocumentSortField | undefined) || 'uploadedAt';
+  return {
+    field,
+    direction: (input.order as DocumentSort['direction'] | undefined) || (field === 'fileName' ? 'asc' : 'desc')
+  };
+};
+
+const encodeCursor = (sort: DocumentSort, position: DocumentPosition): string => {
+  const payload: CursorPayload = { field: sort.field, direction: sort.direction, ...position };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+// Cursors only continue the listing (and sort) they came from
+const decodeCursor = (cursor: string, sort: DocumentSort): DocumentPosition => {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    payload = {};
+  }
+
+  if (payload.field !== sort.field || payload.direction !== sort.direction
+    || typeof payload.id !== 'string' || !['number', 'string'].includes(typeof payload.value)) {
+    throw new BadRequestError('Invalid cursor for this sort order', 'INVALID_CURSOR');
+  }
+
+  return { value: payload.value as number | string, id: payload.id };
+};
+
+/**
+ * One page of the user's documents that pass `include`, in the requested order.
+ * Documents are read from the repository in sorted batches until the page is full,
+ * so only the documents up to the end of the page are loaded.
+ */
+export const pageDocuments = async (
+  userId: string,
+  include: (document: WalletDocument) => boolean,
+  request: DocumentPageRequest
+): Promise<DocumentPage> => {
+  const { sort, limit } = request;
+  const wanted = limit === undefined ? Infinity : limit + 1;
+  const matching: WalletDocument[] = [];
+  let after = request.cursor ? decodeCursor(request.cursor, sort) : undefined;
+
+  while (matching.length < wanted) {
+    const batch = await getDocumentRepository().listByUserSorted(userId, sort, { after, limit: SCAN_BATCH_SIZE });
+    for (const document of batch) {
+      if (include(document)) {
+        matching.push(document);
+        if (matching.length === wanted) {
+          break;
+        }
+      }
+    }
+    if (batch.length < SCAN_BATCH_SIZE) {
+      break;
+    }
+    after = documentPosition(batch[batch.length - 1], sort.field);
+  }
+
+  // The extra document only tells whether another page exists
+  const documents = limit === undefined ? matching : matching.slice(0, limit);
+  const hasMore = limit !== undefined && matching.length > limit;
+
+  return {
+    documents,
+    nextCursor: hasMore ? encodeCursor(sort, documentPosition(documents[documents.length - 1], sort.field)) : null
+  };
+};
+
+/**
+ * Keep only the requested fields of a listing entry (all of them when none are requested).
+ * The entry's ID field is always kept so clients can still tell entries apart.
+ */
+export const selectFields = <T extends object>(entry: T, fields: string[] | undefined, idField: keyof T): Partial<T> =>
+  fields && fields.length > 0
+    ? Object.fromEntries(
+      Object.entries(entry).filter(([key]) => key === idField || fields.includes(key))
+    ) as Partial<T>
+    : entry;
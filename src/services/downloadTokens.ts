@@ -0,0 +1,233 @@
+import * as crypto from 'crypto';
+import { authorize } from '../middleware/accessPolicy';
+import { AccessChannel, DownloadSigningKey, DownloadTokenClaims, isTrashed, ScanStatus, WalletDocument } from '../models';
+import {
+  getDocumentRepository,
+  getDocumentVersionRepository,
+  getDownloadTokenRepository,
+  getShareRepository,
+  getUserRepository
+} from '../repositories';
+import { numberFromEnv, publicBaseUrl } from '../utils/env';
+import { scanAllows } from './malwareScan';
+
+// Token lifetime per channel. Admins and the legacy open routes get the owner's lifetime.
+// SHARE_URL_TTL_MINUTES is the older name of the share setting.
+export const DOWNLOAD_TOKEN_TTL_MINUTES = {
+  OWNER: numberFromEnv('DOWNLOAD_TOKEN_TTL_MINUTES_OWNER', 60),
+  PIN: numberFromEnv('DOWNLOAD_TOKEN_TTL_MINUTES_PIN', 15),
+  SHARE: numberFromEnv('DOWNLOAD_TOKEN_TTL_MINUTES_SHARE', numberFromEnv('SHARE_URL_TTL_MINUTES', 15))
+};
+
+// How long an instance trusts its cached signing key before reading it again,
+// i.e. how long a key rotated on another instance keeps verifying here
+const SIGNING_KEY_CACHE_MS = 60 * 1000;
+
+// A token with an unknown key ID reloads the key at most this often, so junk tokens cannot force a read per request
+const SIGNING_KEY_REFRESH_MIN_MS = 5 * 1000;
+
+// Key IDs as newSigningKey makes them
+const SIGNING_KEY_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+export type DownloadGrant = Omit<DownloadTokenClaims, 'issuedAt' | 'expiresAt'>;
+
+export type DownloadTokenFailure =
+  | 'INVALID_TOKEN'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_REVOKED'
+  | 'DOCUMENT_NOT_FOUND'
+  | 'ACCESS_REVOKED'
+  // The file has not passed the malware scan (see scanAllows)
+  | 'FILE_WITHHELD';
+
+export type DownloadTokenResult =
+  // storagePath, fileName and mimeType are those of the version the token grants
+  | {
+    ok: true;
+    claims: DownloadTokenClaims;
+    document: WalletDocument;
+    storagePath: string;
+    fileName: string;
+    mimeType: string;
+  }
+  // claims are set when the token itself was genuine; scanStatus is that of the withheld file (FILE_WITHHELD only)
+  | { ok: false; reason: DownloadTokenFailure; claims?: DownloadTokenClaims; scanStatus?: ScanStatus | null };
+
+interface SignedPayload extends DownloadTokenClaims {
+  keyId: string;
+}
+
+let cachedKey: { key: DownloadSigningKey; loadedAt: number } | null = null;
+
+const newSigningKey = (): DownloadSigningKey => ({
+  id: crypto.randomBytes(8).toString('hex'),
+  secret: crypto.randomBytes(32).toString('hex'),
+  createdAt: Date.now()
+});
+
+const currentSigningKey = async (refresh = false): Promise<DownloadSigningKey> => {
+  const maxAgeMs = refresh ? SIGNING_KEY_REFRESH_MIN_MS : SIGNING_KEY_CACHE_MS;
+  if (cachedKey && Date.now() - cachedKey.loadedAt < maxAgeMs) {
+    return cachedKey.key;
+  }
+  const key = await getDownloadTokenRepository().getSigningKey(newSigningKey());
+  cachedKey = { key, loadedAt: Date.now() };
+  return key;
+};
+
+const sign = (payload: string, key: DownloadSigningKey): string =>
+  crypto.createHmac('sha256', key.secret).update(payload).digest('base64url');
+
+const ttlMinutesFor = (channel: AccessChannel): number =>
+  channel === 'PIN' || channel === 'SHARE' ? DOWNLOAD_TOKEN_TTL_MINUTES[channel] : DOWNLOAD_TOKEN_TTL_MINUTES.OWNER;
+
+/**
+ * Issue a token for one document (or one of its versions), valid for the channel's lifetime
+ */
+export const issueDownloadToken = async (grant: DownloadGrant): Promise<{ token: string; expiresAt: number }> => {
+  const key = await currentSigningKey();
+  const issuedAt = Date.now();
+  const payload: SignedPayload = {
+    ...grant,
+    issuedAt,
+    expiresAt: issuedAt + ttlMinutesFor(grant.channel) * 60 * 1000,
+    keyId: key.id
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${encoded}.${sign(encoded, key)}`, expiresAt: payload.expiresAt };
+};
+
+/**
+ * Issue a token and build the API URL that serves the file for it
+ */
+export const issueDownloadUrl = async (grant: DownloadGrant): Promise<{ downloadURL: string; expiresAt: number }> => {
+  const { token, expiresAt } = await issueDownloadToken(grant);
+  return { downloadURL: `${publicBaseUrl()}/api/downloads/${token}`, expiresAt };
+};
+
+/**
+ * The claims of a token signed with the current key, or null for anything else
+ * (malformed, tampered with, or signed with a key that has since been rotated)
+ */
+const verifySignature = async (token: string): Promise<DownloadTokenClaims | null> => {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+
+  let payload: SignedPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || typeof payload.keyId !== 'string') {
+    return null;
+  }
+
+  // A different key ID may mean the key was rotated on another instance since it was cached -
+  // reloaded only for IDs a key could have, and no more often than SIGNING_KEY_REFRESH_MIN_MS
+  let key = await currentSigningKey();
+  if (payload.keyId !== key.id && SIGNING_KEY_ID_PATTERN.test(payload.keyId)) {
+    key = await currentSigningKey(true);
+  }
+  if (payload.keyId !== key.id) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded, key));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const { keyId: _keyId, ...claims } = payload;
+  return claims;
+};
+
+// Whether the channel the token was issued through still grants access to the document
+const channelStillAllows = async (claims: DownloadTokenClaims, document: WalletDocument): Promise<boolean> => {
+  const target = { ownerId: document.userId, documentId: document.id };
+
+  switch (claims.channel) {
+    case 'PIN': {
+      // The owner may have hidden the document from PIN holders since
+      const owner = await getUserRepository().findById(document.userId);
+      const summary = owner?.documents.find(entry => typeof entry === 'object' && entry.docId === document.id);
+      const visibleToPin = typeof summary === 'object' && summary.isDocShow === true;
+      return authorize({ pinVerifiedFor: claims.userId }, { ...target, visibleToPin }, { allow: ['pin'] }).allowed;
+    }
+    case 'SHARE': {
+      // Checked without counting a view - the share was opened when the token was issued
+      const share = claims.shareId ? await getShareRepository().findById(claims.shareId) : null;
+      return Boolean(share) && !share!.revokedAt && share!.expiresAt > Date.now()
+        && authorize({ share: share! }, target, { allow: ['share'] }).allowed;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Check a token and resolve the file it grants: signature, expiry, the document's revocations,
+ * that the document still exists with the same owner, that the channel still allows access
+ * and that the file has passed the malware scan where the channel requires it
+ */
+export const resolveDownloadToken = async (token: string): Promise<DownloadTokenResult> => {
+  const claims = await verifySignature(token);
+  if (!claims) {
+    return { ok: false, reason: 'INVALID_TOKEN' };
+  }
+  if (claims.expiresAt <= Date.now()) {
+    return { ok: false, reason: 'TOKEN_EXPIRED', claims };
+  }
+
+  const revokedAt = await getDownloadTokenRepository().findRevocation(claims.documentId);
+  if (revokedAt !== null && claims.issuedAt <= revokedAt) {
+    return { ok: false, reason: 'TOKEN_REVOKED', claims };
+  }
+
+  const document = await getDocumentRepository().findById(claims.documentId);
+  if (!document || isTrashed(document) || document.userId !== claims.userId) {
+    return { ok: false, reason: 'DOCUMENT_NOT_FOUND', claims };
+  }
+  if (!(await channelStillAllows(claims, document))) {
+    return { ok: false, reason: 'ACCESS_REVOKED', claims };
+  }
+
+  if (claims.version !== undefined && claims.version !== document.currentVersion) {
+    const version = await getDocumentVersionRepository().find(document.id, claims.version);
+    if (!version) {
+      return { ok: false, reason: 'DOCUMENT_NOT_FOUND', claims };
+    }
+    if (!scanAllows(version, claims.channel)) {
+      return { ok: false, reason: 'FILE_WITHHELD', claims, scanStatus: version.scanStatus ?? null };
+    }
+    return { ok: true, claims, document, storagePath: version.storagePath, fileName: version.fileName, mimeType: version.mimeType };
+  }
+
+  if (!scanAllows(document, claims.channel)) {
+    return { ok: false, reason: 'FILE_WITHHELD', claims, scanStatus: document.scanStatus ?? null };
+  }
+  return { ok: true, claims, document, storagePath: document.storagePath, fileName: document.fileName, mimeType: document.mimeType };
+};
+
+/**
+ * Revoke every token issued so far for the document. Tokens issued afterwards work as usual.
+ */
+export const revokeDocumentTokens = async (documentId: string): Promise<number> => {
+  const revokedAt = Date.now();
+  await getDownloadTokenRepository().revokeDocument(documentId, revokedAt);
+  return revokedAt;
+};
+
+/**
+ * Replace the signing key, invalidating every outstanding token. Other instances pick up the
+ * new key within SIGNING_KEY_CACHE_MS.
+ */
+export const rotateSigningKey = async (): Promise<{ keyId: string; rotatedAt: number }> => {
+  const key = newSigningKey();
+  await getDownloadTokenRepository().setSigningKey(key);
+  cachedKey = { key, loadedAt: Date.now() };
+  return { keyId: key.id, rotatedAt: key.createdAt };
+};
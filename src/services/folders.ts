@@ -0,0 +1,207 @@
+import { BadRequestError, NotFoundError } from '../errors';
+import { Folder, isTrashed, WalletDocument } from '../models';
+import { getDocumentRepository, getFolderRepository } from '../repositories';
+import { numberFromEnv } from '../utils/env';
+import { moveToTrash } from './trash';
+
+// Deepest allowed nesting - a top-level folder is at depth 1
+export const MAX_FOLDER_DEPTH = numberFromEnv('MAX_FOLDER_DEPTH', 10);
+
+/**
+ * What happens to a folder's contents when it is deleted: `move-up` hands its documents and
+ * sub-folders to the parent folder, `trash` moves every document below it to the trash
+ */
+export type FolderDeleteMode = 'move-up' | 'trash';
+
+export const FOLDER_DELETE_MODES: FolderDeleteMode[] = ['move-up', 'trash'];
+
+export interface FolderSummary extends Folder {
+  folderCount: number;
+  documentCount: number;
+}
+
+export interface FolderContents {
+  // null for the top level
+  folder: Folder | null;
+  // Ancestors from the top level down to the listed folder (inclusive)
+  path: Folder[];
+  folders: FolderSummary[];
+  documents: WalletDocument[];
+}
+
+/**
+ * One of the user's folders. Other users' folders are reported as missing.
+ */
+export const findUserFolder = async (userId: string, folderId: string): Promise<Folder> => {
+  const folder = await getFolderRepository().findById(folderId);
+  if (!folder || folder.userId !== userId) {
+    throw new NotFoundError('Folder not found', 'FOLDER_NOT_FOUND', { folderId });
+  }
+  return folder;
+};
+
+const folderPath = (folders: Folder[], folderId: string | null): Folder[] => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// IDs of the folder and every folder below it
+const subtreeIds = (folders: Folder[], folderId: string): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+// Levels in the subtree rooted at the folder, counting the folder itself
+const subtreeHeight = (folders: Folder[], folderId: string): number => {
+  const children = folders.filter(folder => folder.parentId === folderId);
+  return 1 + Math.max(0, ...children.map(child => subtreeHeight(folders, child.id)));
+};
+
+const assertDepth = (depth: number): void => {
+  if (depth > MAX_FOLDER_DEPTH) {
+    throw new BadRequestError(
+      `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep`,
+      'FOLDER_TOO_DEEP',
+      { maxDepth: MAX_FOLDER_DEPTH }
+    );
+  }
+};
+
+export const createFolder = async (userId: string, name: string, parentId: string | null): Promise<Folder> => {
+  if (parentId) {
+    await findUserFolder(userId, parentId);
+    const folders = await getFolderRepository().listByUser(userId);
+    assertDepth(folderPath(folders, parentId).length + 1);
+  }
+
+  const now = Date.now();
+  return getFolderRepository().create({ userId, name, parentId, createdAt: now, updatedAt: now });
+};
+
+/**
+ * Rename a folder and/or move it under another parent (null for the top level)
+ */
+export const updateFolder = async (
+  folder: Folder,
+  changes: { name?: string; parentId?: string | null }
+): Promise<Folder> => {
+  const { name, parentId } = changes;
+
+  if (parentId !== undefined && parentId !== folder.parentId) {
+    const folders = await getFolderRepository().listByUser(folder.userId);
+
+    if (parentId) {
+      if (subtreeIds(folders, folder.id).has(parentId)) {
+        throw new BadRequestError('A folder cannot be moved into itself or one of its sub-folders', 'INVALID_FOLDER_MOVE');
+      }
+      await findUserFolder(folder.userId, parentId);
+    }
+
+    const parentDepth = parentId ? folderPath(folders, parentId).length : 0;
+    assertDepth(parentDepth + subtreeHeight(folders, folder.id));
+  }
+
+  const fields = {
+    ...(name !== undefined ? { name } : {}),
+    ...(parentId !== undefined ? { parentId } : {}),
+    updatedAt: Date.now()
+  };
+  await getFolderRepository().update(folder.id, fields);
+
+  return { ...folder, ...fields };
+};
+
+/**
+ * Move a document into a folder, or to the top level with null
+ */
+export const moveDocumentToFolder = async (document: WalletDocument, folderId: string | null): Promise<WalletDocument> => {
+  if (folderId) {
+    await findUserFolder(document.userId, folderId);
+  }
+
+  await getDocumentRepository().update(document.id, { folderId });
+  return { ...document, folderId };
+};
+
+/**
+ * A folder's sub-folders (with the number of folders and live documents directly inside each)
+ * and its live documents. A null folderId lists the top level.
+ */
+export const listFolderContents = async (userId: string, folderId: string | null): Promise<FolderContents> => {
+  const folder = folderId ? await findUserFolder(userId, folderId) : null;
+  const folders = await getFolderRepository().listByUser(userId);
+  const documents = (await getDocumentRepository().listByUser(userId)).filter(doc => !isTrashed(doc));
+
+  const inFolder = (id: string | null) => (candidate: { folderId?: string | null }) => (candidate.folderId ?? null) === id;
+
+  return {
+    folder,
+    path: folderPath(folders, folderId),
+    folders: folders
+      .filter(candidate => candidate.parentId === folderId)
+      .map(child => ({
+        ...child,
+        folderCount: folders.filter(candidate => candidate.parentId === child.id).length,
+        documentCount: documents.filter(inFolder(child.id)).length
+      })),
+    documents: documents.filter(inFolder(folderId))
+  };
+};
+
+/**
+ * Delete a folder and the folders below it. With `move-up` the folder's documents and direct
+ * sub-folders move to its parent first; with `trash` every live document in the subtree is
+ * moved to the trash (restored documents whose folder is gone return to the top level).
+ */
+export const deleteFolder = async (
+  folder: Folder,
+  mode: FolderDeleteMode
+): Promise<{ deletedFolders: number; movedFolders: number; movedDocuments: number; trashedDocuments: number }> => {
+  const folderRepository = getFolderRepository();
+  const documentRepository = getDocumentRepository();
+  const folders = await folderRepository.listByUser(folder.userId);
+  const documents = await documentRepository.listByUser(folder.userId);
+
+  if (mode === 'move-up') {
+    const children = folders.filter(candidate => candidate.parentId === folder.id);
+    for (const child of children) {
+      await folderRepository.update(child.id, { parentId: folder.parentId, updatedAt: Date.now() });
+    }
+
+    // Trashed documents move too, so restoring them lands in the parent
+    const contained = documents.filter(doc => doc.folderId === folder.id);
+    for (const doc of contained) {
+      await documentRepository.update(doc.id, { folderId: folder.parentId });
+    }
+
+    await folderRepository.delete(folder.id);
+    return { deletedFolders: 1, movedFolders: children.length, movedDocuments: contained.length, trashedDocuments: 0 };
+  }
+
+  const subtree = subtreeIds(folders, folder.id);
+  const contained = documents.filter(doc => doc.folderId && subtree.has(doc.folderId) && !isTrashed(doc));
+  for (const doc of contained) {
+    await moveToTrash(doc);
+  }
+
+  for (const id of subtree) {
+    await folderRepository.delete(id);
+  }
+  return { deletedFolders: subtree.size, movedFolders: 0, movedDocuments: 0, trashedDocuments: contained.length };
+};
@@ -0,0 +1,284 @@
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { ForbiddenError, ServiceUnavailableError, UnprocessableEntityError } from '../errors';
+import { AccessChannel, ScanStatus, WalletDocument } from '../models';
+import { getDocumentRepository, getDocumentVersionRepository, getUserRepository } from '../repositories';
+import { getMalwareScanner } from '../scanning';
+import { getStorageProvider } from '../storage';
+import { numberFromEnv } from '../utils/env';
+import { adjustTotalSize } from './quota';
+
+// How often the API process scans documents without a verdict (set MALWARE_RESCAN_ON_SCHEDULE=false to rely on `npm run scan:pending`)
+const MALWARE_RESCAN_INTERVAL_MINUTES = numberFromEnv('MALWARE_RESCAN_INTERVAL_MINUTES', 60);
+
+/**
+ * Scan fields recorded on a document (and its version)
+ */
+export interface ScanResult {
+  scanStatus: ScanStatus;
+  scannedAt: number;
+  scanThreat: string | null;
+}
+
+/**
+ * Bytes to scan: an upload still in memory, or an object already in storage
+ */
+export type ScanSource = { buffer: Buffer } | { storagePath: string };
+
+const streamOf = (source: ScanSource): Readable =>
+  'buffer' in source ? Readable.from([source.buffer]) : getStorageProvider().stream(source.storagePath);
+
+// A file the scanner could not check is never taken for clean - the upload is refused with 503
+const scanFile = async (data: Readable): Promise<ScanResult> => {
+  let verdict;
+  try {
+    verdict = await getMalwareScanner().scan(data);
+  } catch (error) {
+    // The scanner may give up before a stored object is even opened - whatever the stream reports later
+    // (e.g. the object deleted meanwhile) must not go unhandled
+    data.on('error', () => undefined).destroy();
+    console.error('🛡️  Malware scanner unavailable:', error);
+    throw new ServiceUnavailableError(
+      'Files cannot be checked for malware right now - please try again later',
+      'MALWARE_SCANNER_UNAVAILABLE'
+    );
+  }
+  return verdict.infected
+    ? { scanStatus: 'INFECTED', scannedAt: Date.now(), scanThreat: verdict.threat }
+    : { scanStatus: 'CLEAN', scannedAt: Date.now(), scanThreat: null };
+};
+
+// Where a user's infected uploads are kept
+export const quarantinePrefix = (userId: string): string => `quarantine/${userId}/`;
+
+// Copy an infected upload to `quarantine/<uid>/` for an administrator to inspect.
+// It stays charged to the user's quota (see measureUsage) until an administrator removes it (see removeQuarantinedFile).
+const quarantine = async (
+  userId: string,
+  source: ScanSource,
+  details: { fileName: string; mimeType: string; threat: string }
+): Promise<string> => {
+  const storagePath = `${quarantinePrefix(userId)}${Date.now()}-${crypto.randomUUID()}`;
+  const options = {
+    contentType: 'application/octet-stream',
+    metadata: {
+      uploadedBy: userId,
+      fileName: details.fileName,
+      documentType: details.mimeType,
+      threat: details.threat,
+      quarantinedAt: new Date().toISOString()
+    }
+  };
+
+  const storage = getStorageProvider();
+  if ('buffer' in source) {
+    await storage.put(storagePath, source.buffer, options);
+  } else {
+    await storage.compose([source.storagePath], storagePath, options);
+  }
+  return storagePath;
+};
+
+/**
+ * An infected upload kept in quarantine. The ID is the object's name under the user's quarantine prefix.
+ */
+export interface QuarantinedFile {
+  id: string;
+  fileName: string | null;
+  mimeType: string | null;
+  threat: string | null;
+  size: number;
+  quarantinedAt: string | null;
+}
+
+/**
+ * The user's quarantined uploads, newest first
+ */
+export const listQuarantinedFiles = async (userId: string): Promise<QuarantinedFile[]> => {
+  const prefix = quarantinePrefix(userId);
+  const objects = await getStorageProvider().list(prefix);
+  return objects
+    .map(({ path, size, metadata = {} }) => ({
+      id: path.slice(prefix.length),
+      fileName: metadata.fileName ?? null,
+      mimeType: metadata.documentType ?? null,
+      threat: metadata.threat ?? null,
+      size,
+      quarantinedAt: metadata.quarantinedAt ?? null
+    }))
+    .sort((a, b) => b.id.localeCompare(a.id));
+};
+
+/**
+ * Delete a quarantined upload (e.g. once inspected, or a false positive) and give its bytes back
+ * to the user's quota. Resolves the bytes freed - null when there is no such file.
+ */
+export const removeQuarantinedFile = async (userId: string, fileId: string): Promise<number | null> => {
+  const storagePath = `${quarantinePrefix(userId)}${fileId}`;
+  const storage = getStorageProvider();
+  const info = await storage.stat(storagePath);
+  if (!info) {
+    return null;
+  }
+
+  try {
+    await storage.delete(storagePath);
+  } catch (error) {
+    // Removed concurrently - that call refunded it
+    if (!(await storage.stat(storagePath))) {
+      return null;
+    }
+    throw error;
+  }
+  await adjustTotalSize(userId, -info.size);
+  return info.size;
+};
+
+/**
+ * Scan an upload before it is stored. Call it once the file is charged to the quota: an infected file
+ * is quarantined instead - keeping the charge - and refused with 422 MALWARE_DETECTED (see isMalwareDetected).
+ * Any other failure (503 MALWARE_SCANNER_UNAVAILABLE when the scanner cannot be reached, or quarantining
+ * failing) leaves nothing behind, so the caller hands the charge back.
+ */
+export const scanUpload = async (
+  userId: string,
+  file: { fileName: string; mimeType: string },
+  source: ScanSource
+): Promise<ScanResult> => {
+  const result = await scanFile(streamOf(source));
+  if (result.scanStatus !== 'INFECTED') {
+    return result;
+  }
+
+  const threat = result.scanThreat as string;
+  const storagePath = await quarantine(userId, source, { ...file, threat });
+  console.warn(`☣️  Quarantined an upload of user ${userId} (${threat}) at ${storagePath}`);
+  throw new UnprocessableEntityError('The file contains malware and has been quarantined', 'MALWARE_DETECTED', { threat });
+};
+
+/**
+ * Whether scanUpload refused the file as infected - its quarantined copy keeps the quota charge
+ */
+export const isMalwareDetected = (error: unknown): boolean =>
+  error instanceof UnprocessableEntityError && error.code === 'MALWARE_DETECTED';
+
+/**
+ * Whether a file may be served through the channel. Files that have not passed the scan - including
+ * those stored before scanning, until the rescan job checks them - are only served to their owner
+ * (and admins); infected ones only to admins.
+ */
+export const scanAllows = (file: { scanStatus?: ScanStatus | null }, channel: AccessChannel): boolean => {
+  switch (file.scanStatus) {
+    case 'CLEAN':
+      return true;
+    case 'INFECTED':
+      return channel === 'ADMIN';
+    default:
+      return channel === 'OWNER' || channel === 'ADMIN';
+  }
+};
+
+/**
+ * Error for a file scanAllows refused
+ */
+export const fileWithheldError = (file: { scanStatus?: ScanStatus | null }): ForbiddenError => new ForbiddenError(
+  file.scanStatus === 'INFECTED'
+    ? 'This file contains malware and has been withheld'
+    : 'This file is withheld until it passes a malware scan',
+  'FILE_WITHHELD',
+  { scanStatus: file.scanStatus ?? null }
+);
+
+/**
+ * Scan a document's current file and record the outcome on the document and its current version.
+ * An infected file stays where it is, withheld from everyone but admins.
+ * Resolves the new status - null when the file changed meanwhile. Rejects when the scanner is unavailable.
+ */
+export const rescanDocument = async (document: WalletDocument): Promise<ScanStatus | null> => {
+  const result = await scanFile(streamOf({ storagePath: document.storagePath }));
+
+  // A new version (or a restore) may have replaced the file while it was scanned - the next run checks that one
+  const documents = getDocumentRepository();
+  const current = await documents.findById(document.id);
+  if (!current || current.storagePath !== document.storagePath) {
+    return null;
+  }
+
+  await documents.update(document.id, result);
+  if (current.currentVersion !== undefined) {
+    await getDocumentVersionRepository().update(document.id, current.currentVersion, result);
+  }
+
+  if (result.scanStatus === 'INFECTED') {
+    console.warn(`☣️  Document ${document.id} of user ${document.userId} is infected (${result.scanThreat}) - withheld`);
+  }
+  return result.scanStatus;
+};
+
+const OUTCOME_KEYS = { CLEAN: 'clean', INFECTED: 'infected' } as const;
+
+/**
+ * Scan every document that has no verdict yet - documents stored before scanning, which this backfills.
+ * Failures are logged and left for the next run; rejects when the scanner is unavailable.
+ * Resolves the document IDs by outcome.
+ */
+export const scanPendingDocuments = async (): Promise<{
+  clean: string[];
+  infected: string[];
+  pending: string[];
+  failed: string[];
+}> => {
+  const outcome = { clean: [] as string[], infected: [] as string[], pending: [] as string[], failed: [] as string[] };
+  let cursor: string | undefined;
+
+  do {
+    const page = await getUserRepository().search({ limit: 100, cursor });
+    for (const user of page.users) {
+      const documents = await getDocumentRepository().listByUser(user.uid);
+      for (const document of documents.filter(doc => !doc.scanStatus)) {
+        try {
+          const status = await rescanDocument(document);
+          outcome[status ? OUTCOME_KEYS[status] : 'pending'].push(document.id);
+        } catch (error) {
+          // No point trying the rest without a scanner - the whole run fails
+          if (error instanceof ServiceUnavailableError) {
+            throw error;
+          }
+          console.error(`Error rescanning document ${document.id}:`, error);
+          outcome.failed.push(document.id);
+        }
+      }
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return outcome;
+};
+
+/**
+ * Run the rescan periodically inside the API process.
+ * Returns null when MALWARE_RESCAN_ON_SCHEDULE=false.
+ */
+export const scheduleMalwareRescan = (): NodeJS.Timeout | null => {
+  if (process.env.MALWARE_RESCAN_ON_SCHEDULE === 'false') {
+    return null;
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      const { clean, infected, pending, failed } = await scanPendingDocuments();
+      if (clean.length + infected.length + failed.length > 0) {
+        console.log(
+          `🛡️  Malware rescan: ${clean.length} clean, ${infected.length} infected, `
+          + `${pending.length} still pending, ${failed.length} failed`
+        );
+      }
+    } catch (error) {
+      console.error('Error rescanning documents:', error);
+    }
+  }, MALWARE_RESCAN_INTERVAL_MINUTES * 60 * 1000);
+
+  // Never keep the process alive just for the rescan
+  timer.unref();
+  return timer;
+};
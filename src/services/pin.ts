@@ -0,0 +1,70 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// PIN format rules
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// scrypt parameters - stored alongside each hash so they can be raised later
+const HASH_PREFIX = 'scrypt';
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+export interface PinVerification {
+  valid: boolean;
+  // True when the stored value is a legacy plaintext PIN (or uses old parameters) and should be re-hashed
+  needsRehash: boolean;
+}
+
+/**
+ * True when the stored value is a hash produced by hashPin()
+ */
+export const isPinHash = (stored: string): boolean => stored.startsWith(`${HASH_PREFIX}$`);
+
+/**
+ * Hash a PIN with a random salt. Format: scrypt$N$r$p$salt$hash (base64 salt/hash)
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(pin, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return [HASH_PREFIX, SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+/**
+ * Compare a PIN against a stored hash (or a legacy plaintext PIN) in constant time
+ */
+export const verifyPin = async (pin: string, stored: string): Promise<PinVerification> => {
+  if (!isPinHash(stored)) {
+    // Legacy plaintext PIN - digest both sides so lengths match for timingSafeEqual
+    const expected = crypto.createHash('sha256').update(stored).digest();
+    const actual = crypto.createHash('sha256').update(pin).digest();
+    const valid = crypto.timingSafeEqual(expected, actual);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, n, r, p, saltBase64, hashBase64] = stored.split('$');
+  const expected = Buffer.from(hashBase64 || '', 'base64');
+  if (expected.length === 0) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const N = Number(n);
+  const actual = await scrypt(pin, Buffer.from(saltBase64, 'base64'), expected.length, {
+    N,
+    r: Number(r),
+    p: Number(p)
+  });
+  const valid = crypto.timingSafeEqual(expected, actual);
+
+  return { valid, needsRehash: valid && N < SCRYPT_N };
+};
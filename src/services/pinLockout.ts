@@ -0,0 +1,266 @@
+import { NewSecurityAlert, PinAttemptState } from '../models';
+import { getPinAttemptRepository, getSecurityAlertRepository } from '../repositories';
+import { numberFromEnv } from '../utils/env';
+
+export interface PinLockoutPolicy {
+  // Failures allowed before the key is locked
+  maxFailures: number;
+  // Delay after the first failure, doubled for each further failure
+  backoffBaseMs: number;
+  // First lockout duration, doubled for each failure past maxFailures
+  lockoutMs: number;
+  maxLockoutMs: number;
+  // Failures older than this are forgotten
+  failureWindowMs: number;
+  // How long a claimed attempt holds off concurrent ones at most, should it never report back
+  claimMs: number;
+}
+
+export interface PinLockoutStatus {
+  locked: boolean;
+  failures: number;
+  remainingAttempts: number;
+  // Epoch ms before which no further attempt is accepted (0 when none)
+  retryAt: number;
+  lockedUntil: number | null;
+}
+
+export const getPinLockoutPolicy = (): PinLockoutPolicy => ({
+  maxFailures: numberFromEnv('PIN_MAX_FAILURES', 5),
+  backoffBaseMs: numberFromEnv('PIN_BACKOFF_BASE_MS', 1000),
+  lockoutMs: numberFromEnv('PIN_LOCKOUT_MS', 15 * 60 * 1000),
+  maxLockoutMs: numberFromEnv('PIN_MAX_LOCKOUT_MS', 24 * 60 * 60 * 1000),
+  failureWindowMs: numberFromEnv('PIN_FAILURE_WINDOW_MS', 24 * 60 * 60 * 1000),
+  claimMs: numberFromEnv('PIN_CLAIM_MS', 10 * 1000)
+});
+
+/**
+ * Outcome of claimPinAttempt: either the caller may check the PIN, or the status that refuses it
+ */
+export type PinAttemptClaim = { claimed: true } | { claimed: false; status: PinLockoutStatus };
+
+const userKey = (userId: string) => `user:${userId}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+const shareKey = (shareId: string) => `share:${shareId}`;
+
+const isExpired = (state: PinAttemptState | null, policy: PinLockoutPolicy, now: number): boolean =>
+  !state || now - state.lastFailureAt > policy.failureWindowMs;
+
+const toStatus = (states: Array<PinAttemptState | null>, policy: PinLockoutPolicy, now: number): PinLockoutStatus => {
+  const active = states.filter((state): state is PinAttemptState => !isExpired(state, policy, now));
+  const failures = Math.max(0, ...active.map(state => state.failures));
+  const lockedUntil = Math.max(0, ...active.map(state => state.lockedUntil || 0));
+  // Claims outlive the failure window - a key may hold nothing else
+  const claimedUntil = Math.max(0, ...states.map(state => state?.claimedUntil || 0));
+  const retryAt = Math.max(lockedUntil, claimedUntil, ...active.map(state => state.nextAttemptAt));
+
+  return {
+    locked: lockedUntil > now,
+    failures,
+    remainingAttempts: Math.max(0, policy.maxFailures - failures),
+    retryAt: retryAt > now ? retryAt : 0,
+    lockedUntil: lockedUntil > now ? lockedUntil : null
+  };
+};
+
+const nextState = (
+  key: string,
+  current: PinAttemptState | null,
+  policy: PinLockoutPolicy,
+  now: number
+): PinAttemptState => {
+  const failures = (isExpired(current, policy, now) ? 0 : current!.failures) + 1;
+
+  if (failures >= policy.maxFailures) {
+    const lockoutMs = Math.min(policy.maxLockoutMs, policy.lockoutMs * 2 ** (failures - policy.maxFailures));
+    return { key, failures, lastFailureAt: now, nextAttemptAt: now + lockoutMs, lockedUntil: now + lockoutMs, claimedUntil: null };
+  }
+
+  return {
+    key,
+    failures,
+    lastFailureAt: now,
+    nextAttemptAt: now + policy.backoffBaseMs * 2 ** (failures - 1),
+    lockedUntil: null,
+    claimedUntil: null
+  };
+};
+
+// State of a key that has no failures on record
+const emptyState = (key: string): PinAttemptState =>
+  ({ key, failures: 0, lastFailureAt: 0, nextAttemptAt: 0, lockedUntil: null, claimedUntil: null });
+
+const withoutClaim = (key: string) => (current: PinAttemptState | null): PinAttemptState =>
+  ({ ...(current ?? emptyState(key)), claimedUntil: null });
+
+// Lockout details included in PIN and passcode error details
+export const lockoutDetails = (status: PinLockoutStatus) => ({
+  locked: status.locked,
+  failedAttempts: status.failures,
+  remainingAttempts: status.remainingAttempts,
+  retryAfterSeconds: status.retryAt ? Math.ceil((status.retryAt - Date.now()) / 1000) : 0,
+  lockedUntil: status.lockedUntil ? new Date(status.lockedUntil).toISOString() : null
+});
+
+// Claim an attempt on the subject's key, then the client IP's (see claimPinAttempt)
+const claimAttempt = async (key: string, ipAddress: string): Promise<PinAttemptClaim> => {
+  const policy = getPinLockoutPolicy();
+  const now = Date.now();
+  const attempts = getPinAttemptRepository();
+
+  const claim = async (claimKey: string): Promise<{ claimed: boolean; state: PinAttemptState }> => {
+    let claimed = false;
+    const state = await attempts.modify(claimKey, (current) => {
+      claimed = toStatus([current], policy, now).retryAt === 0;
+      return claimed
+        ? { ...(current ?? emptyState(claimKey)), claimedUntil: now + policy.claimMs }
+        : current ?? emptyState(claimKey);
+    });
+    return { claimed, state };
+  };
+
+  const subject = await claim(key);
+  if (!subject.claimed) {
+    return { claimed: false, status: toStatus([subject.state], policy, now) };
+  }
+
+  const ip = await claim(ipKey(ipAddress));
+  if (!ip.claimed) {
+    await attempts.modify(key, withoutClaim(key));
+    return { claimed: false, status: toStatus([ip.state], policy, now) };
+  }
+
+  return { claimed: true };
+};
+
+const releaseClaim = async (key: string, ipAddress: string): Promise<void> => {
+  const attempts = getPinAttemptRepository();
+  await Promise.all([
+    attempts.modify(key, withoutClaim(key)),
+    attempts.modify(ipKey(ipAddress), withoutClaim(ipKey(ipAddress)))
+  ]);
+};
+
+// Count a failure against the subject's key and the client IP's; resolves the subject's new state and the combined status
+const recordFailure = async (
+  key: string,
+  ipAddress: string
+): Promise<{ state: PinAttemptState; status: PinLockoutStatus }> => {
+  const policy = getPinLockoutPolicy();
+  const now = Date.now();
+  const attempts = getPinAttemptRepository();
+
+  const [state, ipState] = await Promise.all([
+    attempts.modify(key, current => nextState(key, current, policy, now)),
+    attempts.modify(ipKey(ipAddress), current => nextState(ipKey(ipAddress), current, policy, now))
+  ]);
+  return { state, status: toStatus([state, ipState], policy, now) };
+};
+
+// The IP counter is only unclaimed and left to expire so one valid secret can't unlock guessing elsewhere
+const recordSuccess = async (key: string, ipAddress: string): Promise<void> => {
+  const attempts = getPinAttemptRepository();
+  await Promise.all([
+    attempts.delete(key),
+    attempts.modify(ipKey(ipAddress), withoutClaim(ipKey(ipAddress)))
+  ]);
+};
+
+const raiseLockoutAlert = async (alert: NewSecurityAlert): Promise<void> => {
+  try {
+    await getSecurityAlertRepository().create(alert);
+  } catch (error) {
+    console.error('Error creating security alert:', error);
+  }
+};
+
+/**
+ * Check the lockout and claim the attempt in one transaction per key (the user, then the client IP),
+ * so concurrent guesses cannot all pass the same check: while a claimed attempt is checked, others
+ * are refused as if backing off. The claim ends with recordPinFailure, recordPinSuccess or
+ * releasePinClaim - or lapses after the policy's claimMs.
+ */
+export const claimPinAttempt = (userId: string, ipAddress: string): Promise<PinAttemptClaim> =>
+  claimAttempt(userKey(userId), ipAddress);
+
+/**
+ * Give up a claimed attempt that was never checked (e.g. the user does not exist)
+ */
+export const releasePinClaim = (userId: string, ipAddress: string): Promise<void> =>
+  releaseClaim(userKey(userId), ipAddress);
+
+/**
+ * Count a failed PIN attempt against both the user and the client IP.
+ * Raises a security alert for the owner when the user becomes locked out.
+ */
+export const recordPinFailure = async (
+  userId: string,
+  ipAddress: string,
+  userAgent?: string
+): Promise<PinLockoutStatus> => {
+  const { state, status } = await recordFailure(userKey(userId), ipAddress);
+
+  if (state.lockedUntil) {
+    await raiseLockoutAlert({
+      userId,
+      type: 'PIN_LOCKOUT',
+      message: `Your document PIN was entered incorrectly ${state.failures} times. PIN access is locked until ${new Date(state.lockedUntil).toISOString()}.`,
+      ipAddress,
+      ...(userAgent ? { userAgent } : {}),
+      failures: state.failures,
+      lockedUntil: state.lockedUntil
+    });
+  }
+
+  return status;
+};
+
+/**
+ * Clear the user's failure count (and the claim) after a correct PIN.
+ * The IP counter is only unclaimed and left to expire so one valid PIN can't unlock guessing elsewhere.
+ */
+export const recordPinSuccess = (userId: string, ipAddress: string): Promise<void> =>
+  recordSuccess(userKey(userId), ipAddress);
+
+/**
+ * Claim a share passcode attempt - the same lockout as the PIN, keyed per share and per client IP
+ * (the IP counter is shared with PIN attempts)
+ */
+export const claimPasscodeAttempt = (shareId: string, ipAddress: string): Promise<PinAttemptClaim> =>
+  claimAttempt(shareKey(shareId), ipAddress);
+
+export const releasePasscodeClaim = (shareId: string, ipAddress: string): Promise<void> =>
+  releaseClaim(shareKey(shareId), ipAddress);
+
+/**
+ * Count a wrong share passcode against the share and the client IP.
+ * Raises a security alert for the share's owner when the share becomes locked out.
+ */
+export const recordPasscodeFailure = async (
+  share: { id: string; userId: string; label?: string },
+  ipAddress: string,
+  userAgent?: string
+): Promise<PinLockoutStatus> => {
+  const { state, status } = await recordFailure(shareKey(share.id), ipAddress);
+
+  if (state.lockedUntil) {
+    const name = share.label ? `"${share.label}"` : 'a share link';
+    await raiseLockoutAlert({
+      userId: share.userId,
+      type: 'SHARE_PASSCODE_LOCKOUT',
+      message: `The passcode of ${name} was entered incorrectly ${state.failures} times. The share is locked until ${new Date(state.lockedUntil).toISOString()}.`,
+      ipAddress,
+      ...(userAgent ? { userAgent } : {}),
+      failures: state.failures,
+      lockedUntil: state.lockedUntil
+    });
+  }
+
+  return status;
+};
+
+/**
+ * Clear the share's failure count (and the claim) after a correct passcode
+ */
+export const recordPasscodeSuccess = (shareId: string, ipAddress: string): Promise<void> =>
+  recordSuccess(shareKey(shareId), ipAddress);
@@ -0,0 +1,176 @@
+import { DEFAULT_PLAN_ID, STORAGE_PLANS, StoragePlan } from '../config/storage';
+import { PayloadTooLargeError, QuotaExceededError, UnsupportedMediaTypeError } from '../errors';
+import { quotaUsageOf, User } from '../models';
+import { getUserRepository } from '../repositories';
+
+/**
+ * The user's storage plan - the default plan when they have none, or one no longer configured
+ */
+export const planFor = (user: User | null): StoragePlan =>
+  STORAGE_PLANS.find(plan => plan.id === user?.plan)
+    ?? STORAGE_PLANS.find(plan => plan.id === DEFAULT_PLAN_ID) as StoragePlan;
+
+const toMB = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(2);
+
+/**
+ * Throw STORAGE_QUOTA_EXCEEDED when storing `fileSize` more bytes, after `freedSize` bytes are
+ * released (e.g. a replaced profile picture), would take the user past their plan's quota.
+ * `label` names the upload in the message, e.g. 'file' or 'profile picture'.
+ */
+export const assertWithinQuota = (
+  plan: StoragePlan,
+  currentSize: number,
+  fileSize: number,
+  label = 'file',
+  freedSize = 0
+): void => {
+  const maxSize = plan.maxStorageSize;
+  if (currentSize - freedSize + fileSize <= maxSize) {
+    return;
+  }
+
+  const usedMB = toMB(currentSize);
+  const maxMB = (maxSize / (1024 * 1024)).toFixed(0);
+  const fileMB = toMB(fileSize);
+  const availableMB = toMB(maxSize - currentSize);
+
+  throw new QuotaExceededError(
+    `Storage quota exceeded. You have used ${usedMB}MB of ${maxMB}MB. This ${label} (${fileMB}MB) would exceed your limit.`,
+    'STORAGE_QUOTA_EXCEEDED',
+    {
+      plan: plan.id,
+      currentSize,
+      maxSize,
+      fileSize,
+      availableSpace: maxSize - currentSize,
+      usedMB: parseFloat(usedMB),
+      maxMB: parseFloat(maxMB),
+      fileMB: parseFloat(fileMB),
+      availableMB: parseFloat(availableMB),
+      message: `Please delete some old documents to free up space. You have ${availableMB}MB available.`
+    }
+  );
+};
+
+/**
+ * Throw when a document file is of a type or size the plan does not allow
+ */
+export const assertFileAllowed = (plan: StoragePlan, mimeType: string, fileSize: number): void => {
+  if (!plan.allowedMimeTypes.includes(mimeType)) {
+    throw new UnsupportedMediaTypeError(
+      `Your ${plan.name} plan does not allow ${mimeType} files.`,
+      'UNSUPPORTED_FILE_TYPE',
+      { plan: plan.id, allowedMimeTypes: plan.allowedMimeTypes }
+    );
+  }
+  if (fileSize > plan.maxFileSize) {
+    throw new PayloadTooLargeError(
+      `File is too large. Your ${plan.name} plan allows files up to ${toMB(plan.maxFileSize)}MB.`,
+      'FILE_TOO_LARGE',
+      { plan: plan.id, maxSize: plan.maxFileSize, fileSize }
+    );
+  }
+};
+
+/**
+ * Throw DOCUMENT_LIMIT_REACHED when the user already has as many documents as the plan allows
+ */
+export const assertDocumentLimit = (plan: StoragePlan, documentCount: number): void => {
+  if (documentCount < plan.maxDocuments) {
+    return;
+  }
+  throw new QuotaExceededError(
+    `Document limit reached. Your ${plan.name} plan allows ${plan.maxDocuments} documents (trashed ones included).`,
+    'DOCUMENT_LIMIT_REACHED',
+    { plan: plan.id, documentCount, maxDocuments: plan.maxDocuments }
+  );
+};
+
+export interface QuotaCharge {
+  // Names the upload in the quota message, e.g. 'file' or 'profile picture'
+  label?: string;
+  // Bytes released along with the charge (a replaced profile picture, pruned versions)
+  freedSize?: number;
+  // Set for document files, checked against the plan's allowed types and per-file limit
+  mimeType?: string;
+  // The file becomes a new document, checked against the plan's document limit
+  newDocument?: boolean;
+}
+
+// Every check a charge must pass against the user's record, counting what resumable uploads hold
+const assertChargeAllowed = (user: User, fileSize: number, charge: QuotaCharge): void => {
+  const plan = planFor(user);
+  const { totalSize, reservedSize, reservedUploads } = quotaUsageOf(user);
+  if (charge.mimeType !== undefined) {
+    assertFileAllowed(plan, charge.mimeType, fileSize);
+  }
+  if (charge.newDocument) {
+    assertDocumentLimit(plan, user.documents.length + reservedUploads);
+  }
+  assertWithinQuota(plan, totalSize + reservedSize, fileSize, charge.label, charge.freedSize);
+};
+
+/**
+ * Charge `fileSize` bytes (less the freed bytes released along with them) to the user's totalSize,
+ * checking the plan's limits in the same transaction so concurrent uploads cannot overshoot them.
+ * Call it before storing the file and hand the bytes back with adjustTotalSize if storing fails.
+ */
+export const reserveQuota = async (userId: string, fileSize: number, charge: QuotaCharge = {}): Promise<void> => {
+  const freedSize = charge.freedSize ?? 0;
+  await getUserRepository().modifyQuotaUsage(userId, (user) => {
+    assertChargeAllowed(user, fileSize, charge);
+    const usage = quotaUsageOf(user);
+    return { ...usage, totalSize: Math.max(0, usage.totalSize - freedSize + fileSize) };
+  });
+};
+
+/**
+ * Hold `fileSize` bytes and one document for a resumable upload, checking the plan's limits in the
+ * same transaction. The hold counts against the quota until settleUpload or releaseUpload.
+ */
+export const reserveUpload = async (userId: string, fileSize: number, mimeType: string): Promise<void> => {
+  await getUserRepository().modifyQuotaUsage(userId, (user) => {
+    assertChargeAllowed(user, fileSize, { mimeType, newDocument: true });
+    const usage = quotaUsageOf(user);
+    return { ...usage, reservedSize: usage.reservedSize + fileSize, reservedUploads: usage.reservedUploads + 1 };
+  });
+};
+
+/**
+ * Turn a completed upload's hold into used bytes - already checked when it was reserved
+ */
+export const settleUpload = async (userId: string, fileSize: number): Promise<void> => {
+  await getUserRepository().modifyQuotaUsage(userId, (user) => {
+    const usage = quotaUsageOf(user);
+    return {
+      totalSize: usage.totalSize + fileSize,
+      reservedSize: Math.max(0, usage.reservedSize - fileSize),
+      reservedUploads: Math.max(0, usage.reservedUploads - 1)
+    };
+  });
+};
+
+/**
+ * Drop the hold of an upload that was cancelled, rejected or expired
+ */
+export const releaseUpload = async (userId: string, fileSize: number): Promise<void> => {
+  await getUserRepository().modifyQuotaUsage(userId, (user) => {
+    const usage = quotaUsageOf(user);
+    return {
+      ...usage,
+      reservedSize: Math.max(0, usage.reservedSize - fileSize),
+      reservedUploads: Math.max(0, usage.reservedUploads - 1)
+    };
+  });
+};
+
+/**
+ * Atomically add `delta` bytes (negative to release them) to the user's totalSize without a quota check,
+ * for bytes already accounted for elsewhere (a replaced file, deleted files)
+ */
+export const adjustTotalSize = async (userId: string, delta: number): Promise<void> => {
+  await getUserRepository().modifyQuotaUsage(userId, (user) => {
+    const usage = quotaUsageOf(user);
+    return { ...usage, totalSize: Math.max(0, usage.totalSize + delta) };
+  });
+};
@@ -0,0 +1,153 @@
+import { isTrashed, SearchEntry, toMillis, WalletDocument } from '../models';
+import { getDocumentRepository, getSearchIndexRepository, getUserRepository } from '../repositories';
+
+// Weight of a term by the field it appears in - a term found in several fields keeps the highest
+const FIELD_WEIGHTS = {
+  fileName: 3,
+  tags: 3,
+  description: 2
+};
+
+// Shorter query terms only match whole terms
+const MIN_PREFIX_LENGTH = 2;
+
+export interface SearchResult {
+  document: WalletDocument;
+  score: number;
+}
+
+/**
+ * Lower-cased words and numbers of a text, in any script
+ */
+export const tokenize = (text: string): string[] =>
+  text.normalize('NFKC').toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+
+const searchEntry = (document: WalletDocument): SearchEntry => {
+  const terms: Record<string, number> = {};
+  const add = (tokens: string[], weight: number) => {
+    for (const token of tokens) {
+      terms[token] = Math.max(terms[token] ?? 0, weight);
+    }
+  };
+
+  add(tokenize(document.fileName || ''), FIELD_WEIGHTS.fileName);
+  add((document.tags || []).flatMap(tokenize), FIELD_WEIGHTS.tags);
+  add(tokenize(document.description || ''), FIELD_WEIGHTS.description);
+
+  return { documentId: document.id, userId: document.userId, terms, updatedAt: Date.now() };
+};
+
+/**
+ * Add or refresh a document in its owner's index (trashed documents are removed instead).
+ * Never throws - a failed index write is logged, and `npm run search:reindex` repairs the index.
+ */
+export const indexDocument = async (document: WalletDocument): Promise<void> => {
+  try {
+    if (isTrashed(document)) {
+      await getSearchIndexRepository().delete(document.id);
+    } else {
+      await getSearchIndexRepository().put(searchEntry(document));
+    }
+  } catch (error) {
+    console.error(`Error indexing document ${document.id}:`, error);
+  }
+};
+
+/**
+ * Drop a document from its owner's index. Never throws, like indexDocument.
+ */
+export const removeFromIndex = async (documentId: string): Promise<void> => {
+  try {
+    await getSearchIndexRepository().delete(documentId);
+  } catch (error) {
+    console.error(`Error removing document ${documentId} from the search index:`, error);
+  }
+};
+
+/**
+ * Search the user's live documents. Every query term must match a whole term or the start of one;
+ * results are ranked by the summed weight of the matches, a prefix counting in proportion to how
+ * much of the term it covers, then newest first.
+ */
+export const searchDocuments = async (userId: string, query: string, limit: number): Promise<SearchResult[]> => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  // Best score of a query term in one document, or 0 when it matches none of its terms
+  const termScore = (queryTerm: string, terms: Record<string, number>): number => {
+    let best = 0;
+    for (const [term, weight] of Object.entries(terms)) {
+      const matches = term === queryTerm
+        || (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm));
+      if (matches) {
+        best = Math.max(best, weight * (queryTerm.length / term.length));
+      }
+    }
+    return best;
+  };
+
+  // Only documents matching every term are scored
+  const scores = new Map<string, number>();
+  for (const entry of await getSearchIndexRepository().listByUser(userId)) {
+    const termScores = queryTerms.map(queryTerm => termScore(queryTerm, entry.terms));
+    if (termScores.every(score => score > 0)) {
+      scores.set(entry.documentId, termScores.reduce((sum, score) => sum + score, 0));
+    }
+  }
+
+  const documents = getDocumentRepository();
+  const results: SearchResult[] = [];
+  for (const [documentId, score] of scores) {
+    const document = await documents.findById(documentId);
+    // The index may lag behind deletes - only the user's live documents are returned
+    if (document && document.userId === userId && !isTrashed(document)) {
+      results.push({ document, score: Math.round(score * 100) / 100 });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || toMillis(b.document.uploadedAt) - toMillis(a.document.uploadedAt))
+    .slice(0, limit);
+};
+
+/**
+ * Rebuild one user's index from their documents. Resolves the number of documents indexed.
+ */
+export const rebuildSearchIndex = async (userId: string): Promise<number> => {
+  const live = (await getDocumentRepository().listByUser(userId)).filter(document => !isTrashed(document));
+  const entries = getSearchIndexRepository();
+
+  for (const document of live) {
+    await entries.put(searchEntry(document));
+  }
+  // Entries of documents deleted or trashed without reaching the index
+  const liveIds = new Set(live.map(document => document.id));
+  for (const entry of await entries.listByUser(userId)) {
+    if (!liveIds.has(entry.documentId)) {
+      await entries.delete(entry.documentId);
+    }
+  }
+
+  return live.length;
+};
+
+/**
+ * Rebuild the index of every user. Resolves the number of users and documents indexed.
+ */
+export const rebuildAllSearchIndexes = async (): Promise<{ users: number; documents: number }> => {
+  const totals = { users: 0, documents: 0 };
+  let cursor: string | undefined;
+
+  do {
+    const page = await getUserRepository().search({ limit: 100, cursor });
+    for (const user of page.users) {
+      totals.documents += await rebuildSearchIndex(user.uid);
+      totals.users += 1;
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return totals;
+};
@@ -0,0 +1,150 @@
+import * as crypto from 'crypto';
+import { DocumentShare } from '../models';
+import { getShareRepository } from '../repositories';
+import { hashPin, verifyPin } from './pin';
+import {
+  claimPasscodeAttempt,
+  PinLockoutStatus,
+  recordPasscodeFailure,
+  recordPasscodeSuccess,
+  releasePasscodeClaim
+} from './pinLockout';
+
+// Share lifetime limits
+export const DEFAULT_SHARE_TTL_MINUTES = 24 * 60;
+export const MAX_SHARE_TTL_MINUTES = 30 * 24 * 60;
+
+export interface CreateShareInput {
+  userId: string;
+  documentIds: string[];
+  expiresInMinutes: number;
+  maxViews?: number | null;
+  passcode?: string;
+  label?: string;
+}
+
+export type ShareAccessFailure =
+  | 'NOT_FOUND'
+  | 'REVOKED'
+  | 'EXPIRED'
+  | 'VIEW_LIMIT_REACHED'
+  | 'PASSCODE_REQUIRED'
+  | 'INVALID_PASSCODE'
+  | 'PASSCODE_LOCKED'
+  | 'PASSCODE_RATE_LIMITED';
+
+export type ShareAccessResult =
+  | { ok: true; share: DocumentShare }
+  // share is set when the token resolved but access was refused; lockout when a passcode attempt was counted or refused
+  | { ok: false; reason: ShareAccessFailure; share?: DocumentShare; lockout?: PinLockoutStatus };
+
+/**
+ * Share IDs are the SHA-256 of the token so a leaked database doesn't leak working links
+ */
+export const shareIdFromToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Create a share and return it together with the one-time visible token
+ */
+export const createShare = async (input: CreateShareInput): Promise<{ share: DocumentShare; token: string }> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const share = await getShareRepository().create({
+    id: shareIdFromToken(token),
+    userId: input.userId,
+    documentIds: [...new Set(input.documentIds)],
+    expiresAt: Date.now() + input.expiresInMinutes * 60 * 1000,
+    maxViews: input.maxViews ?? null,
+    // Firestore rejects undefined fields
+    ...(input.passcode ? { passcodeHash: await hashPin(input.passcode) } : {}),
+    ...(input.label ? { label: input.label } : {})
+  });
+
+  return { share, token };
+};
+
+const unavailableReason = (share: DocumentShare, now: number): ShareAccessFailure | null => {
+  if (share.revokedAt) {
+    return 'REVOKED';
+  }
+  if (share.expiresAt <= now) {
+    return 'EXPIRED';
+  }
+  if (share.maxViews !== null && share.viewCount >= share.maxViews) {
+    return 'VIEW_LIMIT_REACHED';
+  }
+  return null;
+};
+
+/**
+ * Resolve a share token, check its passcode and count the view.
+ * Passcode attempts are limited per share and per client IP like PIN attempts (see claimPasscodeAttempt).
+ * The view is counted atomically so maxViews can't be exceeded by concurrent requests.
+ */
+export const openShare = async (
+  token: string,
+  client: { ipAddress: string; userAgent?: string },
+  passcode?: string
+): Promise<ShareAccessResult> => {
+  const shares = getShareRepository();
+  const id = shareIdFromToken(token);
+  const share = await shares.findById(id);
+
+  if (!share) {
+    return { ok: false, reason: 'NOT_FOUND' };
+  }
+
+  const reason = unavailableReason(share, Date.now());
+  if (reason) {
+    return { ok: false, reason, share };
+  }
+
+  if (share.passcodeHash) {
+    if (!passcode) {
+      return { ok: false, reason: 'PASSCODE_REQUIRED', share };
+    }
+    const claim = await claimPasscodeAttempt(share.id, client.ipAddress);
+    if (!claim.claimed) {
+      return { ok: false, reason: claim.status.locked ? 'PASSCODE_LOCKED' : 'PASSCODE_RATE_LIMITED', share, lockout: claim.status };
+    }
+    const { valid } = await verifyPin(passcode, share.passcodeHash).catch(async (error) => {
+      await releasePasscodeClaim(share.id, client.ipAddress).catch(() => undefined);
+      throw error;
+    });
+    if (!valid) {
+      return { ok: false, reason: 'INVALID_PASSCODE', share, lockout: await recordPasscodeFailure(share, client.ipAddress, client.userAgent) };
+    }
+    await recordPasscodeSuccess(share.id, client.ipAddress);
+  }
+
+  let failure: ShareAccessFailure | null = null;
+  const updated = await shares.modify(id, (current) => {
+    const now = Date.now();
+    failure = unavailableReason(current, now);
+    return failure ? current : { ...current, viewCount: current.viewCount + 1, lastViewedAt: now };
+  });
+
+  if (!updated) {
+    return { ok: false, reason: 'NOT_FOUND' };
+  }
+  if (failure) {
+    return { ok: false, reason: failure, share: updated };
+  }
+  return { ok: true, share: updated };
+};
+
+/**
+ * Revoke a share. Resolves false when it doesn't exist or belongs to another user.
+ */
+export const revokeShare = async (userId: string, shareId: string): Promise<boolean> => {
+  const shares = getShareRepository();
+  const share = await shares.findById(shareId);
+
+  if (!share || share.userId !== userId) {
+    return false;
+  }
+
+  await shares.modify(shareId, current => ({ ...current, revokedAt: current.revokedAt || Date.now() }));
+  return true;
+};
@@ -0,0 +1,132 @@
+import { isTrashed, WalletDocument } from '../models';
+import { getDocumentRepository, getFolderRepository, getUserRepository } from '../repositories';
+import { numberFromEnv } from '../utils/env';
+import { adjustTotalSize } from './quota';
+import { indexDocument, removeFromIndex } from './search';
+import { deleteAllVersions, documentStorageSize } from './versions';
+
+// Days a document stays in the trash before the purge job deletes it for good
+export const TRASH_RETENTION_DAYS = numberFromEnv('TRASH_RETENTION_DAYS', 30);
+
+// How often the API process runs the purge job (set TRASH_PURGE_ON_SCHEDULE=false to rely on `npm run purge:trash`)
+const TRASH_PURGE_INTERVAL_MINUTES = numberFromEnv('TRASH_PURGE_INTERVAL_MINUTES', 60);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a trashed document becomes eligible for purging (epoch ms)
+ */
+export const purgeTimeFor = (document: WalletDocument): number =>
+  (document.trashedAt ?? Date.now()) + TRASH_RETENTION_DAYS * DAY_MS;
+
+/**
+ * Hide a document from listings and PIN access. Its files stay in storage (and count
+ * towards the owner's quota) until it is restored or purged.
+ */
+export const moveToTrash = async (document: WalletDocument): Promise<WalletDocument> => {
+  const trashedAt = Date.now();
+
+  await getDocumentRepository().update(document.id, { trashedAt });
+  await getUserRepository().updateDocumentSummary(document.userId, document.id, { trashedAt });
+  await removeFromIndex(document.id);
+
+  return { ...document, trashedAt };
+};
+
+/**
+ * Bring a trashed document back as it was - to the top level if its folder was deleted meanwhile
+ */
+export const restoreFromTrash = async (document: WalletDocument): Promise<WalletDocument> => {
+  const folderId = document.folderId && await getFolderRepository().findById(document.folderId)
+    ? document.folderId
+    : null;
+
+  await getDocumentRepository().update(document.id, { trashedAt: null, folderId });
+  await getUserRepository().updateDocumentSummary(document.userId, document.id, { trashedAt: null });
+
+  const restored = { ...document, trashedAt: null, folderId };
+  await indexDocument(restored);
+  return restored;
+};
+
+/**
+ * Permanently delete a document: every stored version, the record and the owner's summary entry.
+ * Storage failures reject before the record is removed, so the document stays in the trash
+ * and a later purge retries it; the versions deleted before the failure are released from the
+ * owner's quota right away. Resolves the number of bytes freed from the owner's quota.
+ */
+export const purgeDocument = async (document: WalletDocument): Promise<number> => {
+  // Measured up front - a retried purge finds only the versions left over from the failed run
+  const freedSize = await documentStorageSize(document);
+
+  try {
+    await deleteAllVersions(document);
+  } catch (error) {
+    const partlyFreed = freedSize - await documentStorageSize(document);
+    if (partlyFreed > 0) {
+      await adjustTotalSize(document.userId, -partlyFreed).catch(() => undefined);
+    }
+    throw error;
+  }
+  await getDocumentRepository().delete(document.id);
+  await removeFromIndex(document.id);
+
+  const users = getUserRepository();
+  if (await users.findById(document.userId)) {
+    await users.removeDocumentSummary(document.userId, document.id);
+    await adjustTotalSize(document.userId, -freedSize);
+  }
+
+  return freedSize;
+};
+
+/**
+ * Purge every document that has been in the trash for longer than the retention period.
+ * Failures are logged and left for the next run.
+ */
+export const purgeExpiredTrash = async (now: number = Date.now()): Promise<{ purged: string[]; failed: string[] }> => {
+  const expired = await getDocumentRepository().listTrashedBefore(now - TRASH_RETENTION_DAYS * DAY_MS);
+  const purged: string[] = [];
+  const failed: string[] = [];
+
+  for (const document of expired) {
+    // Skip anything restored since the query ran
+    if (!isTrashed(document)) {
+      continue;
+    }
+    try {
+      await purgeDocument(document);
+      purged.push(document.id);
+    } catch (error) {
+      console.error(`Error purging trashed document ${document.id}:`, error);
+      failed.push(document.id);
+    }
+  }
+
+  return { purged, failed };
+};
+
+/**
+ * Run the purge job periodically inside the API process.
+ * Returns null when TRASH_PURGE_ON_SCHEDULE=false.
+ */
+export const scheduleTrashPurge = (): NodeJS.Timeout | null => {
+  if (process.env.TRASH_PURGE_ON_SCHEDULE === 'false') {
+    return null;
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      const { purged, failed } = await purgeExpiredTrash();
+      if (purged.length + failed.length > 0) {
+        console.log(`🗑️  Trash purge: ${purged.length} purged, ${failed.length} failed`);
+      }
+    } catch (error) {
+      console.error('Error running trash purge:', error);
+    }
+  }, TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000);
+
+  // Never keep the process alive just for the purge
+  timer.unref();
+  return timer;
+};
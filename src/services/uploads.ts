@@ -0,0 +1,520 @@
+import * as crypto from 'crypto';
+import { pipeline, Readable, Transform } from 'stream';
+import {
+  BadRequestError,
+  ConflictError,
+  GoneError,
+  NotFoundError,
+  PayloadTooLargeError,
+  UnprocessableEntityError,
+  UnsupportedMediaTypeError
+} from '../errors';
+import { DOCUMENT_MIME_TYPES, DocumentCategory, DocumentSummary, UploadSession, WalletDocument } from '../models';
+import {
+  getDocumentRepository,
+  getDocumentVersionRepository,
+  getFolderRepository,
+  getUploadSessionRepository,
+  getUserRepository
+} from '../repositories';
+import { getStorageProvider } from '../storage';
+import { numberFromEnv } from '../utils/env';
+import { FILE_TYPE_SNIFF_BYTES, normalizeFileName, verifyExtension, verifyFileType } from '../utils/fileType';
+import { releaseContent, StoredContent, storeContentFrom } from './contentStore';
+import { findUserFolder } from './folders';
+import { isMalwareDetected, ScanResult, scanUpload } from './malwareScan';
+import { adjustTotalSize, releaseUpload, reserveUpload, settleUpload } from './quota';
+import { indexDocument, removeFromIndex } from './search';
+import { recordInitialVersion } from './versions';
+
+// Largest file a resumable upload accepts (100MB), and the largest single chunk (8MB)
+export const MAX_RESUMABLE_UPLOAD_SIZE = numberFromEnv('MAX_RESUMABLE_UPLOAD_SIZE', 100 * 1024 * 1024);
+export const MAX_UPLOAD_CHUNK_SIZE = numberFromEnv('MAX_UPLOAD_CHUNK_SIZE', 8 * 1024 * 1024);
+
+// Hours an upload may sit without a new chunk before it expires and its reservation is released
+export const UPLOAD_SESSION_TTL_HOURS = numberFromEnv('UPLOAD_SESSION_TTL_HOURS', 24);
+
+// How often the API process cleans up expired uploads (set UPLOAD_EXPIRY_ON_SCHEDULE=false to rely on `npm run uploads:expire`)
+const UPLOAD_EXPIRY_INTERVAL_MINUTES = numberFromEnv('UPLOAD_EXPIRY_INTERVAL_MINUTES', 60);
+
+// Minutes after which a completion that never finished (e.g. the process died) no longer holds the upload
+export const UPLOAD_COMPLETION_TIMEOUT_MINUTES = numberFromEnv('UPLOAD_COMPLETION_TIMEOUT_MINUTES', 15);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const UNSUPPORTED_TYPE_MESSAGE = 'Invalid file type. Only PDF, images, Word, and Excel files are allowed.';
+
+/**
+ * A file written to storage that is about to become a document
+ */
+export interface UploadedFile {
+  // The name the user uploaded the file with (normalized, see normalizeFileName)
+  fileName: string;
+  storagePath: string;
+  fileSize: number;
+  mimeType: string;
+  sha256: string;
+  // Type detected from the file's signature
+  detectedType: string;
+  // Outcome of the malware scan (see scanUpload)
+  scan: ScanResult;
+}
+
+/**
+ * What the uploader chose for the new document
+ */
+export interface UploadDetails {
+  description: string;
+  category: DocumentCategory;
+  tags: string[];
+  folderId: string | null;
+}
+
+/**
+ * Record a file already written to storage as a new document: the document with its version 1,
+ * its search index entry and the owner's summary entry. The caller charges the file to the quota.
+ */
+export const createUploadedDocument = async (
+  userId: string,
+  file: UploadedFile,
+  details: UploadDetails
+): Promise<WalletDocument> => {
+  const document = await getDocumentRepository().create({
+    userId,
+    fileName: file.fileName,
+    storagePath: file.storagePath,
+    fileSize: file.fileSize,
+    mimeType: file.mimeType,
+    documentType: file.mimeType,
+    sha256: file.sha256,
+    detectedType: file.detectedType,
+    ...file.scan,
+    description: details.description,
+    category: details.category,
+    tags: details.tags,
+    folderId: details.folderId,
+    currentVersion: 1
+  });
+
+  // Note: Cannot use serverTimestamp() inside array elements - Firestore restriction
+  const summary: DocumentSummary = {
+    docId: document.id,
+    docName: file.fileName,
+    docType: file.mimeType,
+    docSize: file.fileSize,
+    uploadedTime: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+    isDocShow: true
+  };
+  try {
+    await recordInitialVersion(document);
+    await indexDocument(document);
+    await getUserRepository().addDocumentSummary(userId, summary);
+  } catch (error) {
+    // Leave no half-created document pointing at a file the caller is about to release
+    await removeDocumentRecords(document).catch(cleanupError =>
+      console.error(`Error removing half-created document ${document.id}:`, cleanupError));
+    throw error;
+  }
+
+  return document;
+};
+
+// Undo createUploadedDocument
+const removeDocumentRecords = async (document: WalletDocument): Promise<void> => {
+  await getUserRepository().removeDocumentSummary(document.userId, document.id);
+  await removeFromIndex(document.id);
+  await getDocumentVersionRepository().delete(document.id, 1);
+  await getDocumentRepository().delete(document.id);
+};
+
+// Delete a stored object, ignoring one that is already gone
+const deleteObject = async (storagePath: string): Promise<void> => {
+  try {
+    await getStorageProvider().delete(storagePath);
+  } catch (error: any) {
+    if (error?.code !== 404) {
+      throw error;
+    }
+  }
+};
+
+// Clear the session's reservation flag, resolving whether it still held one - so a hold is settled
+// or released exactly once, however many requests race for it
+const takeReservation = async (sessionId: string): Promise<boolean> => {
+  let held = false;
+  await getUploadSessionRepository().modify(sessionId, (current) => {
+    held = current.reserved === true;
+    return { ...current, reserved: false };
+  });
+  return held;
+};
+
+// Whether a completion holds the session - one that has run for longer than
+// UPLOAD_COMPLETION_TIMEOUT_MINUTES is taken to have died and no longer does
+const isCompleting = (session: UploadSession, now: number = Date.now()): boolean =>
+  session.completingAt !== null && now - session.completingAt < UPLOAD_COMPLETION_TIMEOUT_MINUTES * 60 * 1000;
+
+// Release the session's reservation, then drop the received chunks and the session
+const discardSession = async (session: UploadSession): Promise<void> => {
+  if (await takeReservation(session.id)) {
+    await releaseUpload(session.userId, session.fileSize);
+  }
+  for (const part of session.parts) {
+    await deleteObject(part.storagePath);
+  }
+  await getUploadSessionRepository().delete(session.id);
+};
+
+const sha256Of = (storagePath: string): Promise<string> => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha256');
+  getStorageProvider().stream(storagePath)
+    .on('data', (chunk: Buffer) => hash.update(chunk))
+    .on('error', reject)
+    .on('end', () => resolve(hash.digest('hex')));
+});
+
+// The first bytes of a stored object, enough to detect its type
+const headOf = (storagePath: string, size: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  getStorageProvider().stream(storagePath, { start: 0, end: Math.min(size, FILE_TYPE_SNIFF_BYTES) - 1 })
+    .on('data', (chunk: Buffer) => chunks.push(chunk))
+    .on('error', reject)
+    .on('end', () => resolve(Buffer.concat(chunks)));
+});
+
+/**
+ * Start a resumable upload. The declared file is checked against the user's plan and its size
+ * reserved right away, so the chunks that follow cannot be refused for lack of space.
+ * The file's contents are checked against the declared type once they are all in (see completeUpload).
+ */
+export const createUploadSession = async (
+  userId: string,
+  file: { fileName: string; mimeType: string; fileSize: number },
+  details: UploadDetails
+): Promise<UploadSession> => {
+  if (!DOCUMENT_MIME_TYPES.includes(file.mimeType)) {
+    throw new UnsupportedMediaTypeError(UNSUPPORTED_TYPE_MESSAGE);
+  }
+  const fileName = normalizeFileName(file.fileName);
+  verifyExtension({ fileName, mimeType: file.mimeType });
+
+  if (file.fileSize > MAX_RESUMABLE_UPLOAD_SIZE) {
+    throw new PayloadTooLargeError('File is too large', 'FILE_TOO_LARGE', { maxSize: MAX_RESUMABLE_UPLOAD_SIZE });
+  }
+
+  if (details.folderId) {
+    await findUserFolder(userId, details.folderId);
+  }
+
+  // Checked and held in one transaction, so concurrent uploads cannot overshoot the plan's limits
+  await reserveUpload(userId, file.fileSize, file.mimeType);
+
+  const now = Date.now();
+  try {
+    return await getUploadSessionRepository().create({
+      userId,
+      ...file,
+      fileName,
+      ...details,
+      offset: 0,
+      parts: [],
+      completingAt: null,
+      reserved: true,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + UPLOAD_SESSION_TTL_HOURS * HOUR_MS
+    });
+  } catch (error) {
+    await releaseUpload(userId, file.fileSize).catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * One of the user's upload sessions. Other users' sessions are reported as missing;
+ * expired ones as gone (the cleanup job removes them).
+ */
+export const findUploadSession = async (userId: string, uploadId: string): Promise<UploadSession> => {
+  const session = await getUploadSessionRepository().findById(uploadId);
+  if (!session || session.userId !== userId) {
+    throw new NotFoundError('Upload not found', 'UPLOAD_NOT_FOUND', { uploadId });
+  }
+  if (session.expiresAt <= Date.now()) {
+    throw new GoneError('This upload has expired - start a new one', 'UPLOAD_EXPIRED', { uploadId });
+  }
+  return session;
+};
+
+/**
+ * Stream the next chunk to storage. It must start at the session's offset; a chunk that fails
+ * midway is dropped whole, so the client resumes from the offset reported by the session.
+ */
+export const appendChunk = async (session: UploadSession, offset: number, data: Readable): Promise<UploadSession> => {
+  if (isCompleting(session)) {
+    throw new ConflictError('This upload is being completed', 'UPLOAD_COMPLETING');
+  }
+  if (offset !== session.offset) {
+    throw new ConflictError(
+      `Expected the chunk at offset ${session.offset}`,
+      'UPLOAD_OFFSET_MISMATCH',
+      { offset: session.offset }
+    );
+  }
+
+  // Never more than a chunk, nor past the declared size
+  const maxSize = Math.min(MAX_UPLOAD_CHUNK_SIZE, session.fileSize - offset);
+  let size = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        callback(new PayloadTooLargeError(`This chunk may hold at most ${maxSize} bytes`, 'CHUNK_TOO_LARGE', { maxSize }));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+  // Errors on either side (e.g. a dropped connection) fail the write below
+  pipeline(data, counter, () => undefined);
+
+  const storagePath = `uploads/${session.userId}/${session.id}/${offset}-${crypto.randomUUID()}`;
+  await getStorageProvider().putStream(storagePath, counter, { contentType: 'application/octet-stream' });
+
+  if (size === 0) {
+    await deleteObject(storagePath);
+    throw new BadRequestError('The chunk is empty', 'EMPTY_CHUNK');
+  }
+
+  let updated: UploadSession | null;
+  try {
+    updated = await getUploadSessionRepository().modify(session.id, (current) => {
+      // Another request got a chunk in first
+      if (current.offset !== offset || isCompleting(current)) {
+        throw new ConflictError(
+          `Expected the chunk at offset ${current.offset}`,
+          'UPLOAD_OFFSET_MISMATCH',
+          { offset: current.offset }
+        );
+      }
+      const now = Date.now();
+      return {
+        ...current,
+        offset: offset + size,
+        parts: [...current.parts, { offset, size, storagePath }],
+        updatedAt: now,
+        expiresAt: now + UPLOAD_SESSION_TTL_HOURS * HOUR_MS
+      };
+    });
+  } catch (error) {
+    await deleteObject(storagePath);
+    throw error;
+  }
+
+  if (!updated) {
+    // Cancelled while the chunk was arriving
+    await deleteObject(storagePath);
+    throw new NotFoundError('Upload not found', 'UPLOAD_NOT_FOUND', { uploadId: session.id });
+  }
+  return updated;
+};
+
+// The reserved bytes become used bytes - already checked against the quota when the upload started
+// (sessions started before holds were recorded are simply charged)
+const chargeSession = async (session: UploadSession): Promise<void> => {
+  if (await takeReservation(session.id)) {
+    await settleUpload(session.userId, session.fileSize);
+  } else {
+    await adjustTotalSize(session.userId, session.fileSize);
+  }
+};
+
+/**
+ * Assemble the received chunks into the document's file and create the document.
+ * The SHA-256 of the assembled file must match `sha256`, and its signature the declared type;
+ * otherwise the upload is discarded (and its reservation released) since the bytes cannot be trusted.
+ * An infected file is quarantined and the upload discarded the same way, but its size is charged (see scanUpload).
+ * If the scanner cannot be reached nothing is discarded and the client may retry the completion.
+ * On success the reservation becomes part of the owner's totalSize. Should charging it or recording
+ * the document fail, the stored file is released, the charge refunded and the upload discarded.
+ */
+export const completeUpload = async (session: UploadSession, sha256: string): Promise<WalletDocument> => {
+  if (session.offset < session.fileSize) {
+    throw new ConflictError(
+      `Only ${session.offset} of ${session.fileSize} bytes have been received`,
+      'UPLOAD_INCOMPLETE',
+      { offset: session.offset, fileSize: session.fileSize }
+    );
+  }
+
+  const sessions = getUploadSessionRepository();
+  const claimed = await sessions.modify(session.id, (current) => {
+    const now = Date.now();
+    if (isCompleting(current, now)) {
+      throw new ConflictError('This upload is being completed', 'UPLOAD_COMPLETING');
+    }
+    // Keep the cleanup job away while the parts are assembled
+    return { ...current, completingAt: now, updatedAt: now, expiresAt: now + UPLOAD_SESSION_TTL_HOURS * HOUR_MS };
+  });
+  if (!claimed) {
+    throw new NotFoundError('Upload not found', 'UPLOAD_NOT_FOUND', { uploadId: session.id });
+  }
+
+  const { userId, fileName, mimeType, fileSize } = claimed;
+  // Assembled next to the parts, then moved to its content address once the checksum matches
+  const assembledPath = `uploads/${userId}/${claimed.id}/assembled`;
+  const storage = getStorageProvider();
+  const putOptions = {
+    contentType: mimeType,
+    // Shared by every document with the same contents (see storeContent) - nothing about any one of them
+    metadata: { uploadedBy: userId }
+  };
+
+  let actual: string;
+  let detectedType: string | null = null;
+  let scan: ScanResult | null = null;
+  let rejection: UnsupportedMediaTypeError | UnprocessableEntityError | null = null;
+  let stored: StoredContent | null = null;
+  try {
+    await storage.compose(claimed.parts.map(part => part.storagePath), assembledPath, putOptions);
+    actual = await sha256Of(assembledPath);
+    if (actual === sha256.toLowerCase()) {
+      try {
+        detectedType = verifyFileType(await headOf(assembledPath, fileSize), { fileName, mimeType }, DOCUMENT_MIME_TYPES);
+        scan = await scanUpload(userId, { fileName, mimeType }, { storagePath: assembledPath });
+      } catch (error) {
+        if (!(error instanceof UnsupportedMediaTypeError || error instanceof UnprocessableEntityError)) {
+          throw error;
+        }
+        rejection = error;
+      }
+    }
+    if (detectedType && scan) {
+      stored = await storeContentFrom(userId, assembledPath, actual, fileSize, putOptions);
+    }
+  } catch (error) {
+    // Let the client retry the completion - unless a later one has taken the upload over meanwhile
+    await deleteObject(assembledPath).catch(() => undefined);
+    await sessions.modify(claimed.id, current =>
+      current.completingAt === claimed.completingAt ? { ...current, completingAt: null } : current);
+    throw error;
+  }
+  await deleteObject(assembledPath).catch(error => console.error(`Error deleting ${assembledPath}:`, error));
+
+  if (rejection) {
+    // The quarantined copy stays charged
+    if (isMalwareDetected(rejection)) {
+      await chargeSession(claimed);
+    }
+    await discardSession(claimed);
+    throw rejection;
+  }
+  if (!stored) {
+    await discardSession(claimed);
+    throw new BadRequestError(
+      'The uploaded file does not match its checksum - start a new upload',
+      'CHECKSUM_MISMATCH',
+      { expected: sha256.toLowerCase(), actual }
+    );
+  }
+
+  // Upload into the top level if the folder was deleted meanwhile
+  const folderId = claimed.folderId && await getFolderRepository().findById(claimed.folderId)
+    ? claimed.folderId
+    : null;
+
+  let charged = false;
+  let document: WalletDocument;
+  try {
+    await chargeSession(claimed);
+    charged = true;
+    document = await createUploadedDocument(
+      userId,
+      {
+        fileName,
+        storagePath: stored.storagePath,
+        fileSize,
+        mimeType,
+        sha256: stored.sha256,
+        detectedType: detectedType as string,
+        scan: scan as ScanResult
+      },
+      { description: claimed.description, category: claimed.category, tags: claimed.tags, folderId }
+    );
+  } catch (error) {
+    // Nothing refers to the stored file - hand back its bytes and drop the upload (releasing a hold not yet settled)
+    const { storagePath } = stored;
+    await releaseContent(storagePath).catch(cleanupError =>
+      console.error(`Error releasing ${storagePath}:`, cleanupError));
+    if (charged) {
+      await adjustTotalSize(userId, -fileSize).catch(() => undefined);
+    }
+    await discardSession(claimed).catch(cleanupError =>
+      console.error(`Error discarding upload ${claimed.id}:`, cleanupError));
+    throw error;
+  }
+
+  try {
+    await discardSession(claimed);
+  } catch (error) {
+    // The cleanup job retries once the session expires
+    console.error(`Error cleaning up completed upload ${claimed.id}:`, error);
+  }
+
+  return document;
+};
+
+/**
+ * Abandon an upload, deleting its chunks and releasing its reservation
+ */
+export const cancelUpload = async (session: UploadSession): Promise<void> => {
+  if (isCompleting(session)) {
+    throw new ConflictError('This upload is being completed', 'UPLOAD_COMPLETING');
+  }
+  await discardSession(session);
+};
+
+/**
+ * Delete every upload that has expired, with its chunks. Failures are logged and left for the next run.
+ */
+export const expireStaleUploads = async (now: number = Date.now()): Promise<{ expired: string[]; failed: string[] }> => {
+  const stale = await getUploadSessionRepository().listExpiredBefore(now);
+  const expired: string[] = [];
+  const failed: string[] = [];
+
+  for (const session of stale) {
+    try {
+      await discardSession(session);
+      expired.push(session.id);
+    } catch (error) {
+      console.error(`Error expiring upload ${session.id}:`, error);
+      failed.push(session.id);
+    }
+  }
+
+  return { expired, failed };
+};
+
+/**
+ * Run the cleanup job periodically inside the API process.
+ * Returns null when UPLOAD_EXPIRY_ON_SCHEDULE=false.
+ */
+export const scheduleUploadExpiry = (): NodeJS.Timeout | null => {
+  if (process.env.UPLOAD_EXPIRY_ON_SCHEDULE === 'false') {
+    return null;
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      const { expired, failed } = await expireStaleUploads();
+      if (expired.length + failed.length > 0) {
+        console.log(`⏳ Upload expiry: ${expired.length} expired, ${failed.length} failed`);
+      }
+    } catch (error) {
+      console.error('Error expiring uploads:', error);
+    }
+  }, UPLOAD_EXPIRY_INTERVAL_MINUTES * 60 * 1000);
+
+  // Never keep the process alive just for the cleanup
+  timer.unref();
+  return timer;
+};
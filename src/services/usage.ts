@@ -0,0 +1,228 @@
+import { StoragePlan } from '../config/storage';
+import { quotaUsageOf, User, WalletDocument } from '../models';
+import { getDocumentRepository, getUserRepository } from '../repositories';
+import { getStorageProvider } from '../storage';
+import { numberFromEnv } from '../utils/env';
+import { quarantinePrefix } from './malwareScan';
+import { planFor } from './quota';
+import { documentStorageSize } from './versions';
+
+// Counters changed this recently may belong to an upload or delete still in progress and are left alone
+const USAGE_RECONCILE_GRACE_MINUTES = numberFromEnv('USAGE_RECONCILE_GRACE_MINUTES', 10);
+
+// How often the API process runs the reconciliation (set USAGE_RECONCILE_ON_SCHEDULE=false to rely on `npm run usage:reconcile`)
+const USAGE_RECONCILE_INTERVAL_MINUTES = numberFromEnv('USAGE_RECONCILE_INTERVAL_MINUTES', 24 * 60);
+
+/**
+ * What a user actually stores, measured from their documents, profile picture and quarantined uploads
+ */
+export interface MeasuredUsage {
+  // Every retained version of every document, trashed ones included
+  documentsSize: number;
+  profilePictureSize: number;
+  // Infected uploads kept in quarantine - charged like any other upload until an admin deletes them
+  quarantinedSize: number;
+  documentCount: number;
+  totalSize: number;
+}
+
+export type ReconcileOutcome = 'IN_SYNC' | 'CORRECTED' | 'SKIPPED';
+
+export interface UsageDrift {
+  uid: string;
+  recordedSize: number;
+  actualSize: number;
+  // actualSize - recordedSize
+  drift: number;
+  // SKIPPED when the counter changed too recently (or while it was measured) - the next run retries it
+  outcome: ReconcileOutcome;
+}
+
+export interface UsageReconciliation {
+  checked: number;
+  corrected: UsageDrift[];
+  skipped: UsageDrift[];
+  failed: string[];
+}
+
+export interface UsageBreakdownEntry {
+  size: number;
+  count: number;
+}
+
+/**
+ * The user's storage meter: what the quota counts against what their plan allows
+ */
+export interface StorageUsage {
+  plan: StoragePlan;
+  // The user's totalSize - what uploads are checked against
+  usedSize: number;
+  // Held back for resumable uploads in progress
+  reservedSize: number;
+  availableSize: number;
+  documentCount: number;
+  profilePictureSize: number;
+  quarantinedSize: number;
+  // Measured from the documents (every retained version, trash included), largest first
+  byCategory: Array<UsageBreakdownEntry & { category: string }>;
+  byMimeType: Array<UsageBreakdownEntry & { mimeType: string }>;
+}
+
+// Each of the user's documents with the bytes it takes up - every retained version counts towards the quota
+const sizedDocuments = async (userId: string): Promise<Array<{ document: WalletDocument; size: number }>> => {
+  const sized = [];
+  for (const document of await getDocumentRepository().listByUser(userId)) {
+    sized.push({ document, size: await documentStorageSize(document) });
+  }
+  return sized;
+};
+
+const profilePictureSizeOf = async (user: User): Promise<number> => {
+  if (!user.profilePicturePath) {
+    return 0;
+  }
+  const info = await getStorageProvider().stat(user.profilePicturePath);
+  return info ? info.size : 0;
+};
+
+const quarantinedSizeOf = async (userId: string): Promise<number> => {
+  const objects = await getStorageProvider().list(quarantinePrefix(userId));
+  return objects.reduce((sum, { size }) => sum + size, 0);
+};
+
+export const measureUsage = async (user: User): Promise<MeasuredUsage> => {
+  const documents = await sizedDocuments(user.uid);
+  const documentsSize = documents.reduce((sum, { size }) => sum + size, 0);
+  const profilePictureSize = await profilePictureSizeOf(user);
+  const quarantinedSize = await quarantinedSizeOf(user.uid);
+
+  return {
+    documentsSize,
+    profilePictureSize,
+    quarantinedSize,
+    documentCount: documents.length,
+    totalSize: documentsSize + profilePictureSize + quarantinedSize
+  };
+};
+
+// Total size and count per key, largest first
+const breakdown = <K extends string>(
+  documents: Array<{ document: WalletDocument; size: number }>,
+  keyName: K,
+  keyOf: (document: WalletDocument) => string
+): Array<UsageBreakdownEntry & Record<K, string>> => {
+  const totals = new Map<string, UsageBreakdownEntry>();
+  for (const { document, size } of documents) {
+    const key = keyOf(document);
+    const entry = totals.get(key) ?? { size: 0, count: 0 };
+    totals.set(key, { size: entry.size + size, count: entry.count + 1 });
+  }
+  return [...totals.entries()]
+    .sort(([, a], [, b]) => b.size - a.size)
+    .map(([key, entry]) => ({ [keyName]: key, ...entry }) as UsageBreakdownEntry & Record<K, string>);
+};
+
+export const storageUsage = async (user: User): Promise<StorageUsage> => {
+  const plan = planFor(user);
+  const documents = await sizedDocuments(user.uid);
+  const { reservedSize } = quotaUsageOf(user);
+
+  return {
+    plan,
+    usedSize: user.totalSize,
+    reservedSize,
+    availableSize: Math.max(0, plan.maxStorageSize - user.totalSize - reservedSize),
+    documentCount: documents.length,
+    profilePictureSize: await profilePictureSizeOf(user),
+    quarantinedSize: await quarantinedSizeOf(user.uid),
+    byCategory: breakdown(documents, 'category', document => document.category || 'other'),
+    byMimeType: breakdown(documents, 'mimeType', document => document.mimeType)
+  };
+};
+
+/**
+ * Recompute the user's totalSize from what they actually store and correct the recorded one.
+ * The correction is only written when the counter has not moved since it was read and has been
+ * quiet for USAGE_RECONCILE_GRACE_MINUTES, so bytes charged for an upload still being stored
+ * are not taken back.
+ */
+export const reconcileUserUsage = async (user: User, now: number = Date.now()): Promise<UsageDrift> => {
+  const { totalSize: actualSize } = await measureUsage(user);
+  const quietSince = now - USAGE_RECONCILE_GRACE_MINUTES * 60 * 1000;
+
+  let outcome: ReconcileOutcome = 'IN_SYNC';
+  let recordedSize = user.totalSize;
+  await getUserRepository().modifyQuotaUsage(user.uid, (current) => {
+    const usage = quotaUsageOf(current);
+    recordedSize = current.totalSize;
+    if (current.totalSize === actualSize) {
+      outcome = 'IN_SYNC';
+      return usage;
+    }
+    if (current.totalSize !== user.totalSize || (current.totalSizeUpdatedAt ?? 0) > quietSince) {
+      outcome = 'SKIPPED';
+      return usage;
+    }
+    outcome = 'CORRECTED';
+    return { ...usage, totalSize: actualSize };
+  });
+
+  return { uid: user.uid, recordedSize, actualSize, drift: actualSize - recordedSize, outcome };
+};
+
+/**
+ * Reconcile every user's totalSize. Failures are logged and left for the next run.
+ */
+export const reconcileAllUsage = async (now: number = Date.now()): Promise<UsageReconciliation> => {
+  const result: UsageReconciliation = { checked: 0, corrected: [], skipped: [], failed: [] };
+  let cursor: string | undefined;
+
+  do {
+    const page = await getUserRepository().search({ limit: 100, cursor });
+    for (const user of page.users) {
+      result.checked += 1;
+      try {
+        const drift = await reconcileUserUsage(user, now);
+        if (drift.outcome === 'CORRECTED') {
+          result.corrected.push(drift);
+        } else if (drift.outcome === 'SKIPPED') {
+          result.skipped.push(drift);
+        }
+      } catch (error) {
+        console.error(`Error reconciling storage usage of user ${user.uid}:`, error);
+        result.failed.push(user.uid);
+      }
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return result;
+};
+
+/**
+ * Run the reconciliation periodically inside the API process.
+ * Returns null when USAGE_RECONCILE_ON_SCHEDULE=false.
+ */
+export const scheduleUsageReconciliation = (): NodeJS.Timeout | null => {
+  if (process.env.USAGE_RECONCILE_ON_SCHEDULE === 'false') {
+    return null;
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      const { checked, corrected, failed } = await reconcileAllUsage();
+      for (const { uid, recordedSize, actualSize } of corrected) {
+        console.log(`⚖️  Corrected totalSize of user ${uid}: ${recordedSize} -> ${actualSize} bytes`);
+      }
+      if (corrected.length + failed.length > 0) {
+        console.log(`⚖️  Usage reconciliation: ${checked} checked, ${corrected.length} corrected, ${failed.length} failed`);
+      }
+    } catch (error) {
+      console.error('Error reconciling storage usage:', error);
+    }
+  }, USAGE_RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+
+  // Never keep the process alive just for the reconciliation
+  timer.unref();
+  return timer;
+};
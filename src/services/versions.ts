@@ -0,0 +1,255 @@
+import { NotFoundError } from '../errors';
+import { DocumentSummary, DocumentVersion, NewDocumentVersion, User, WalletDocument } from '../models';
+import { getDocumentRepository, getDocumentVersionRepository, getUserRepository } from '../repositories';
+import { numberFromEnv } from '../utils/env';
+import { releaseContent, StoredContent, storeContent } from './contentStore';
+import { isMalwareDetected, ScanResult, scanUpload } from './malwareScan';
+import { adjustTotalSize, reserveQuota } from './quota';
+import { indexDocument } from './search';
+
+// Versions kept per document unless the user chose otherwise, and the most a user may choose
+export const DEFAULT_DOCUMENT_VERSIONS = numberFromEnv('DEFAULT_DOCUMENT_VERSIONS', 5);
+export const MAX_DOCUMENT_VERSIONS = numberFromEnv('MAX_DOCUMENT_VERSIONS', 20);
+
+export interface VersionFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+  // Type detected from the file's signature (see verifyFileType)
+  detectedType: string;
+}
+
+/**
+ * Versions kept per document for the user
+ */
+export const versionLimitFor = (user: User | null): number =>
+  Math.min(user?.maxDocumentVersions || DEFAULT_DOCUMENT_VERSIONS, MAX_DOCUMENT_VERSIONS);
+
+const versionFromDocument = (document: WalletDocument, version: number): NewDocumentVersion => ({
+  documentId: document.id,
+  userId: document.userId,
+  version,
+  fileName: document.fileName,
+  storagePath: document.storagePath,
+  fileSize: document.fileSize,
+  mimeType: document.mimeType,
+  // Firestore rejects undefined fields
+  ...(document.sha256 ? { sha256: document.sha256 } : {}),
+  ...(document.detectedType ? { detectedType: document.detectedType } : {}),
+  ...(document.scanStatus
+    ? { scanStatus: document.scanStatus, scannedAt: document.scannedAt ?? null, scanThreat: document.scanThreat ?? null }
+    : {}),
+  createdAt: Date.now()
+});
+
+const summaryFields = (version: DocumentVersion): Partial<Omit<DocumentSummary, 'docId'>> => ({
+  docName: version.fileName,
+  docType: version.mimeType,
+  docSize: version.fileSize
+});
+
+/**
+ * Record the file a document was uploaded with as its version 1
+ */
+export const recordInitialVersion = async (document: WalletDocument): Promise<DocumentVersion> =>
+  getDocumentVersionRepository().create(versionFromDocument(document, 1));
+
+/**
+ * Versions of a document, newest first. Documents uploaded before versioning get their
+ * version 1 record created from the document itself on first use.
+ */
+export const listVersions = async (document: WalletDocument): Promise<DocumentVersion[]> => {
+  if (document.currentVersion === undefined) {
+    await recordInitialVersion(document);
+    await getDocumentRepository().update(document.id, { currentVersion: 1 });
+    document.currentVersion = 1;
+  }
+  return getDocumentVersionRepository().listByDocument(document.id);
+};
+
+/**
+ * Bytes a document occupies in storage across all of its retained versions
+ */
+export const documentStorageSize = async (document: WalletDocument): Promise<number> => {
+  if (document.currentVersion === undefined) {
+    return document.fileSize || 0;
+  }
+  const versions = await getDocumentVersionRepository().listByDocument(document.id);
+  return versions.reduce((sum, version) => sum + version.fileSize, 0);
+};
+
+// Point the document (and the owner's summary entry) at the given version's file
+const makeCurrent = async (document: WalletDocument, version: DocumentVersion): Promise<WalletDocument> => {
+  const fields = {
+    fileName: version.fileName,
+    storagePath: version.storagePath,
+    fileSize: version.fileSize,
+    mimeType: version.mimeType,
+    documentType: version.mimeType,
+    sha256: version.sha256 ?? null,
+    detectedType: version.detectedType ?? null,
+    // Versions uploaded before scanning have no verdict
+    scanStatus: version.scanStatus ?? null,
+    scannedAt: version.scannedAt ?? null,
+    scanThreat: version.scanThreat ?? null,
+    currentVersion: version.version
+  };
+
+  await getDocumentRepository().update(document.id, fields);
+  await getUserRepository().updateDocumentSummary(document.userId, document.id, summaryFields(version));
+
+  const updated = { ...document, ...fields };
+  await indexDocument(updated);
+  return updated;
+};
+
+// Take the next version number in a transaction on the document, so concurrent uploads never get the same one.
+// highestExisting covers documents whose lastVersion was never recorded.
+const allocateVersionNumber = async (document: WalletDocument, highestExisting: number): Promise<number> => {
+  let versionNumber = 0;
+  const updated = await getDocumentRepository().modify(document.id, (current) => {
+    versionNumber = Math.max(current.lastVersion ?? 0, highestExisting) + 1;
+    return { ...current, lastVersion: versionNumber };
+  });
+  if (!updated) {
+    throw new NotFoundError('Document not found', 'DOCUMENT_NOT_FOUND');
+  }
+  return versionNumber;
+};
+
+// Take the versions out of the history. Only the ones this call removed are returned, so concurrent
+// uploads never prune - and credit the quota for - the same version twice.
+const takeVersions = async (candidates: DocumentVersion[]): Promise<DocumentVersion[]> => {
+  const versions = getDocumentVersionRepository();
+  const taken: DocumentVersion[] = [];
+  for (const candidate of candidates) {
+    const version = await versions.take(candidate.documentId, candidate.version);
+    if (version) {
+      taken.push(version);
+    }
+  }
+  return taken;
+};
+
+// Put taken versions back when the new version is not stored after all - their files were never released
+const restoreVersions = async (taken: DocumentVersion[]): Promise<void> => {
+  const versions = getDocumentVersionRepository();
+  for (const { id: _id, ...version } of taken) {
+    await versions.create(version).catch(error => console.error('Error restoring a pruned version:', error));
+  }
+};
+
+/**
+ * Store a file as the document's new current version. Earlier versions stay in storage
+ * up to the owner's version limit; the oldest ones beyond it are deleted.
+ * Throws STORAGE_QUOTA_EXCEEDED when the retained versions would not fit the quota.
+ */
+export const addVersion = async (
+  document: WalletDocument,
+  file: VersionFile
+): Promise<{ document: WalletDocument; version: DocumentVersion; pruned: DocumentVersion[] }> => {
+  const existing = await listVersions(document);
+  const user = await getUserRepository().findById(document.userId);
+
+  // A number lost to a failed upload is simply skipped
+  const versionNumber = await allocateVersionNumber(document, existing[0]?.version ?? 0);
+
+  // The new version counts towards the limit, so keep one fewer of the existing ones
+  const pruned = await takeVersions(existing.slice(Math.max(0, versionLimitFor(user) - 1)));
+  const freedSize = pruned.reduce((sum, version) => sum + version.fileSize, 0);
+
+  // Checked and charged in one transaction, before anything is scanned or stored
+  try {
+    await reserveQuota(document.userId, file.size, { freedSize, mimeType: file.mimetype });
+  } catch (error) {
+    await restoreVersions(pruned);
+    throw error;
+  }
+
+  // Infected files are quarantined instead (422), keeping the charge for the quarantined copy - the versions
+  // that would have been pruned stay. Otherwise stored once however many versions (or documents) have the same contents.
+  let scan: ScanResult;
+  let stored: StoredContent;
+  try {
+    scan = await scanUpload(document.userId, { fileName: file.originalname, mimeType: file.mimetype }, { buffer: file.buffer });
+    stored = await storeContent(document.userId, file.buffer, {
+      contentType: file.mimetype,
+      // Shared by every document with the same contents (see storeContent) - nothing about any one of them
+      metadata: { uploadedBy: document.userId }
+    });
+  } catch (error) {
+    const refund = isMalwareDetected(error) ? freedSize : freedSize - file.size;
+    await adjustTotalSize(document.userId, refund).catch(() => undefined);
+    await restoreVersions(pruned);
+    throw error;
+  }
+  const { storagePath, sha256 } = stored;
+
+  const version = await getDocumentVersionRepository().create({
+    documentId: document.id,
+    userId: document.userId,
+    version: versionNumber,
+    fileName: file.originalname,
+    storagePath,
+    fileSize: file.size,
+    mimeType: file.mimetype,
+    sha256,
+    detectedType: file.detectedType,
+    ...scan,
+    createdAt: Date.now()
+  });
+
+  for (const old of pruned) {
+    try {
+      await releaseContent(old.storagePath);
+    } catch (error) {
+      console.error('Error deleting pruned version from storage:', error);
+    }
+  }
+
+  const updated = await makeCurrent(document, version);
+
+  return { document: updated, version, pruned };
+};
+
+/**
+ * Make an earlier version current again. The quota is unaffected - the file is already stored.
+ */
+export const restoreVersion = async (document: WalletDocument, versionNumber: number): Promise<WalletDocument> => {
+  await listVersions(document);
+
+  const version = await getDocumentVersionRepository().find(document.id, versionNumber);
+  if (!version) {
+    throw new NotFoundError(`Version ${versionNumber} not found`, 'VERSION_NOT_FOUND');
+  }
+
+  if (document.currentVersion === versionNumber) {
+    return document;
+  }
+
+  return makeCurrent(document, version);
+};
+
+/**
+ * Delete every stored version of a document (records, and storage objects no other version uses).
+ * Files already missing from storage count as deleted; any other storage error rejects,
+ * leaving the records of the versions not yet deleted so the call can be retried.
+ * Resolves the number of bytes freed.
+ */
+export const deleteAllVersions = async (document: WalletDocument): Promise<number> => {
+  // Documents uploaded before versioning only have their current file
+  if (document.currentVersion === undefined) {
+    await releaseContent(document.storagePath);
+    return document.fileSize || 0;
+  }
+
+  const versions = getDocumentVersionRepository();
+  let freedSize = 0;
+  for (const version of await versions.listByDocument(document.id)) {
+    await releaseContent(version.storagePath);
+    await versions.delete(document.id, version.version);
+    freedSize += version.fileSize;
+  }
+  return freedSize;
+};
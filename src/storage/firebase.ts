@@ -0,0 +1,126 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { admin } from '../config/firebase';
+import { ByteRange, PutOptions, StorageProvider, StoredObjectInfo } from './types';
+
+// Most objects Cloud Storage combines in one compose request
+const MAX_COMPOSE_SOURCES = 32;
+
+/**
+ * Storage provider backed by a Firebase (Google Cloud Storage) bucket
+ */
+export class FirebaseStorageProvider implements StorageProvider {
+  constructor(private readonly bucketName?: string) {}
+
+  // Resolve lazily - Firebase is initialized after this module is loaded
+  private bucket() {
+    return this.bucketName
+      ? admin.storage().bucket(this.bucketName)
+      : admin.storage().bucket();
+  }
+
+  async put(path: string, data: Buffer, options: PutOptions = {}): Promise<void> {
+    await this.bucket().file(path).save(data, {
+      metadata: {
+        contentType: options.contentType,
+        metadata: options.metadata
+      }
+    });
+  }
+
+  async putStream(path: string, data: Readable, options: PutOptions = {}): Promise<void> {
+    const destination = this.bucket().file(path).createWriteStream({
+      resumable: false,
+      metadata: {
+        contentType: options.contentType,
+        metadata: options.metadata
+      }
+    });
+    await pipeline(data, destination);
+  }
+
+  async compose(sources: string[], destination: string, options: PutOptions = {}): Promise<void> {
+    const bucket = this.bucket();
+    const intermediates: string[] = [];
+
+    try {
+      // Combine in groups until one request can take the rest
+      let pending = sources;
+      while (pending.length > MAX_COMPOSE_SOURCES) {
+        const next: string[] = [];
+        for (let i = 0; i < pending.length; i += MAX_COMPOSE_SOURCES) {
+          const target = `${destination}.compose-${intermediates.length}`;
+          intermediates.push(target);
+          await bucket.combine(pending.slice(i, i + MAX_COMPOSE_SOURCES), target);
+          next.push(target);
+        }
+        pending = next;
+      }
+
+      await bucket.combine(pending, destination);
+      await bucket.file(destination).setMetadata({
+        contentType: options.contentType,
+        metadata: options.metadata
+      });
+    } finally {
+      await Promise.all(intermediates.map(path => bucket.file(path).delete({ ignoreNotFound: true })));
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const [buffer] = await this.bucket().file(path).download();
+    return buffer;
+  }
+
+  async stat(path: string): Promise<StoredObjectInfo | null> {
+    const file = this.bucket().file(path);
+    const [exists] = await file.exists();
+    if (!exists) {
+      return null;
+    }
+
+    const [metadata] = await file.getMetadata();
+    const size = metadata.size ?? '0';
+
+    return {
+      path,
+      size: typeof size === 'string' ? parseInt(size, 10) : size,
+      contentType: metadata.contentType,
+      updatedAt: metadata.updated ? new Date(metadata.updated) : undefined,
+      etag: metadata.etag,
+      metadata: (metadata.metadata || {}) as Record<string, string>
+    };
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    // getFiles follows the result pages itself
+    const [files] = await this.bucket().getFiles({ prefix });
+    return files.map(file => {
+      const size = file.metadata.size ?? '0';
+      return {
+        path: file.name,
+        size: typeof size === 'string' ? parseInt(size, 10) : size,
+        contentType: file.metadata.contentType,
+        updatedAt: file.metadata.updated ? new Date(file.metadata.updated) : undefined,
+        etag: file.metadata.etag,
+        metadata: (file.metadata.metadata || {}) as Record<string, string>
+      };
+    });
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.bucket().file(path).delete();
+  }
+
+  async signUrl(path: string, expiresAt: number): Promise<string> {
+    const [signedUrl] = await this.bucket().file(path).getSignedUrl({
+      action: 'read',
+      expires: expiresAt
+    });
+    return signedUrl;
+  }
+
+  stream(path: string, range?: ByteRange): Readable {
+    return this.bucket().file(path).createReadStream(range ? { start: range.start, end: range.end } : {});
+  }
+}
@@ -0,0 +1,51 @@
+import * as crypto from 'crypto';
+import { publicBaseUrl } from '../utils/env';
+import { FirebaseStorageProvider } from './firebase';
+import { LocalStorageProvider } from './local';
+import { StorageProvider } from './types';
+
+export * from './types';
+export { FirebaseStorageProvider, LocalStorageProvider };
+
+let storageProvider: StorageProvider | null = null;
+
+/**
+ * Build the storage provider selected by STORAGE_DRIVER ('firebase' or 'local')
+ */
+export const createStorageProvider = (): StorageProvider => {
+  const driver = (process.env.STORAGE_DRIVER || 'firebase').toLowerCase();
+
+  switch (driver) {
+    case 'firebase':
+      return new FirebaseStorageProvider(process.env.FIREBASE_STORAGE_BUCKET);
+    case 'local': {
+      // Without a configured secret, signed URLs stop working on restart - fine for development
+      const signingSecret = process.env.LOCAL_STORAGE_SIGNING_SECRET || crypto.randomBytes(32).toString('hex');
+      return new LocalStorageProvider(
+        process.env.LOCAL_STORAGE_DIR || './.storage',
+        publicBaseUrl(),
+        signingSecret
+      );
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Expected "firebase" or "local".`);
+  }
+};
+
+/**
+ * Shared storage provider instance used by the routes
+ */
+export const getStorageProvider = (): StorageProvider => {
+  if (!storageProvider) {
+    storageProvider = createStorageProvider();
+    console.log(`📦 Storage driver: ${storageProvider.constructor.name}`);
+  }
+  return storageProvider;
+};
+
+/**
+ * Replace the shared provider (e.g. with a LocalStorageProvider in tests)
+ */
+export const setStorageProvider = (provider: StorageProvider): void => {
+  storageProvider = provider;
+};
@@ -0,0 +1,214 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ByteRange, PutOptions, StorageProvider, StoredObjectInfo } from './types';
+
+interface SidecarMetadata {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Storage provider that keeps objects on the local filesystem.
+ * Intended for development and CI - signed URLs point back at this API
+ * (see routes/storage.ts) and are verified with an HMAC.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private readonly rootDir: string;
+
+  constructor(
+    rootDir: string,
+    private readonly publicBaseUrl: string,
+    private readonly signingSecret: string
+  ) {
+    this.rootDir = path.resolve(rootDir);
+    fs.mkdirSync(this.rootDir, { recursive: true });
+  }
+
+  // Map a storage key to an absolute path, refusing anything outside the root
+  private resolve(objectPath: string): string {
+    const resolved = path.resolve(this.rootDir, objectPath);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage path: ${objectPath}`);
+    }
+    return resolved;
+  }
+
+  private notFound(objectPath: string): Error {
+    const error: any = new Error(`No such object: ${objectPath}`);
+    error.code = 404;
+    return error;
+  }
+
+  async put(objectPath: string, data: Buffer, options: PutOptions = {}): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    await this.writeSidecar(filePath, options);
+  }
+
+  async putStream(objectPath: string, data: Readable, options: PutOptions = {}): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await pipeline(data, fs.createWriteStream(filePath));
+    } catch (error) {
+      // Never leave a partial object behind
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+    await this.writeSidecar(filePath, options);
+  }
+
+  async compose(sources: string[], destination: string, options: PutOptions = {}): Promise<void> {
+    const filePath = this.resolve(destination);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    const output = fs.createWriteStream(filePath);
+    try {
+      for (const source of sources) {
+        await pipeline(fs.createReadStream(this.resolve(source)), output, { end: false });
+      }
+      await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => (error ? reject(error) : resolve())));
+    } catch (error: any) {
+      output.destroy();
+      await fs.promises.rm(filePath, { force: true });
+      throw error.code === 'ENOENT' ? this.notFound(error.path ?? destination) : error;
+    }
+    await this.writeSidecar(filePath, options);
+  }
+
+  async get(objectPath: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.resolve(objectPath));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw this.notFound(objectPath);
+      }
+      throw error;
+    }
+  }
+
+  async stat(objectPath: string): Promise<StoredObjectInfo | null> {
+    const filePath = this.resolve(objectPath);
+
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let sidecar: SidecarMetadata = {};
+    try {
+      sidecar = JSON.parse(await fs.promises.readFile(filePath + META_SUFFIX, 'utf-8'));
+    } catch {
+      // Objects written outside this provider have no sidecar
+    }
+
+    return {
+      path: objectPath,
+      size: stats.size,
+      contentType: sidecar.contentType,
+      updatedAt: stats.mtime,
+      etag: `${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}`,
+      metadata: sidecar.metadata || {}
+    };
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    // Walk the deepest directory the prefix names, then filter on the rest of it
+    const baseDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const objectPaths: string[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(relativeDir ? this.resolve(relativeDir) : this.rootDir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return;
+        }
+        throw error;
+      }
+      for (const entry of entries) {
+        const objectPath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(objectPath);
+        } else if (!entry.name.endsWith(META_SUFFIX) && objectPath.startsWith(prefix)) {
+          objectPaths.push(objectPath);
+        }
+      }
+    };
+    await walk(baseDir);
+
+    const objects: StoredObjectInfo[] = [];
+    for (const objectPath of objectPaths) {
+      const info = await this.stat(objectPath);
+      if (info) {
+        objects.push(info);
+      }
+    }
+    return objects;
+  }
+
+  async delete(objectPath: string): Promise<void> {
+    const filePath = this.resolve(objectPath);
+    try {
+      await fs.promises.unlink(filePath);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw this.notFound(objectPath);
+      }
+      throw error;
+    }
+    await fs.promises.rm(filePath + META_SUFFIX, { force: true });
+  }
+
+  async signUrl(objectPath: string, expiresAt: number): Promise<string> {
+    const params = new URLSearchParams({
+      path: objectPath,
+      expires: String(expiresAt),
+      signature: this.sign(objectPath, expiresAt)
+    });
+    return `${this.publicBaseUrl}/api/storage/local?${params.toString()}`;
+  }
+
+  stream(objectPath: string, range?: ByteRange): Readable {
+    return fs.createReadStream(this.resolve(objectPath), range ? { start: range.start, end: range.end } : {});
+  }
+
+  /**
+   * Check a signature produced by signUrl()
+   */
+  verifySignature(objectPath: string, expiresAt: number, signature: string): boolean {
+    if (!Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(objectPath, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private async writeSidecar(filePath: string, options: PutOptions): Promise<void> {
+    const sidecar: SidecarMetadata = {
+      contentType: options.contentType,
+      metadata: options.metadata
+    };
+    await fs.promises.writeFile(filePath + META_SUFFIX, JSON.stringify(sidecar));
+  }
+
+  private sign(objectPath: string, expiresAt: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${objectPath}\n${expiresAt}`)
+      .digest('hex');
+  }
+}
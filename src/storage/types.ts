@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+
+/**
+ * Metadata describing an object held by a storage backend
+ */
+export interface StoredObjectInfo {
+  path: string;
+  size: number;
+  contentType?: string;
+  updatedAt?: Date;
+  etag?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PutOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Inclusive byte range, as used by HTTP Range requests
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Backend-agnostic object storage used by every route.
+ * Paths are always relative keys such as `${userId}/${timestamp}_${name}`.
+ */
+export interface StorageProvider {
+  /** Store bytes under the given path, replacing any existing object */
+  put(path: string, data: Buffer, options?: PutOptions): Promise<void>;
+
+  /** Store a stream under the given path, replacing any existing object. Resolves once it is fully written. */
+  putStream(path: string, data: Readable, options?: PutOptions): Promise<void>;
+
+  /** Concatenate the source objects, in order, into the destination object. The sources are left in place. */
+  compose(sources: string[], destination: string, options?: PutOptions): Promise<void>;
+
+  /** Read the whole object into memory */
+  get(path: string): Promise<Buffer>;
+
+  /** Object metadata, or null when the object does not exist */
+  stat(path: string): Promise<StoredObjectInfo | null>;
+
+  /** Every object whose path starts with the prefix, in no particular order */
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+
+  /** Delete the object. Rejects when the object does not exist. */
+  delete(path: string): Promise<void>;
+
+  /** Time-limited read URL for the object */
+  signUrl(path: string, expiresAt: number): Promise<string>;
+
+  /** Readable stream of the object, optionally limited to a byte range */
+  stream(path: string, range?: ByteRange): Readable;
+}
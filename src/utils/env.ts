@@ -0,0 +1,15 @@
+/**
+ * Positive number from an environment variable, or the fallback when unset or invalid
+ */
+export const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Base URL the API is reachable at (PUBLIC_BASE_URL), without a trailing slash
+ */
+export const publicBaseUrl = (): string => {
+  const port = Number(process.env.PORT) || 3000;
+  return (process.env.PUBLIC_BASE_URL || `http://localhost:${port}`).replace(/\/+$/, '');
+};
@@ -0,0 +1,188 @@
+import { UnsupportedMediaTypeError } from '../errors';
+
+// Bytes of the start of a file that detection needs - OOXML part names follow the first ZIP headers
+export const FILE_TYPE_SNIFF_BYTES = 4096;
+
+// Legacy Office files (.doc, .xls) share the OLE2 compound file container, which their signature cannot tell apart
+export const COMPOUND_FILE_TYPE = 'application/x-cfb';
+
+const PDF = 'application/pdf';
+const JPEG = 'image/jpeg';
+const PNG = 'image/png';
+const WEBP = 'image/webp';
+const DOC = 'application/msword';
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLS = 'application/vnd.ms-excel';
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const startsWith = (data: Buffer, signature: number[], offset = 0): boolean =>
+  data.length >= offset + signature.length && signature.every((byte, index) => data[offset + index] === byte);
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+/**
+ * Type of a file from its signature (magic bytes), or null when it is none of the types the API stores.
+ * Pass at least the first FILE_TYPE_SNIFF_BYTES bytes.
+ */
+export const detectFileType = (head: Buffer): string | null => {
+  if (startsWith(head, ascii('%PDF-'))) {
+    return PDF;
+  }
+  if (startsWith(head, [0xff, 0xd8, 0xff])) {
+    return JPEG;
+  }
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return PNG;
+  }
+  if (startsWith(head, ascii('RIFF')) && startsWith(head, ascii('WEBP'), 8)) {
+    return WEBP;
+  }
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return COMPOUND_FILE_TYPE;
+  }
+  // Word and Excel files are ZIP archives told apart by their part names
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = head.toString('latin1');
+    if (names.includes('word/')) {
+      return DOCX;
+    }
+    if (names.includes('xl/')) {
+      return XLSX;
+    }
+  }
+  return null;
+};
+
+// The claimed types each detected type stands for
+const MATCHING_TYPES: Record<string, string[]> = {
+  [PDF]: [PDF],
+  [JPEG]: [JPEG, 'image/jpg'],
+  [PNG]: [PNG],
+  [WEBP]: [WEBP],
+  [COMPOUND_FILE_TYPE]: [DOC, XLS],
+  [DOCX]: [DOCX],
+  [XLSX]: [XLSX]
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: PDF,
+  jpg: JPEG,
+  jpeg: JPEG,
+  png: PNG,
+  webp: WEBP,
+  doc: DOC,
+  docx: DOCX,
+  xls: XLS,
+  xlsx: XLSX
+};
+
+/**
+ * Extension for files of the given type, e.g. 'jpg' for image/jpeg
+ */
+export const extensionFor = (mimeType: string): string | undefined =>
+  Object.keys(EXTENSION_TYPES).find(extension => EXTENSION_TYPES[extension] === mimeType);
+
+const extensionOf = (fileName: string): string | null => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : null;
+};
+
+const mismatch = (
+  file: { mimeType: string; fileName: string },
+  detectedType: string | null,
+  message: string
+): UnsupportedMediaTypeError => new UnsupportedMediaTypeError(message, 'FILE_TYPE_MISMATCH', {
+  claimedType: file.mimeType,
+  detectedType,
+  extension: extensionOf(file.fileName)
+});
+
+/**
+ * Check that a file name's extension names the type the client claimed. Names without an extension,
+ * or with one that names no accepted type (e.g. 'scan.2024', 'report.final'), pass.
+ * Throws 415 FILE_TYPE_MISMATCH.
+ */
+export const verifyExtension = (file: { mimeType: string; fileName: string }, detectedType: string | null = null): void => {
+  const extension = extensionOf(file.fileName);
+  if (extension === null || !Object.prototype.hasOwnProperty.call(EXTENSION_TYPES, extension)) {
+    return;
+  }
+  const claimedType = file.mimeType === 'image/jpg' ? JPEG : file.mimeType;
+  if (EXTENSION_TYPES[extension] !== claimedType) {
+    throw mismatch(file, detectedType, `The file name's extension (.${extension}) does not match its declared type.`);
+  }
+};
+
+/**
+ * Check a file's signature against the type the client claimed and its file name's extension.
+ * Throws 415 UNRECOGNIZED_FILE_TYPE when the signature is not one of `allowedTypes` (claimed types),
+ * FILE_TYPE_MISMATCH when the claimed type or the extension names a different type.
+ * Resolves the detected type.
+ */
+export const verifyFileType = (
+  head: Buffer,
+  file: { mimeType: string; fileName: string },
+  allowedTypes: string[]
+): string => {
+  const detectedType = detectFileType(head);
+  const matching = detectedType ? MATCHING_TYPES[detectedType] : [];
+  if (!detectedType || !matching.some(type => allowedTypes.includes(type))) {
+    throw new UnsupportedMediaTypeError(
+      'The file\'s contents are not of an accepted type.',
+      'UNRECOGNIZED_FILE_TYPE',
+      { claimedType: file.mimeType, detectedType }
+    );
+  }
+  if (!matching.includes(file.mimeType)) {
+    throw mismatch(file, detectedType, `The file's contents (${detectedType}) do not match its declared type.`);
+  }
+  verifyExtension(file, detectedType);
+
+  return detectedType;
+};
+
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Multer decodes multipart file names as latin1, while browsers send them as UTF-8 bytes.
+ * Re-decode them as UTF-8, keeping names that are not (or were already decoded properly) as they are.
+ */
+export const decodeMultipartFileName = (originalname: string): string => {
+  // eslint-disable-next-line no-control-regex
+  if (/[^\u0000-\u00ff]/.test(originalname)) {
+    return originalname;
+  }
+  const decoded = Buffer.from(originalname, 'latin1').toString('utf8');
+  return decoded.includes('\ufffd') ? originalname : decoded;
+};
+
+/**
+ * Make a client-supplied file name safe to store and show: Unicode NFC, no directories,
+ * no control or bidirectional override characters, collapsed whitespace, no leading or trailing
+ * dots and at most 255 characters (keeping the extension). Falls back to `fallback` when nothing is left.
+ */
+export const normalizeFileName = (fileName: string, fallback = 'document'): string => {
+  let name = fileName.normalize('NFC');
+  // Keep only the last path segment, whichever separator the client's OS uses
+  name = name.slice(Math.max(name.lastIndexOf('/'), name.lastIndexOf('\\')) + 1);
+  name = name
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200e\u200f\u202a-\u202e\u2066-\u2069]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '');
+
+  if (!name) {
+    return fallback;
+  }
+  if (name.length <= MAX_FILE_NAME_LENGTH) {
+    return name;
+  }
+
+  // Cut the base name, never the extension (within reason)
+  const extension = extensionOf(name);
+  const suffix = extension && extension.length <= 16 ? `.${extension}` : '';
+  return [...name.slice(0, name.length - suffix.length)]
+    .slice(0, MAX_FILE_NAME_LENGTH - suffix.length)
+    .join('')
+    .trimEnd() + suffix;
+};
@@ -0,0 +1,10 @@
+import { Request } from 'express';
+
+/**
+ * Client IP address (honours X-Forwarded-For through the configured 'trust proxy' hops)
+ */
+export const getClientIp = (req: Request): string =>
+  req.ip || req.socket?.remoteAddress || 'unknown';
+
+export const getUserAgent = (req: Request): string | undefined =>
+  req.get('user-agent') || undefined;
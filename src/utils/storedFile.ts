@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { pipeline } from 'stream';
+import { NotFoundError, RangeNotSatisfiableError } from '../errors';
+import { ByteRange, getStorageProvider, StoredObjectInfo } from '../storage';
+
+export interface StoredFileOptions {
+  // Name offered to the client - omitted from Content-Disposition when not given
+  fileName?: string;
+  // Used when the stored object has no content type
+  contentType?: string;
+  // attachment asks browsers to save the file instead of showing it
+  disposition?: 'inline' | 'attachment';
+}
+
+// Quoted strong ETag from the backend's (unquoted or quoted) one
+const quotedEtag = (info: StoredObjectInfo): string | undefined =>
+  info.etag ? `"${info.etag.replace(/^(W\/)?"|"$/g, '')}"` : undefined;
+
+// HTTP dates only carry whole seconds
+const toSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+const contentDisposition = (type: 'inline' | 'attachment', fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// Whether the client's cached copy (If-None-Match, else If-Modified-Since) is still current
+const isNotModified = (req: Request, etag: string | undefined, lastModified: Date | undefined): boolean => {
+  const ifNoneMatch = req.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .some(tag => tag === '*' || tag === etag);
+  }
+
+  const ifModifiedSince = req.get('if-modified-since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && toSeconds(lastModified) <= Math.floor(since / 1000);
+  }
+
+  return false;
+};
+
+// If-Range: the range only applies while the file is unchanged
+const rangeStillValid = (req: Request, etag: string | undefined, lastModified: Date | undefined): boolean => {
+  const ifRange = req.get('if-range');
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return Boolean(lastModified) && !Number.isNaN(date) && toSeconds(lastModified as Date) === Math.floor(date / 1000);
+};
+
+/**
+ * The single byte range requested by a Range header, or null to send the whole file
+ * (no header, a header this API does not handle such as several ranges, or an invalid one).
+ * Throws RANGE_NOT_SATISFIABLE when the range lies beyond the end of the file.
+ */
+const requestedRange = (header: string | undefined, size: number): ByteRange | null => {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  // bytes=-N is the last N bytes
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) {
+      throw new RangeNotSatisfiableError(size);
+    }
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Number(match[2]);
+  if (end < start) {
+    return null;
+  }
+  if (start >= size) {
+    throw new RangeNotSatisfiableError(size);
+  }
+  return { start, end: Math.min(end, size - 1) };
+};
+
+/**
+ * Stream a stored object as the response, with its content type, validators (ETag,
+ * Last-Modified) for conditional requests and single-range (206) support.
+ * Responses may be cached privately but are revalidated on every use, so access is always
+ * checked by the calling route. Resolves the status sent and, for 206, the range served.
+ */
+export const sendStoredFile = async (
+  req: Request,
+  res: Response,
+  storagePath: string,
+  options: StoredFileOptions = {}
+): Promise<{ status: number; range?: ByteRange }> => {
+  const storage = getStorageProvider();
+  const info = await storage.stat(storagePath);
+  if (!info) {
+    throw new NotFoundError('File not found in storage', 'FILE_NOT_FOUND');
+  }
+
+  const etag = quotedEtag(info);
+  const lastModified = info.updatedAt;
+
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('Accept-Ranges', 'bytes');
+  if (etag) {
+    res.setHeader('ETag', etag);
+  }
+  if (lastModified) {
+    res.setHeader('Last-Modified', lastModified.toUTCString());
+  }
+
+  if (isNotModified(req, etag, lastModified)) {
+    res.status(304).end();
+    return { status: 304 };
+  }
+
+  const range = rangeStillValid(req, etag, lastModified) ? requestedRange(req.get('range'), info.size) : null;
+
+  res.setHeader('Content-Type', info.contentType || options.contentType || 'application/octet-stream');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  if (options.fileName) {
+    res.setHeader('Content-Disposition', contentDisposition(options.disposition || 'inline', options.fileName));
+  }
+
+  const status = range ? 206 : 200;
+  res.status(status);
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+    res.setHeader('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.setHeader('Content-Length', String(info.size));
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+  } else {
+    // Headers are already sent when the stream fails - all that is left is to cut the response short
+    pipeline(storage.stream(storagePath, range ?? undefined), res, (error) => {
+      if (error) {
+        console.error(`Error streaming ${storagePath}:`, error);
+      }
+    });
+  }
+
+  return { status, ...(range ? { range } : {}) };
+};
@@ -0,0 +1,80 @@
+/**
+ * Declarative request schemas. The shapes are a subset of JSON Schema, so they can be
+ * published as-is in API documentation.
+ */
+interface BaseSchema {
+  description?: string;
+  nullable?: boolean;
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: string[];
+  format?: 'email' | 'date-time' | 'binary';
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  properties: Record<string, Schema>;
+  required?: string[];
+  // Unknown properties are kept unless this is false
+  additionalProperties?: boolean;
+}
+
+export type Schema = StringSchema | NumberSchema | BooleanSchema | ArraySchema | ObjectSchema;
+
+/**
+ * Schemas for the parts of a request a route accepts
+ */
+export interface RequestSchema {
+  body?: ObjectSchema;
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+}
+
+type Options<T extends Schema> = Omit<T, 'type'>;
+
+export const string = (options: Options<StringSchema> = {}): StringSchema => ({ type: 'string', ...options });
+
+export const number = (options: Options<NumberSchema> = {}): NumberSchema => ({ type: 'number', ...options });
+
+export const integer = (options: Options<NumberSchema> = {}): NumberSchema => ({ type: 'integer', ...options });
+
+export const boolean = (options: Options<BooleanSchema> = {}): BooleanSchema => ({ type: 'boolean', ...options });
+
+export const array = (items: Schema, options: Omit<Options<ArraySchema>, 'items'> = {}): ArraySchema => ({
+  type: 'array',
+  items,
+  ...options
+});
+
+export const object = (
+  properties: Record<string, Schema>,
+  required: string[] = [],
+  options: Omit<Options<ObjectSchema>, 'properties' | 'required'> = {}
+): ObjectSchema => ({
+  type: 'object',
+  properties,
+  ...(required.length > 0 ? { required } : {}),
+  ...options
+});
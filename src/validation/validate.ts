@@ -0,0 +1,209 @@
+import { NextFunction, Request, Response } from 'express';
+import { ValidationError, ValidationIssue } from '../errors';
+import { ObjectSchema, RequestSchema, Schema } from './schema';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const describe = (path: string): string => path.split('.').slice(1).join('.') || path;
+
+// Query strings, route params and multipart fields arrive as strings
+const coerce = (schema: Schema, value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    if (schema.type === 'array' && value !== undefined && !Array.isArray(value)) {
+      return [value];
+    }
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'array':
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+};
+
+const check = (
+  schema: Schema,
+  input: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  coerceStrings: boolean
+): unknown => {
+  const value = coerceStrings ? coerce(schema, input) : input;
+  const name = describe(path);
+
+  if (value === null && schema.nullable) {
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      // Numbers are accepted where strings are expected (e.g. a PIN sent as 1234)
+      const text = typeof value === 'number' && Number.isFinite(value) ? String(value) : value;
+      if (typeof text !== 'string') {
+        issues.push({ path, message: `${name} must be a string` });
+        return value;
+      }
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        issues.push({ path, message: `${name} must be at least ${schema.minLength} characters long` });
+      }
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+        issues.push({ path, message: `${name} must be at most ${schema.maxLength} characters long` });
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+        issues.push({ path, message: `${name} has an invalid format` });
+      }
+      if (schema.enum && !schema.enum.includes(text)) {
+        issues.push({ path, message: `${name} must be one of: ${schema.enum.join(', ')}` });
+      }
+      if (schema.format === 'email' && !EMAIL_PATTERN.test(text)) {
+        issues.push({ path, message: `${name} must be a valid email address` });
+      }
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(text))) {
+        issues.push({ path, message: `${name} must be a valid date` });
+      }
+      return text;
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `${name} must be a number` });
+        return value;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ path, message: `${name} must be a whole number` });
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, message: `${name} must be at least ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path, message: `${name} must be at most ${schema.maximum}` });
+      }
+      return value;
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `${name} must be a boolean value (true or false)` });
+      }
+      return value;
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `${name} must be an array` });
+        return value;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, message: `${name} must contain at least ${schema.minItems} item(s)` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, message: `${name} must contain at most ${schema.maxItems} item(s)` });
+      }
+      return value.map((item, index) => check(schema.items, item, `${path}[${index}]`, issues, coerceStrings));
+    }
+
+    case 'object':
+      return checkObject(schema, value, path, issues, coerceStrings);
+  }
+};
+
+const checkObject = (
+  schema: ObjectSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  coerceStrings: boolean
+): unknown => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `${describe(path)} must be an object` });
+    return value;
+  }
+
+  const input = value as Record<string, unknown>;
+  const output: Record<string, unknown> = schema.additionalProperties === false ? {} : { ...input };
+
+  for (const key of schema.required || []) {
+    // Empty strings count as missing, matching the old `if (!field)` checks
+    const nullable = schema.properties[key]?.nullable === true;
+    if (input[key] === undefined || (input[key] === null && !nullable) || input[key] === '') {
+      issues.push({ path: `${path}.${key}`, message: `${key} is required` });
+    }
+  }
+
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    const propertyValue = input[key];
+    // Missing values were reported above; empty form fields count as missing for non-string types
+    const missing = propertyValue === undefined
+      || (propertyValue === null && !propertySchema.nullable)
+      || (propertyValue === '' && propertySchema.type !== 'string');
+    if (missing) {
+      continue;
+    }
+    output[key] = check(propertySchema, propertyValue, `${path}.${key}`, issues, coerceStrings);
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(input)) {
+      if (!(key in schema.properties)) {
+        issues.push({ path: `${path}.${key}`, message: `${key} is not allowed` });
+      }
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Validate a value against a schema. Returns the (coerced) value and any issues.
+ */
+export const validateValue = (
+  schema: Schema,
+  value: unknown,
+  path: string,
+  coerceStrings = false
+): { value: unknown; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const result = check(schema, value, path, issues, coerceStrings);
+  return { value: result, issues };
+};
+
+/**
+ * Middleware validating body, params and query against the route's schema.
+ * Coerced values replace the originals; failures reach the error handler as a ValidationError.
+ */
+export const validate = (schema: RequestSchema) => (req: Request, _res: Response, next: NextFunction): void => {
+  const issues: ValidationIssue[] = [];
+
+  if (schema.params) {
+    const result = validateValue(schema.params, req.params, 'params', true);
+    issues.push(...result.issues);
+    req.params = result.value as Request['params'];
+  }
+
+  if (schema.query) {
+    const result = validateValue(schema.query, req.query, 'query', true);
+    issues.push(...result.issues);
+    req.query = result.value as Request['query'];
+  }
+
+  if (schema.body) {
+    // JSON bodies keep their types; form and multipart fields are strings and get coerced
+    const result = validateValue(schema.body, req.body ?? {}, 'body', !req.is('application/json'));
+    issues.push(...result.issues);
+    req.body = result.value;
+  }
+
+  if (issues.length > 0) {
+    next(new ValidationError(issues));
+    return;
+  }
+
+  next();
+};
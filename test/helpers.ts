@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { User, WalletDocument } from '../src/models';
+import { createRepositories, getUserRepository, setRepositories } from '../src/repositories';
+import { MalwareScanner, setMalwareScanner } from '../src/scanning';
+import { storeContent } from '../src/services/contentStore';
+import { adjustTotalSize } from '../src/services/quota';
+import { createUploadedDocument } from '../src/services/uploads';
+import { measureUsage } from '../src/services/usage';
+import { LocalStorageProvider, setStorageProvider } from '../src/storage';
+
+const storageDir = (): string => process.env.LOCAL_STORAGE_DIR as string;
+
+// Drain the stream so callers see it consumed, as a real scanner would
+const consume = async (data: Readable): Promise<void> => {
+  for await (const _chunk of data) {
+    // nothing to do
+  }
+};
+
+export const cleanScanner: MalwareScanner = {
+  scan: async (data) => {
+    await consume(data);
+    return { infected: false };
+  }
+};
+
+export const infectedScanner: MalwareScanner = {
+  scan: async (data) => {
+    await consume(data);
+    return { infected: true, threat: 'Win.Test.EICAR_HDB-1' };
+  }
+};
+
+export const unreachableScanner: MalwareScanner = {
+  scan: async (data) => {
+    data.destroy();
+    throw new Error('connect ECONNREFUSED 127.0.0.1:3310');
+  }
+};
+
+/**
+ * Fresh repositories, an empty storage directory and a scanner that finds every file clean
+ */
+export const resetServices = (): void => {
+  fs.rmSync(storageDir(), { recursive: true, force: true });
+  setRepositories(createRepositories());
+  setStorageProvider(new LocalStorageProvider(storageDir(), 'http://localhost:3000', 'test-secret'));
+  setMalwareScanner(cleanScanner);
+};
+
+export const createUser = (fields: Partial<User> = {}): Promise<User> =>
+  getUserRepository().create({ email: 'owner@example.com', documents: [], totalSize: 0, ...fields });
+
+export const usageOf = async (uid: string): Promise<{ totalSize: number; reservedSize: number; reservedUploads: number }> => {
+  const user = await getUserRepository().findById(uid);
+  return { totalSize: user!.totalSize, reservedSize: user!.reservedSize ?? 0, reservedUploads: user!.reservedUploads ?? 0 };
+};
+
+/**
+ * What the user's files actually take up on the quota - documents, quarantined uploads and the profile picture
+ */
+export const measuredSizeOf = async (uid: string): Promise<number> => {
+  const user = await getUserRepository().findById(uid);
+  return (await measureUsage(user!)).totalSize;
+};
+
+/**
+ * A PDF of exactly `size` bytes whose contents differ by `seed`
+ */
+export const pdfOf = (size: number, seed = 'a'): Buffer => {
+  const head = Buffer.from(`%PDF-1.7\n% ${seed}\n`);
+  return Buffer.concat([head, Buffer.alloc(Math.max(0, size - head.length), ' ')]).subarray(0, size);
+};
+
+/**
+ * A clean PDF uploaded (and charged) as a new document of the user
+ */
+export const uploadDocument = async (uid: string, data: Buffer, fileName = 'statement.pdf'): Promise<WalletDocument> => {
+  await adjustTotalSize(uid, data.length);
+  const stored = await storeContent(uid, data, { contentType: 'application/pdf' });
+  return createUploadedDocument(
+    uid,
+    {
+      fileName,
+      storagePath: stored.storagePath,
+      fileSize: data.length,
+      mimeType: 'application/pdf',
+      sha256: stored.sha256,
+      detectedType: 'application/pdf',
+      scan: { scanStatus: 'CLEAN', scannedAt: Date.now(), scanThreat: null }
+    },
+    { description: '', category: 'other', tags: [], folderId: null }
+  );
+};
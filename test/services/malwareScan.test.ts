@@ -0,0 +1,48 @@
+import { AccessChannel, ScanStatus } from '../../src/models';
+import { setMalwareScanner } from '../../src/scanning';
+import { listQuarantinedFiles, removeQuarantinedFile, scanAllows, scanUpload } from '../../src/services/malwareScan';
+import { reserveQuota } from '../../src/services/quota';
+import { createUser, infectedScanner, measuredSizeOf, pdfOf, resetServices, usageOf } from '../helpers';
+
+const CHANNELS: AccessChannel[] = ['OWNER', 'PIN', 'SHARE', 'ADMIN', 'PUBLIC'];
+
+const allowedChannels = (scanStatus?: ScanStatus | null): AccessChannel[] =>
+  CHANNELS.filter(channel => scanAllows({ scanStatus }, channel));
+
+beforeEach(resetServices);
+
+describe('scanAllows', () => {
+  it('serves clean files through every channel', () => {
+    expect(allowedChannels('CLEAN')).toEqual(CHANNELS);
+  });
+
+  it('serves files that have not been scanned to their owner and admins only', () => {
+    expect(allowedChannels(null)).toEqual(['OWNER', 'ADMIN']);
+    expect(allowedChannels(undefined)).toEqual(['OWNER', 'ADMIN']);
+  });
+
+  it('serves infected files to admins only', () => {
+    expect(allowedChannels('INFECTED')).toEqual(['ADMIN']);
+  });
+});
+
+describe('quarantine', () => {
+  it('keeps an infected upload charged until an admin removes it', async () => {
+    const user = await createUser();
+    setMalwareScanner(infectedScanner);
+    await reserveQuota(user.uid, 400, { mimeType: 'application/pdf', newDocument: true });
+
+    await expect(scanUpload(user.uid, { fileName: 'invoice.pdf', mimeType: 'application/pdf' }, { buffer: pdfOf(400) }))
+      .rejects.toMatchObject({ code: 'MALWARE_DETECTED', details: { threat: 'Win.Test.EICAR_HDB-1' } });
+
+    const [quarantined] = await listQuarantinedFiles(user.uid);
+    expect(quarantined).toMatchObject({ fileName: 'invoice.pdf', threat: 'Win.Test.EICAR_HDB-1', size: 400 });
+    expect(await measuredSizeOf(user.uid)).toBe(400);
+
+    expect(await removeQuarantinedFile(user.uid, quarantined.id)).toBe(400);
+    expect(await listQuarantinedFiles(user.uid)).toEqual([]);
+    expect((await usageOf(user.uid)).totalSize).toBe(0);
+
+    expect(await removeQuarantinedFile(user.uid, quarantined.id)).toBeNull();
+  });
+});
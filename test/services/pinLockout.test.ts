@@ -0,0 +1,171 @@
+import { getSecurityAlertRepository } from '../../src/repositories';
+import {
+  claimPasscodeAttempt,
+  claimPinAttempt,
+  recordPasscodeFailure,
+  recordPasscodeSuccess,
+  recordPinFailure,
+  recordPinSuccess,
+  releasePinClaim
+} from '../../src/services/pinLockout';
+import { resetServices } from '../helpers';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const IP = '203.0.113.7';
+
+let now: number;
+const advance = (ms: number): void => {
+  now += ms;
+};
+
+// Fail the user's PIN `times` times, waiting out the backoff before each attempt
+const failPin = async (userId: string, times: number, ipAddress = IP) => {
+  let status = null;
+  for (let i = 0; i < times; i++) {
+    advance(MINUTE);
+    expect(await claimPinAttempt(userId, ipAddress)).toEqual({ claimed: true });
+    status = await recordPinFailure(userId, ipAddress);
+  }
+  return status!;
+};
+
+beforeEach(() => {
+  resetServices();
+  now = Date.UTC(2026, 0, 1);
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PIN lockout', () => {
+  it('lets only one of several concurrent attempts through', async () => {
+    const claims = await Promise.all(Array.from({ length: 5 }, () => claimPinAttempt('u1', IP)));
+
+    expect(claims.filter(claim => claim.claimed)).toHaveLength(1);
+  });
+
+  it('holds off other attempts until the claim is released, or lapses', async () => {
+    await claimPinAttempt('u1', IP);
+    expect(await claimPinAttempt('u1', IP)).toMatchObject({ claimed: false, status: { locked: false } });
+
+    await releasePinClaim('u1', IP);
+    expect(await claimPinAttempt('u1', IP)).toEqual({ claimed: true });
+
+    advance(11 * SECOND);
+    expect(await claimPinAttempt('u1', IP)).toEqual({ claimed: true });
+  });
+
+  it('backs off after each failure, doubling the delay', async () => {
+    await claimPinAttempt('u1', IP);
+    const first = await recordPinFailure('u1', IP);
+    expect(first).toMatchObject({ locked: false, failures: 1, remainingAttempts: 4, retryAt: now + SECOND });
+
+    expect(await claimPinAttempt('u1', IP)).toMatchObject({ claimed: false, status: { retryAt: now + SECOND } });
+
+    advance(SECOND + 1);
+    await claimPinAttempt('u1', IP);
+    const second = await recordPinFailure('u1', IP);
+    expect(second.retryAt).toBe(now + 2 * SECOND);
+  });
+
+  it('locks the user out after too many failures and alerts them', async () => {
+    const status = await failPin('u1', 5);
+
+    expect(status).toMatchObject({ locked: true, failures: 5, remainingAttempts: 0, lockedUntil: now + 15 * MINUTE });
+    advance(14 * MINUTE);
+    expect(await claimPinAttempt('u1', '198.51.100.1')).toMatchObject({ claimed: false, status: { locked: true } });
+
+    const alerts = await getSecurityAlertRepository().listByUser('u1');
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'PIN_LOCKOUT', failures: 5, ipAddress: IP });
+
+    advance(MINUTE + 1);
+    expect(await claimPinAttempt('u1', '198.51.100.1')).toEqual({ claimed: true });
+  });
+
+  it('locks the client IP out across users', async () => {
+    await failPin('u1', 3);
+    await failPin('u2', 2);
+
+    advance(MINUTE);
+    expect(await claimPinAttempt('u3', IP)).toMatchObject({ claimed: false, status: { locked: true } });
+    expect(await claimPinAttempt('u3', '198.51.100.1')).toEqual({ claimed: true });
+  });
+
+  it('clears the user\'s failures on success but not the client IP\'s', async () => {
+    await failPin('u1', 3);
+    advance(MINUTE);
+    await claimPinAttempt('u1', IP);
+    await recordPinSuccess('u1', IP);
+
+    advance(MINUTE);
+    expect(await claimPinAttempt('u1', '198.51.100.1')).toEqual({ claimed: true });
+    const status = await recordPinFailure('u1', '198.51.100.1');
+    expect(status.failures).toBe(1);
+
+    advance(MINUTE);
+    await claimPinAttempt('u2', IP);
+    expect((await recordPinFailure('u2', IP)).failures).toBe(4);
+  });
+
+  it('forgets failures older than the failure window', async () => {
+    await failPin('u1', 4);
+
+    advance(24 * 60 * MINUTE + 1);
+    await claimPinAttempt('u1', IP);
+    expect((await recordPinFailure('u1', IP)).failures).toBe(1);
+  });
+});
+
+describe('share passcode lockout', () => {
+  const share = { id: 'share-1', userId: 'owner-1', label: 'Tax return' };
+
+  it('locks the share after too many wrong passcodes, whatever the client IP, and alerts its owner', async () => {
+    let status = null;
+    for (let i = 0; i < 5; i++) {
+      advance(MINUTE);
+      const ipAddress = `198.51.100.${i}`;
+      expect(await claimPasscodeAttempt(share.id, ipAddress)).toEqual({ claimed: true });
+      status = await recordPasscodeFailure(share, ipAddress);
+    }
+
+    expect(status).toMatchObject({ locked: true, failures: 5 });
+    expect(await claimPasscodeAttempt(share.id, '192.0.2.1')).toMatchObject({ claimed: false, status: { locked: true } });
+
+    const [alert] = await getSecurityAlertRepository().listByUser('owner-1');
+    expect(alert).toMatchObject({ type: 'SHARE_PASSCODE_LOCKOUT' });
+    expect(alert.message).toContain('"Tax return"');
+  });
+
+  it('lets only one of several concurrent guesses through', async () => {
+    const claims = await Promise.all(Array.from({ length: 5 }, () => claimPasscodeAttempt(share.id, IP)));
+
+    expect(claims.filter(claim => claim.claimed)).toHaveLength(1);
+  });
+
+  it('counts passcode failures against the client IP shared with PIN attempts', async () => {
+    await failPin('u1', 4);
+
+    advance(MINUTE);
+    await claimPasscodeAttempt(share.id, IP);
+    const status = await recordPasscodeFailure(share, IP);
+
+    expect(status).toMatchObject({ locked: true, failures: 5 });
+  });
+
+  it('clears the share\'s failures after the right passcode', async () => {
+    advance(MINUTE);
+    await claimPasscodeAttempt(share.id, IP);
+    await recordPasscodeFailure(share, IP);
+    advance(MINUTE);
+    await claimPasscodeAttempt(share.id, IP);
+    await recordPasscodeSuccess(share.id, IP);
+
+    advance(MINUTE);
+    await claimPasscodeAttempt(share.id, '198.51.100.1');
+    expect((await recordPasscodeFailure(share, '198.51.100.1')).failures).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { getUserRepository } from '../../src/repositories';
+import { adjustTotalSize, releaseUpload, reserveQuota, reserveUpload, settleUpload } from '../../src/services/quota';
+import { createUser, resetServices, usageOf } from '../helpers';
+
+const MB = 1024 * 1024;
+const PDF = 'application/pdf';
+
+beforeEach(resetServices);
+
+describe('modifyQuotaUsage', () => {
+  it('writes the counters the mutation returns and stamps the change', async () => {
+    const user = await createUser({ totalSize: 10 });
+
+    const usage = await getUserRepository().modifyQuotaUsage(user.uid, current => ({
+      totalSize: current.totalSize + 5,
+      reservedSize: 7,
+      reservedUploads: 1
+    }));
+
+    expect(usage).toEqual({ totalSize: 15, reservedSize: 7, reservedUploads: 1 });
+    expect(await usageOf(user.uid)).toEqual(usage);
+    expect((await getUserRepository().findById(user.uid))?.totalSizeUpdatedAt).toEqual(expect.any(Number));
+  });
+
+  it('leaves the record untouched when the mutation throws', async () => {
+    const user = await createUser({ totalSize: 10 });
+
+    await expect(getUserRepository().modifyQuotaUsage(user.uid, () => {
+      throw new Error('refused');
+    })).rejects.toThrow('refused');
+
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 10, reservedSize: 0, reservedUploads: 0 });
+  });
+
+  it('applies concurrent changes one after the other', async () => {
+    const user = await createUser();
+
+    await Promise.all(Array.from({ length: 20 }, () => adjustTotalSize(user.uid, 3)));
+
+    expect((await usageOf(user.uid)).totalSize).toBe(60);
+  });
+});
+
+describe('reserveQuota', () => {
+  it('charges the file less the bytes freed with it', async () => {
+    const user = await createUser({ totalSize: 100 });
+
+    await reserveQuota(user.uid, 40, { freedSize: 30, mimeType: PDF });
+
+    expect((await usageOf(user.uid)).totalSize).toBe(110);
+  });
+
+  it('refuses a file past the quota without charging it', async () => {
+    const user = await createUser({ totalSize: 45 * MB });
+
+    await expect(reserveQuota(user.uid, 6 * MB, { mimeType: PDF })).rejects.toMatchObject({
+      status: 413,
+      code: 'STORAGE_QUOTA_EXCEEDED'
+    });
+    expect((await usageOf(user.uid)).totalSize).toBe(45 * MB);
+  });
+
+  it('lets only as many concurrent uploads through as fit the quota', async () => {
+    const user = await createUser({ totalSize: 35 * MB });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => reserveQuota(user.uid, 10 * MB, { mimeType: PDF }))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect((await usageOf(user.uid)).totalSize).toBe(45 * MB);
+  });
+
+  it('counts the space held by resumable uploads', async () => {
+    const user = await createUser({ totalSize: 35 * MB });
+    await reserveUpload(user.uid, 10 * MB, PDF);
+
+    await expect(reserveQuota(user.uid, 10 * MB, { mimeType: PDF })).rejects.toMatchObject({
+      code: 'STORAGE_QUOTA_EXCEEDED'
+    });
+  });
+
+  it('checks the plan\'s file types and document limit', async () => {
+    const user = await createUser({ documents: Array.from({ length: 100 }, (_, i) => `doc-${i}`) });
+
+    await expect(reserveQuota(user.uid, 10, { mimeType: 'text/plain' })).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FILE_TYPE'
+    });
+    await expect(reserveQuota(user.uid, 10, { mimeType: PDF, newDocument: true })).rejects.toMatchObject({
+      code: 'DOCUMENT_LIMIT_REACHED'
+    });
+  });
+});
+
+describe('upload reservations', () => {
+  it('turn into used bytes when settled', async () => {
+    const user = await createUser({ totalSize: 5 });
+    await reserveUpload(user.uid, 20, PDF);
+
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 5, reservedSize: 20, reservedUploads: 1 });
+
+    await settleUpload(user.uid, 20);
+
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 25, reservedSize: 0, reservedUploads: 0 });
+  });
+
+  it('free the space when released', async () => {
+    const user = await createUser({ totalSize: 5 });
+    await reserveUpload(user.uid, 20, PDF);
+
+    await releaseUpload(user.uid, 20);
+
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 5, reservedSize: 0, reservedUploads: 0 });
+  });
+});
@@ -0,0 +1,146 @@
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { UploadSession } from '../../src/models';
+import { getContentBlobRepository, getDocumentRepository, getUploadSessionRepository, getUserRepository } from '../../src/repositories';
+import { setMalwareScanner } from '../../src/scanning';
+import { appendChunk, completeUpload, createUploadSession } from '../../src/services/uploads';
+import {
+  cleanScanner,
+  createUser,
+  infectedScanner,
+  measuredSizeOf,
+  pdfOf,
+  resetServices,
+  unreachableScanner,
+  usageOf
+} from '../helpers';
+
+const sha256Of = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+// Start an upload of the file and send it in two chunks
+const uploadInChunks = async (uid: string, data: Buffer): Promise<UploadSession> => {
+  const session = await createUploadSession(
+    uid,
+    { fileName: 'statement.pdf', mimeType: 'application/pdf', fileSize: data.length },
+    { description: 'March', category: 'financial', tags: ['bank'], folderId: null }
+  );
+  const half = Math.floor(data.length / 2);
+  const first = await appendChunk(session, 0, Readable.from([data.subarray(0, half)]));
+  return appendChunk(first, half, Readable.from([data.subarray(half)]));
+};
+
+beforeEach(resetServices);
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('completeUpload', () => {
+  it('creates the document and turns the reservation into used bytes', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 0, reservedSize: 300, reservedUploads: 1 });
+
+    const document = await completeUpload(session, sha256Of(data));
+
+    expect(document).toMatchObject({
+      fileName: 'statement.pdf',
+      fileSize: 300,
+      sha256: sha256Of(data),
+      scanStatus: 'CLEAN',
+      category: 'financial',
+      currentVersion: 1
+    });
+    expect(await getUploadSessionRepository().findById(session.id)).toBeNull();
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 300, reservedSize: 0, reservedUploads: 0 });
+    expect(await measuredSizeOf(user.uid)).toBe(300);
+  });
+
+  it('discards the upload and releases its reservation when the checksum does not match', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+
+    await expect(completeUpload(session, sha256Of(pdfOf(300, 'other')))).rejects.toMatchObject({
+      status: 400,
+      code: 'CHECKSUM_MISMATCH'
+    });
+
+    expect(await getUploadSessionRepository().findById(session.id)).toBeNull();
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 0, reservedSize: 0, reservedUploads: 0 });
+  });
+
+  it('quarantines an infected file, charging it, and discards the upload', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+    setMalwareScanner(infectedScanner);
+
+    await expect(completeUpload(session, sha256Of(data))).rejects.toMatchObject({ status: 422, code: 'MALWARE_DETECTED' });
+
+    expect(await getUploadSessionRepository().findById(session.id)).toBeNull();
+    expect(await getDocumentRepository().listByUser(user.uid)).toEqual([]);
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 300, reservedSize: 0, reservedUploads: 0 });
+    expect(await measuredSizeOf(user.uid)).toBe(300);
+  });
+
+  it('keeps the upload for a retry when the file cannot be scanned', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+    setMalwareScanner(unreachableScanner);
+
+    await expect(completeUpload(session, sha256Of(data))).rejects.toMatchObject({ code: 'MALWARE_SCANNER_UNAVAILABLE' });
+    expect(await getUploadSessionRepository().findById(session.id)).toMatchObject({ completingAt: null });
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 0, reservedSize: 300, reservedUploads: 1 });
+
+    setMalwareScanner(cleanScanner);
+    await completeUpload(session, sha256Of(data));
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 300, reservedSize: 0, reservedUploads: 0 });
+  });
+
+  it('rolls everything back when the document cannot be recorded', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+    jest.spyOn(getUserRepository(), 'addDocumentSummary').mockRejectedValueOnce(new Error('deadline exceeded'));
+
+    await expect(completeUpload(session, sha256Of(data))).rejects.toThrow('deadline exceeded');
+
+    expect(await getDocumentRepository().listByUser(user.uid)).toEqual([]);
+    expect(await getContentBlobRepository().listByUser(user.uid)).toEqual([]);
+    expect(await getUploadSessionRepository().findById(session.id)).toBeNull();
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 0, reservedSize: 0, reservedUploads: 0 });
+  });
+
+  it('completes an upload only once', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+
+    const results = await Promise.allSettled([completeUpload(session, sha256Of(data)), completeUpload(session, sha256Of(data))]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { status: 409, code: 'UPLOAD_COMPLETING' }
+    });
+    expect(await getDocumentRepository().listByUser(user.uid)).toHaveLength(1);
+    expect((await usageOf(user.uid)).totalSize).toBe(300);
+  });
+
+  it('lets a completion that stalled be taken over', async () => {
+    const user = await createUser();
+    const data = pdfOf(300);
+    const session = await uploadInChunks(user.uid, data);
+    const sessions = getUploadSessionRepository();
+
+    await sessions.modify(session.id, current => ({ ...current, completingAt: Date.now() - 60 * 1000 }));
+    await expect(completeUpload(session, sha256Of(data))).rejects.toMatchObject({ code: 'UPLOAD_COMPLETING' });
+
+    await sessions.modify(session.id, current => ({ ...current, completingAt: Date.now() - 16 * 60 * 1000 }));
+    await completeUpload(session, sha256Of(data));
+
+    expect(await getDocumentRepository().listByUser(user.uid)).toHaveLength(1);
+    expect(await usageOf(user.uid)).toEqual({ totalSize: 300, reservedSize: 0, reservedUploads: 0 });
+  });
+});
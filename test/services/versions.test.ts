@@ -0,0 +1,120 @@
+import { getDocumentRepository } from '../../src/repositories';
+import { setMalwareScanner } from '../../src/scanning';
+import { adjustTotalSize } from '../../src/services/quota';
+import { addVersion, listVersions, VersionFile } from '../../src/services/versions';
+import { getStorageProvider } from '../../src/storage';
+import {
+  createUser,
+  infectedScanner,
+  measuredSizeOf,
+  pdfOf,
+  resetServices,
+  unreachableScanner,
+  uploadDocument,
+  usageOf
+} from '../helpers';
+
+const MB = 1024 * 1024;
+
+const versionFile = (buffer: Buffer): VersionFile => ({
+  originalname: 'statement.pdf',
+  mimetype: 'application/pdf',
+  size: buffer.length,
+  buffer,
+  detectedType: 'application/pdf'
+});
+
+const versionNumbersOf = async (documentId: string): Promise<number[]> => {
+  const document = await getDocumentRepository().findById(documentId);
+  return (await listVersions(document!)).map(version => version.version);
+};
+
+beforeEach(resetServices);
+
+describe('addVersion', () => {
+  it('makes the new file current and charges it', async () => {
+    const user = await createUser();
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+
+    const { document: updated, version, pruned } = await addVersion(document, versionFile(pdfOf(150, 'v2')));
+
+    expect(version).toMatchObject({ version: 2, fileSize: 150, scanStatus: 'CLEAN' });
+    expect(updated).toMatchObject({ currentVersion: 2, fileSize: 150, storagePath: version.storagePath });
+    expect(pruned).toEqual([]);
+    expect(await versionNumbersOf(document.id)).toEqual([2, 1]);
+    expect((await usageOf(user.uid)).totalSize).toBe(250);
+    expect(await measuredSizeOf(user.uid)).toBe(250);
+  });
+
+  it('prunes the oldest versions beyond the user\'s limit and credits their bytes', async () => {
+    const user = await createUser({ maxDocumentVersions: 2 });
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+    await addVersion(document, versionFile(pdfOf(110, 'v2')));
+
+    const { pruned } = await addVersion(document, versionFile(pdfOf(120, 'v3')));
+
+    expect(pruned.map(version => version.version)).toEqual([1]);
+    expect(await getStorageProvider().stat(document.storagePath)).toBeNull();
+    expect(await versionNumbersOf(document.id)).toEqual([3, 2]);
+    expect((await usageOf(user.uid)).totalSize).toBe(230);
+    expect(await measuredSizeOf(user.uid)).toBe(230);
+  });
+
+  it('numbers concurrent uploads apart and prunes each old version once', async () => {
+    const user = await createUser({ maxDocumentVersions: 2 });
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+    await addVersion(document, versionFile(pdfOf(100, 'v2')));
+
+    const results = await Promise.all(
+      [3, 4, 5, 6].map(n => addVersion(document, versionFile(pdfOf(100 + n, `v${n}`))))
+    );
+
+    expect(results.map(result => result.version.version).sort()).toEqual([3, 4, 5, 6]);
+    const prunedNumbers = results.flatMap(result => result.pruned.map(version => version.version));
+    expect(new Set(prunedNumbers).size).toBe(prunedNumbers.length);
+    expect((await usageOf(user.uid)).totalSize).toBe(await measuredSizeOf(user.uid));
+  });
+
+  it('keeps every version and charges nothing when the new one does not fit the quota', async () => {
+    const user = await createUser({ maxDocumentVersions: 2 });
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+    await addVersion(document, versionFile(pdfOf(100, 'v2')));
+    await adjustTotalSize(user.uid, 50 * MB - 300);
+
+    await expect(addVersion(document, versionFile(pdfOf(250, 'v3')))).rejects.toMatchObject({
+      code: 'STORAGE_QUOTA_EXCEEDED'
+    });
+
+    expect(await versionNumbersOf(document.id)).toEqual([2, 1]);
+    expect((await usageOf(user.uid)).totalSize).toBe(50 * MB - 100);
+  });
+
+  it('quarantines an infected file, keeping its charge and the versions it would have pruned', async () => {
+    const user = await createUser({ maxDocumentVersions: 1 });
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+    setMalwareScanner(infectedScanner);
+
+    await expect(addVersion(document, versionFile(pdfOf(120, 'v2')))).rejects.toMatchObject({
+      status: 422,
+      code: 'MALWARE_DETECTED'
+    });
+
+    expect(await versionNumbersOf(document.id)).toEqual([1]);
+    expect((await getDocumentRepository().findById(document.id))?.currentVersion).toBe(1);
+    expect((await usageOf(user.uid)).totalSize).toBe(220);
+    expect(await measuredSizeOf(user.uid)).toBe(220);
+  });
+
+  it('hands the charge back when the file cannot be scanned', async () => {
+    const user = await createUser({ maxDocumentVersions: 1 });
+    const document = await uploadDocument(user.uid, pdfOf(100, 'v1'));
+    setMalwareScanner(unreachableScanner);
+
+    await expect(addVersion(document, versionFile(pdfOf(120, 'v2')))).rejects.toMatchObject({
+      code: 'MALWARE_SCANNER_UNAVAILABLE'
+    });
+
+    expect(await versionNumbersOf(document.id)).toEqual([1]);
+    expect((await usageOf(user.uid)).totalSize).toBe(100);
+  });
+});
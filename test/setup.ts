@@ -0,0 +1,14 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Every test runs against the in-memory repositories and a throwaway local storage directory
+process.env.REPOSITORY_DRIVER = 'memory';
+process.env.STORAGE_DRIVER = 'local';
+process.env.MALWARE_SCANNER = 'noop';
+process.env.LOCAL_STORAGE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'wallet-doc-test-'));
+process.env.UPLOAD_EXPIRY_ON_SCHEDULE = 'false';
+
+afterAll(() => {
+  fs.rmSync(process.env.LOCAL_STORAGE_DIR as string, { recursive: true, force: true });
+});
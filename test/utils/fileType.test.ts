@@ -0,0 +1,24 @@
+import { verifyExtension } from '../../src/utils/fileType';
+
+const PDF = 'application/pdf';
+
+describe('verifyExtension', () => {
+  it('accepts an extension that names the declared type', () => {
+    expect(() => verifyExtension({ fileName: 'statement.PDF', mimeType: PDF })).not.toThrow();
+    expect(() => verifyExtension({ fileName: 'photo.jpg', mimeType: 'image/jpg' })).not.toThrow();
+  });
+
+  it('lets names without an accepted extension through', () => {
+    for (const fileName of ['statement', 'scan.2024', 'Passport v1.2', 'report.final', 'notes.constructor']) {
+      expect(() => verifyExtension({ fileName, mimeType: PDF })).not.toThrow();
+    }
+  });
+
+  it('refuses an extension that names another accepted type', () => {
+    expect(() => verifyExtension({ fileName: 'statement.png', mimeType: PDF })).toThrow(expect.objectContaining({
+      status: 415,
+      code: 'FILE_TYPE_MISMATCH',
+      details: { claimedType: PDF, detectedType: null, extension: 'png' }
+    }));
+  });
+});